@@ -0,0 +1,211 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs, type ParseArgsConfig } from 'node:util';
+import { processFileSources, DEFAULT_PROCESS_OPTIONS, type IgnoreSettings, type ProcessOptions, type TruncationMode } from '../services/file.service';
+import { OUTPUT_FORMATTERS, type OutputFormat } from '../services/format.service';
+import { BUILT_IN_TEMPLATES } from '../services/template.service';
+import { DEFAULT_PRESET, importPresets, type WorkspacePreset } from '../services/preset.service';
+import { redactTree, scanTree } from '../services/secret.service';
+import { compactTree, DEFAULT_COMPACTION_OPTIONS } from '../services/compaction.service';
+import { CONTENT_TRANSFORMERS, DEFAULT_TRANSFORMER_SETTINGS, type TransformerId, type TransformerSettings } from '../services/transform.service';
+import { loadTokenCounter, TOKENIZER_LABELS, type TokenizerKind } from '../services/token.service';
+import { renderContext } from '../services/pipeline.service';
+import { DEFAULT_STRUCTURE_OPTIONS, type StructureAnnotation, type StructureOptions } from '../services/structure.service';
+import { ORDER_MODE_LABELS, type OrderMode, type OrderOptions } from '../services/order.service';
+import { createNodeSources } from './node-source';
+
+// Generates the same digest as the web UI from paths on disk. Settings the UI keeps per
+// session (preset, template, format) come from flags; anything left out uses the UI's defaults.
+// Skeleton mode, diff focus and search focus are UI-only: files are always included in full.
+
+const STRUCTURE_ANNOTATIONS: StructureAnnotation[] = ['none', 'lines', 'bytes', 'tokens'];
+
+const USAGE = `Usage: context-maker [options] <path...>
+
+Options:
+  -o, --output <file>        Write to a file instead of stdout
+  -f, --format <format>      ${Object.keys(OUTPUT_FORMATTERS).join(' | ')} (default: markdown)
+  -p, --preset <file>        Preset exported from the web UI
+  -t, --template <template>  Built-in template id (${BUILT_IN_TEMPLATES.map(template => template.id).join(', ')}) or a template file
+      --task <text>          Fills {{task}} in the template
+      --max-size <kb>        Size limit per file in KB (default: ${DEFAULT_PROCESS_OPTIONS.maxFileSize / 1024})
+      --truncate <mode>      What to do with larger files: skip | head | head-tail (default: skip)
+      --ignore-dir <name>    Also ignore folders with this name (repeatable)
+      --ignore-name <name>   Also ignore files with this name (repeatable)
+      --ignore-ext <ext>     Also ignore files with this extension (repeatable)
+      --ignore <glob>        Also ignore paths matching this gitignore-style pattern (repeatable)
+      --include-dir <name>   Don't ignore folders with this name (repeatable)
+      --no-default-ignores   Start from empty ignore lists instead of the preset's
+      --raw <transformer>    Keep files verbatim instead of transforming them (repeatable):
+                             ${CONTENT_TRANSFORMERS.map(transformer => transformer.id).join(' | ')} | all
+      --strip-comments       Remove code comments
+      --collapse-whitespace  Collapse runs of blank lines and trailing whitespace
+      --minify-json          Minify JSON files
+      --tokenizer <kind>     ${Object.keys(TOKENIZER_LABELS).join(' | ')}, used for {{token_count}} (default: heuristic)
+      --annotate <kind>      Sizes in the directory structure: ${STRUCTURE_ANNOTATIONS.join(' | ')} (default: none)
+      --structure-depth <n>  Collapse folders deeper than this in the structure to a file count
+      --structure-entries <n>
+                             List at most this many entries per folder in the structure
+      --show-omitted         List skipped and excluded entries in the structure
+      --order <mode>         File order: ${Object.keys(ORDER_MODE_LABELS).join(' | ')} (default: default)
+      --priority <glob>      Put files matching this gitignore-style pattern first, in flag order (repeatable)
+  -v, --verbose              List skipped files on stderr
+  -h, --help                 Show this help
+`;
+
+const CLI_OPTIONS = {
+    output: { type: 'string', short: 'o' },
+    format: { type: 'string', short: 'f' },
+    preset: { type: 'string', short: 'p' },
+    template: { type: 'string', short: 't' },
+    task: { type: 'string' },
+    'max-size': { type: 'string' },
+    truncate: { type: 'string' },
+    'ignore-dir': { type: 'string', multiple: true },
+    'ignore-name': { type: 'string', multiple: true },
+    'ignore-ext': { type: 'string', multiple: true },
+    ignore: { type: 'string', multiple: true },
+    'include-dir': { type: 'string', multiple: true },
+    'no-default-ignores': { type: 'boolean' },
+    raw: { type: 'string', multiple: true },
+    'strip-comments': { type: 'boolean' },
+    'collapse-whitespace': { type: 'boolean' },
+    'minify-json': { type: 'boolean' },
+    tokenizer: { type: 'string' },
+    annotate: { type: 'string' },
+    'structure-depth': { type: 'string' },
+    'structure-entries': { type: 'string' },
+    'show-omitted': { type: 'boolean' },
+    order: { type: 'string' },
+    priority: { type: 'string', multiple: true },
+    verbose: { type: 'boolean', short: 'v' },
+    help: { type: 'boolean', short: 'h' },
+} as const satisfies ParseArgsConfig['options'];
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof CLI_OPTIONS; allowPositionals: true }>>['values'];
+
+const TRUNCATION_MODES: TruncationMode[] = ['skip', 'head', 'head-tail'];
+
+function fail(message: string): never {
+    throw new Error(`${message}\n\n${USAGE}`);
+}
+
+async function loadPreset(file: string | undefined): Promise<WorkspacePreset> {
+    if (!file) return DEFAULT_PRESET;
+    const [preset] = importPresets(await readFile(file, 'utf8'));
+    return preset;
+}
+
+async function loadTemplate(template: string | undefined, preset: WorkspacePreset): Promise<string> {
+    if (!template) return preset.template;
+    return BUILT_IN_TEMPLATES.find(builtIn => builtIn.id === template)?.body ?? await readFile(template, 'utf8');
+}
+
+function buildIgnoreSettings(preset: WorkspacePreset, values: CliValues): IgnoreSettings {
+    const base = values['no-default-ignores'] ? { dirs: [], filenames: [], extensions: [], globs: [] } : preset.ignore;
+    const included = new Set<string>(values['include-dir'] ?? []);
+    return {
+        dirs: [...base.dirs, ...(values['ignore-dir'] ?? [])].filter(dir => !included.has(dir)),
+        filenames: [...base.filenames, ...(values['ignore-name'] ?? [])],
+        extensions: [...base.extensions, ...(values['ignore-ext'] ?? [])],
+        globs: [...base.globs, ...(values.ignore ?? [])],
+    };
+}
+
+function parseCount(value: string | undefined, flag: string): number {
+    if (value === undefined) return 0;
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0) fail(`Invalid ${flag} "${value}".`);
+    return count;
+}
+
+function buildStructureOptions(values: CliValues): StructureOptions {
+    const annotation = (values.annotate ?? DEFAULT_STRUCTURE_OPTIONS.annotation) as StructureAnnotation;
+    if (!STRUCTURE_ANNOTATIONS.includes(annotation)) fail(`Unknown annotation "${annotation}".`);
+    return {
+        annotation,
+        maxDepth: parseCount(values['structure-depth'], 'structure depth'),
+        maxEntries: parseCount(values['structure-entries'], 'entry limit'),
+        showOmitted: values['show-omitted'] ?? DEFAULT_STRUCTURE_OPTIONS.showOmitted,
+    };
+}
+
+function buildOrderOptions(values: CliValues): OrderOptions {
+    const mode = (values.order ?? 'default') as OrderMode;
+    if (!(mode in ORDER_MODE_LABELS)) fail(`Unknown order "${mode}".`);
+    return { mode, priorityGlobs: values.priority ?? [] };
+}
+
+function buildTransformerSettings(raw: string[]): TransformerSettings {
+    const settings = { ...DEFAULT_TRANSFORMER_SETTINGS };
+    for (const id of raw) {
+        if (id === 'all') Object.keys(settings).forEach(key => { settings[key as TransformerId] = false; });
+        else if (id in settings) settings[id as TransformerId] = false;
+        else fail(`Unknown transformer "${id}".`);
+    }
+    return settings;
+}
+
+async function main(argv: string[]): Promise<void> {
+    const { values, positionals } = parseArgs({ args: argv, allowPositionals: true, options: CLI_OPTIONS });
+
+    if (values.help) {
+        process.stdout.write(USAGE);
+        return;
+    }
+    if (positionals.length === 0) fail('No paths given.');
+
+    const preset = await loadPreset(values.preset);
+    const format = (values.format ?? preset.format) as OutputFormat;
+    if (!(format in OUTPUT_FORMATTERS)) fail(`Unknown format "${format}".`);
+    const truncation = (values.truncate ?? DEFAULT_PROCESS_OPTIONS.truncation) as TruncationMode;
+    if (!TRUNCATION_MODES.includes(truncation)) fail(`Unknown truncation mode "${truncation}".`);
+    const tokenizer = (values.tokenizer ?? 'heuristic') as TokenizerKind;
+    if (!(tokenizer in TOKENIZER_LABELS)) fail(`Unknown tokenizer "${tokenizer}".`);
+    const maxSizeKb = values['max-size'] === undefined ? preset.maxFileSize / 1024 : Number(values['max-size']);
+    if (!(maxSizeKb > 0)) fail(`Invalid size limit "${values['max-size']}".`);
+    const structure = buildStructureOptions(values);
+    const order = buildOrderOptions(values);
+
+    const options: ProcessOptions = {
+        maxFileSize: maxSizeKb * 1024,
+        truncation,
+        ignore: buildIgnoreSettings(preset, values),
+        transformers: buildTransformerSettings(values.raw ?? []),
+    };
+    const templateBody = await loadTemplate(values.template, preset);
+    const countTokens = await loadTokenCounter(tokenizer);
+
+    const sources = await createNodeSources(positionals, options.ignore);
+    const { tree, skipped, sourceOrder } = await processFileSources(sources, options);
+
+    // Same order as the web UI: secrets are redacted before anything else touches the content
+    const findings = scanTree(tree);
+    const redacted = redactTree(tree, findings, new Set());
+    const { tree: outputTree } = compactTree(redacted, {
+        stripComments: values['strip-comments'] ?? DEFAULT_COMPACTION_OPTIONS.stripComments,
+        collapseWhitespace: values['collapse-whitespace'] ?? DEFAULT_COMPACTION_OPTIONS.collapseWhitespace,
+        minifyJson: values['minify-json'] ?? DEFAULT_COMPACTION_OPTIONS.minifyJson,
+    }, countTokens);
+
+    const { output } = renderContext(outputTree, {
+        format, templateBody, task: values.task, countTokens, structure, omitted: skipped, order, sourceOrder,
+    });
+
+    if (values.output) await writeFile(values.output, output);
+    else process.stdout.write(output);
+
+    if (findings.length > 0) {
+        process.stderr.write(`Redacted ${findings.length} possible secret${findings.length === 1 ? '' : 's'}.\n`);
+    }
+    if (values.verbose) {
+        for (const entry of skipped) {
+            process.stderr.write(`skipped (${entry.reason}): ${entry.path}${entry.isDirectory ? '/' : ''}${entry.detail ? ` - ${entry.detail}` : ''}\n`);
+        }
+    }
+}
+
+main(process.argv.slice(2)).catch(e => {
+    process.stderr.write(`context-maker: ${e instanceof Error ? e.message : String(e)}\n`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,89 @@
+import { open, readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import type { InputFile, InputSource } from '../types';
+import { DEFAULT_IGNORE_SETTINGS, isIgnoredDirectory, type IgnoreSettings } from '../services/file.service';
+import { isZipFileName } from '../services/zip.service';
+
+// Builds InputSources from paths on disk, the Node counterpart of source.service. Sources
+// come out the way the browser would build them for the same folder or file, which is what
+// keeps the CLI output identical to the web UI's.
+
+async function readRange(filePath: string, start: number, end: number): Promise<ArrayBuffer> {
+    const buffer = new Uint8Array(Math.max(0, end - start));
+    const handle = await open(filePath, 'r');
+    try {
+        let offset = 0;
+        while (offset < buffer.length) {
+            const { bytesRead } = await handle.read(buffer, offset, buffer.length - offset, start + offset);
+            if (bytesRead === 0) break;
+            offset += bytesRead;
+        }
+        return buffer.buffer.slice(0, offset);
+    } finally {
+        await handle.close();
+    }
+}
+
+// Like a browser File, bytes are only read when asked for, so truncated files are never read whole
+export function createNodeFile(filePath: string, size: number, lastModified: number): InputFile {
+    // Blob.slice semantics: negative indexes count from the end
+    const clamp = (index: number) => (index < 0 ? Math.max(size + index, 0) : Math.min(index, size));
+    return {
+        name: path.basename(filePath),
+        size,
+        lastModified,
+        slice: (start = 0, end = size) => ({ arrayBuffer: () => readRange(filePath, clamp(start), clamp(end)) }),
+        arrayBuffer: () => readRange(filePath, 0, size),
+        text: async () => new TextDecoder().decode(await readRange(filePath, 0, size)),
+    };
+}
+
+interface WalkedFiles {
+    files: InputFile[];
+    relativePaths: string[];
+    prunedDirs: string[];
+}
+
+// Symlinked files are followed; symlinked folders are not, so a link cycle can't hang the walk
+async function walkDirectory(directory: string, prefix: string, walked: WalkedFiles, ignore: IgnoreSettings): Promise<void> {
+    for (const entry of await readdir(directory, { withFileTypes: true })) {
+        const entryPath = path.join(directory, entry.name);
+        const relativePath = `${prefix}/${entry.name}`;
+        if (entry.isDirectory()) {
+            if (isIgnoredDirectory(entry.name, ignore)) {
+                walked.prunedDirs.push(relativePath);
+                continue;
+            }
+            await walkDirectory(entryPath, relativePath, walked, ignore);
+        } else if (entry.isFile() || entry.isSymbolicLink()) {
+            const stats = await stat(entryPath).catch(() => undefined);
+            if (!stats?.isFile()) continue;
+            walked.files.push(createNodeFile(entryPath, stats.size, Math.trunc(stats.mtimeMs)));
+            walked.relativePaths.push(relativePath);
+        }
+    }
+}
+
+// One source per path: folders become directory sources named after the folder, zip files
+// archive sources and anything else a single-file source
+export async function createNodeSources(paths: string[], ignore: IgnoreSettings = DEFAULT_IGNORE_SETTINGS): Promise<InputSource[]> {
+    const sources: InputSource[] = [];
+    for (const inputPath of paths) {
+        const resolved = path.resolve(inputPath);
+        const stats = await stat(resolved);
+        const name = path.basename(resolved) || resolved;
+
+        if (stats.isDirectory()) {
+            const walked: WalkedFiles = { files: [], relativePaths: [], prunedDirs: [] };
+            await walkDirectory(resolved, name, walked, ignore);
+            sources.push({ name, kind: 'directory', ...walked });
+        } else {
+            sources.push({
+                name,
+                kind: isZipFileName(name) ? 'archive' : 'file',
+                files: [createNodeFile(resolved, stats.size, Math.trunc(stats.mtimeMs))],
+            });
+        }
+    }
+    return sources;
+}
@@ -0,0 +1,45 @@
+import React from 'react';
+import { COMPACTION_LABELS, type CompactionKind, type CompactionOptions, type CompactionSaving } from '../services/compaction.service';
+import { formatTokenCount } from '../services/token.service';
+
+interface CompactionPanelProps {
+  options: CompactionOptions;
+  onOptionsChange: (options: CompactionOptions) => void;
+  savings: CompactionSaving[];
+}
+
+function CompactionPanel({ options, onOptionsChange, savings }: CompactionPanelProps): React.ReactNode {
+  const savingByKind = new Map(savings.map(saving => [saving.kind, saving]));
+
+  return (
+    <div className="border-[3px] border-black bg-white neubrutal-shadow-sm p-4 mb-4 text-xs font-bold uppercase">
+      <div className="flex flex-wrap items-center gap-x-5 gap-y-2">
+        <span className="font-black tracking-wider">Compact</span>
+        {(Object.keys(COMPACTION_LABELS) as CompactionKind[]).map(kind => {
+          const saving = savingByKind.get(kind);
+          return (
+            <label key={kind} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options[kind]}
+                onChange={e => onOptionsChange({ ...options, [kind]: e.target.checked })}
+                className="w-4 h-4 border-2 border-black accent-sky-400 cursor-pointer"
+              />
+              {COMPACTION_LABELS[kind]}
+              {saving && (
+                <span
+                  className="px-1.5 border-2 border-black bg-emerald-200 normal-case"
+                  title={`${saving.chars.toLocaleString()} characters saved across ${saving.files} file${saving.files === 1 ? '' : 's'}`}
+                >
+                  −{formatTokenCount(saving.tokens)} tokens · −{formatTokenCount(saving.chars)} chars
+                </span>
+              )}
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default CompactionPanel;
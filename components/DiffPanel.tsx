@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react';
+import type { FileSystemTree } from '../types';
+import {
+  getTouchedPaths, matchDiffFiles, parseUnifiedDiff, DEFAULT_DIFF_OPTIONS, type DiffFocusMode, type DiffMatch, type DiffOptions,
+} from '../services/diff.service';
+import { excludeAllExcept } from '../services/selection.service';
+
+export interface DiffFocus {
+  text: string;
+  options: DiffOptions;
+}
+
+interface DiffPanelProps {
+  tree: FileSystemTree;
+  focus: DiffFocus | null;
+  onApply: (focus: DiffFocus | null) => void;
+  onSelect: (excludedPaths: Set<string>) => void;
+}
+
+const MODE_LABELS: Record<DiffFocusMode, string> = {
+  full: 'Full files, changes marked',
+  hunks: 'Changed regions only',
+};
+
+function describeMatch({ file, treePath, stale }: DiffMatch): { label: string; className: string } {
+  if (!treePath) {
+    if (file.status === 'added') return { label: 'New, not loaded', className: 'bg-amber-200' };
+    if (file.status === 'deleted') return { label: 'Deleted', className: 'bg-gray-200' };
+    return { label: 'Not found', className: 'bg-red-300' };
+  }
+  if (file.status === 'deleted') return { label: 'Deleted, still loaded', className: 'bg-amber-200' };
+  if (stale) return { label: "Doesn't match", className: 'bg-amber-200' };
+  if (file.binary) return { label: 'Binary', className: 'bg-gray-200' };
+  return { label: file.status, className: 'bg-emerald-200' };
+}
+
+function DiffPanel({ tree, focus, onApply, onSelect }: DiffPanelProps): React.ReactNode {
+  const [text, setText] = useState<string>(focus?.text ?? '');
+  const [options, setOptions] = useState<DiffOptions>(focus?.options ?? DEFAULT_DIFF_OPTIONS);
+
+  const matches = useMemo(() => matchDiffFiles(tree, parseUnifiedDiff(text)), [tree, text]);
+  const touched = getTouchedPaths(matches);
+  const isApplied = focus !== null && focus.text === text && focus.options === options;
+
+  const handleApply = () => {
+    onApply({ text, options });
+    onSelect(excludeAllExcept(tree, touched));
+  };
+
+  const handleClear = () => {
+    setText('');
+    onApply(null);
+  };
+
+  return (
+    <div className="bg-white border-2 border-black neubrutal-shadow-sm p-3 space-y-3 text-xs font-bold uppercase">
+      <textarea
+        value={text}
+        onChange={e => setText(e.target.value)}
+        placeholder="Paste git diff or patch output"
+        rows={6}
+        spellCheck={false}
+        className="w-full border-2 border-black px-2 py-1 font-mono font-normal normal-case resize-y"
+      />
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={options.mode}
+          onChange={e => setOptions(prev => ({ ...prev, mode: e.target.value as DiffFocusMode }))}
+          className="border-2 border-black px-1 py-0.5 font-bold uppercase"
+        >
+          {(Object.keys(MODE_LABELS) as DiffFocusMode[]).map(mode => <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>)}
+        </select>
+        {options.mode === 'hunks' && (
+          <label className="flex items-center gap-2">
+            Context
+            <input
+              type="number"
+              min={0}
+              value={options.contextLines}
+              onChange={e => setOptions(prev => ({ ...prev, contextLines: Math.max(0, Math.floor(Number(e.target.value)) || 0) }))}
+              className="w-16 border-2 border-black px-1 py-0.5 font-bold"
+            />
+            lines
+          </label>
+        )}
+        <button
+          onClick={handleClear}
+          disabled={!text && !focus}
+          className="ml-auto px-2 py-0.5 border-2 border-black bg-white hover:bg-gray-100 uppercase disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Clear
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={matches.length === 0 || isApplied}
+          className="px-2 py-0.5 border-2 border-black bg-emerald-300 hover:bg-emerald-400 uppercase disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isApplied ? 'Applied' : `Focus ${touched.size} file${touched.size === 1 ? '' : 's'}`}
+        </button>
+      </div>
+
+      {text.trim() && matches.length === 0 && (
+        <p className="normal-case text-red-600">No file changes found in the pasted text.</p>
+      )}
+
+      {matches.length > 0 && (
+        <ul className="border-2 border-black py-1 max-h-[240px] overflow-auto scrollbar-thin scrollbar-thumb-black normal-case">
+          {matches.map(match => {
+            const { label, className } = describeMatch(match);
+            return (
+              <li key={`${match.file.oldPath ?? ''}:${match.file.path}`} className="flex items-center gap-2 px-2 py-0.5" title={match.treePath ?? match.file.path}>
+                <span className="truncate font-mono">
+                  {match.file.oldPath ? `${match.file.oldPath} → ${match.file.path}` : match.file.path}
+                </span>
+                <span className="ml-auto flex-shrink-0 text-[10px] text-gray-500">
+                  {match.file.hunks.length} hunk{match.file.hunks.length === 1 ? '' : 's'}
+                </span>
+                <span className={`flex-shrink-0 px-1 border border-black text-[10px] uppercase ${className}`}>{label}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default DiffPanel;
@@ -0,0 +1,172 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { FileSystemNode, FileSystemTree } from '../types';
+import { getSelectionState, type SelectionState } from '../services/selection.service';
+import { formatTokenCount } from '../services/token.service';
+import { getContentMode, isSkeletonSupported, type ContentMode } from '../services/skeleton.service';
+import { FolderIcon, DocumentIcon, ChevronRightIcon } from './ui/Icon';
+
+interface TriStateCheckboxProps {
+  state: SelectionState;
+  onChange: () => void;
+  title: string;
+}
+
+const TriStateCheckbox: React.FC<TriStateCheckboxProps> = ({ state, onChange, title }) => {
+  const ref = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (ref.current) ref.current.indeterminate = state === 'indeterminate';
+  }, [state]);
+
+  return (
+    <input
+      ref={ref}
+      type="checkbox"
+      checked={state === 'checked'}
+      onChange={onChange}
+      title={title}
+      className="w-4 h-4 border-2 border-black accent-sky-400 cursor-pointer flex-shrink-0"
+    />
+  );
+};
+
+interface ModeToggleProps {
+  mode: ContentMode;
+  onToggle: () => void;
+}
+
+const ModeToggle: React.FC<ModeToggleProps> = ({ mode, onToggle }) => (
+  <button
+    onClick={onToggle}
+    className={`px-1 text-[9px] leading-tight font-black border-2 border-black flex-shrink-0 ${mode === 'skeleton' ? 'bg-violet-300' : 'bg-white hover:bg-gray-100'}`}
+    title={mode === 'skeleton' ? 'Skeleton: signatures only. Click for full content' : 'Full content. Click for skeleton (signatures only)'}
+  >
+    {mode === 'skeleton' ? 'SKEL' : 'FULL'}
+  </button>
+);
+
+interface TreeRowProps {
+  node: FileSystemNode;
+  depth: number;
+  excludedPaths: Set<string>;
+  contentModes: Map<string, ContentMode>;
+  tokenCounts: Map<string, number>;
+  expandedPaths: Set<string>;
+  onToggleExpanded: (path: string) => void;
+  onToggleSelected: (node: FileSystemNode) => void;
+  onToggleMode: (node: FileSystemNode) => void;
+}
+
+const TreeRow: React.FC<TreeRowProps> = ({
+  node, depth, excludedPaths, contentModes, tokenCounts, expandedPaths, onToggleExpanded, onToggleSelected, onToggleMode,
+}) => {
+  const state = getSelectionState(node, excludedPaths);
+  const isDirectory = node.kind === 'directory';
+  const isExpanded = isDirectory && expandedPaths.has(node.path);
+  // Files in languages without a skeletonizer always go out in full
+  const canToggleMode = state !== 'unchecked' && (isDirectory || isSkeletonSupported(node.path));
+
+  return (
+    <>
+      <div
+        className={`flex items-center gap-1.5 py-0.5 pr-2 text-xs font-bold hover:bg-sky-100 ${state === 'unchecked' ? 'text-black/40' : 'text-black'}`}
+        style={{ paddingLeft: `${depth * 14 + 4}px` }}
+      >
+        {isDirectory ? (
+          <button
+            onClick={() => onToggleExpanded(node.path)}
+            className="w-4 h-4 flex items-center justify-center flex-shrink-0"
+            title={isExpanded ? 'Collapse' : 'Expand'}
+          >
+            <ChevronRightIcon className={`w-3 h-3 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+          </button>
+        ) : (
+          <span className="w-4 flex-shrink-0" />
+        )}
+        <TriStateCheckbox
+          state={state}
+          onChange={() => onToggleSelected(node)}
+          title={state === 'checked' ? 'Exclude from output' : 'Include in output'}
+        />
+        {isDirectory
+          ? <FolderIcon className="w-4 h-4 flex-shrink-0" />
+          : <DocumentIcon className="w-4 h-4 flex-shrink-0" />}
+        <span className={`truncate ${state === 'unchecked' ? 'line-through' : ''}`} title={node.path}>{node.name}</span>
+        {tokenCounts.has(node.path) && (
+          <span className="ml-auto pl-2 text-[10px] text-gray-500 flex-shrink-0">{formatTokenCount(tokenCounts.get(node.path) ?? 0)}</span>
+        )}
+        {canToggleMode && (
+          <span className={tokenCounts.has(node.path) ? '' : 'ml-auto'}>
+            <ModeToggle mode={getContentMode(node.path, contentModes)} onToggle={() => onToggleMode(node)} />
+          </span>
+        )}
+      </div>
+      {isExpanded && node.kind === 'directory' && node.children.map(child => (
+        <TreeRow
+          key={child.path}
+          node={child}
+          depth={depth + 1}
+          excludedPaths={excludedPaths}
+          contentModes={contentModes}
+          tokenCounts={tokenCounts}
+          expandedPaths={expandedPaths}
+          onToggleExpanded={onToggleExpanded}
+          onToggleSelected={onToggleSelected}
+          onToggleMode={onToggleMode}
+        />
+      ))}
+    </>
+  );
+};
+
+interface FileTreeProps {
+  tree: FileSystemTree;
+  excludedPaths: Set<string>;
+  contentModes: Map<string, ContentMode>;
+  tokenCounts: Map<string, number>;
+  onToggle: (node: FileSystemNode) => void;
+  onToggleMode: (node: FileSystemNode) => void;
+}
+
+function FileTree({ tree, excludedPaths, contentModes, tokenCounts, onToggle, onToggleMode }: FileTreeProps): React.ReactNode {
+  // Top-level folders start expanded, everything deeper starts collapsed
+  const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set());
+  const seenRootsRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    const newRoots = tree.filter(node => node.kind === 'directory' && !seenRootsRef.current.has(node.path));
+    if (newRoots.length === 0) return;
+    newRoots.forEach(node => seenRootsRef.current.add(node.path));
+    setExpandedPaths(prev => new Set([...prev, ...newRoots.map(node => node.path)]));
+  }, [tree]);
+
+  const handleToggleExpanded = (path: string) => {
+    setExpandedPaths(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-white border-2 border-black neubrutal-shadow-sm py-2 max-h-[400px] overflow-auto scrollbar-thin scrollbar-thumb-black">
+      {tree.map(node => (
+        <TreeRow
+          key={node.path}
+          node={node}
+          depth={0}
+          excludedPaths={excludedPaths}
+          contentModes={contentModes}
+          tokenCounts={tokenCounts}
+          expandedPaths={expandedPaths}
+          onToggleExpanded={handleToggleExpanded}
+          onToggleSelected={onToggle}
+          onToggleMode={onToggleMode}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default FileTree;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { OUTPUT_FORMATTERS, type OutputFormat } from '../services/format.service';
+
+interface FormatPickerProps {
+  value: OutputFormat;
+  onChange: (format: OutputFormat) => void;
+}
+
+function FormatPicker({ value, onChange }: FormatPickerProps): React.ReactNode {
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4">
+      <span className="text-xs font-black uppercase tracking-wider mr-1">Layout</span>
+      {(Object.keys(OUTPUT_FORMATTERS) as OutputFormat[]).map(format => (
+        <button
+          key={format}
+          onClick={() => onChange(format)}
+          className={`px-3 py-1 text-xs font-black uppercase border-2 border-black transition-all duration-75 ${
+            value === format ? 'bg-sky-400 neubrutal-shadow-active' : 'bg-white hover:bg-gray-100 neubrutal-shadow-sm'
+          }`}
+        >
+          {OUTPUT_FORMATTERS[format].label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default FormatPicker;
@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import type { FileSystemTree } from '../types';
+import {
+  buildImportGraph, createImportResolver, getGraphSelection, isImportSupported, type ImportGraphNode, type UnresolvedImport,
+} from '../services/import.service';
+import { excludeAllExcept } from '../services/selection.service';
+
+interface ImportGraphPanelProps {
+  tree: FileSystemTree;
+  onSelect: (excludedPaths: Set<string>) => void;
+}
+
+function collectImportableFiles(nodes: FileSystemTree, paths: string[] = []): string[] {
+  for (const node of nodes) {
+    if (node.kind === 'directory') collectImportableFiles(node.children, paths);
+    else if (isImportSupported(node.path)) paths.push(node.path);
+  }
+  return paths;
+}
+
+function groupBySpecifier(imports: UnresolvedImport[]): Array<[string, string[]]> {
+  const groups = new Map<string, string[]>();
+  for (const { from, specifier } of imports) {
+    groups.set(specifier, [...(groups.get(specifier) ?? []), from]);
+  }
+  return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+}
+
+interface GraphRowProps {
+  node: ImportGraphNode;
+  childrenOf: Map<string, ImportGraphNode[]>;
+  depth: number;
+  onTogglePruned: (path: string) => void;
+}
+
+// Each file is shown once, under the file it was first reached through
+const GraphRow: React.FC<GraphRowProps> = ({ node, childrenOf, depth, onTogglePruned }) => (
+  <>
+    <label
+      className={`flex items-center gap-1.5 py-0.5 pr-2 text-xs font-bold hover:bg-sky-100 cursor-pointer ${node.pruned ? 'text-black/40' : 'text-black'}`}
+      style={{ paddingLeft: `${depth * 14 + 4}px` }}
+      title={node.path}
+    >
+      <input
+        type="checkbox"
+        checked={!node.pruned}
+        onChange={() => onTogglePruned(node.path)}
+        className="w-4 h-4 border-2 border-black accent-sky-400 cursor-pointer flex-shrink-0"
+      />
+      <span className={`truncate font-mono ${node.pruned ? 'line-through' : ''}`}>{node.path}</span>
+      {node.imports.length > 0 && <span className="ml-auto pl-2 text-[10px] text-gray-500 flex-shrink-0">{node.imports.length} imports</span>}
+    </label>
+    {(childrenOf.get(node.path) ?? []).map(child => (
+      <GraphRow key={child.path} node={child} childrenOf={childrenOf} depth={depth + 1} onTogglePruned={onTogglePruned} />
+    ))}
+  </>
+);
+
+interface ImportListProps {
+  label: string;
+  imports: UnresolvedImport[];
+}
+
+const ImportList: React.FC<ImportListProps> = ({ label, imports }) => {
+  if (imports.length === 0) return null;
+  const groups = groupBySpecifier(imports);
+  return (
+    <details>
+      <summary className="cursor-pointer">{label} ({groups.length})</summary>
+      <ul className="mt-1 space-y-0.5 text-[11px] font-mono normal-case">
+        {groups.map(([specifier, from]) => (
+          <li key={specifier} className="flex justify-between gap-3" title={from.join('\n')}>
+            <span className="truncate">{specifier}</span>
+            <span className="text-gray-500 flex-shrink-0">{from.length} file{from.length === 1 ? '' : 's'}</span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+function ImportGraphPanel({ tree, onSelect }: ImportGraphPanelProps): React.ReactNode {
+  const [entryPaths, setEntryPaths] = useState<string[]>([]);
+  const [entryInput, setEntryInput] = useState<string>('');
+  const [maxDepth, setMaxDepth] = useState<number>(0);
+  const [prunedPaths, setPrunedPaths] = useState<Set<string>>(new Set());
+
+  const importableFiles = useMemo(() => collectImportableFiles(tree), [tree]);
+  const resolver = useMemo(() => createImportResolver(tree), [tree]);
+  const graph = useMemo(
+    () => buildImportGraph(resolver, entryPaths, { maxDepth, prunedPaths }),
+    [resolver, entryPaths, maxDepth, prunedPaths],
+  );
+  const selection = getGraphSelection(graph);
+
+  const childrenOf = new Map<string, ImportGraphNode[]>();
+  for (const node of graph.nodes) {
+    if (node.parent) childrenOf.set(node.parent, [...(childrenOf.get(node.parent) ?? []), node]);
+  }
+
+  const handleAddEntry = () => {
+    const path = entryInput.trim();
+    if (!importableFiles.includes(path) || entryPaths.includes(path)) return;
+    setEntryPaths(prev => [...prev, path]);
+    setEntryInput('');
+  };
+
+  const handleTogglePruned = (path: string) => {
+    setPrunedPaths(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-white border-2 border-black neubrutal-shadow-sm p-3 space-y-3 text-xs font-bold uppercase">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          list="import-graph-entries"
+          value={entryInput}
+          onChange={e => setEntryInput(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') handleAddEntry(); }}
+          placeholder="Entry file"
+          className="flex-grow min-w-0 border-2 border-black px-2 py-0.5 font-mono font-normal normal-case"
+        />
+        <datalist id="import-graph-entries">
+          {importableFiles.map(path => <option key={path} value={path} />)}
+        </datalist>
+        <button
+          onClick={handleAddEntry}
+          disabled={!importableFiles.includes(entryInput.trim())}
+          className="px-2 py-0.5 border-2 border-black bg-sky-300 hover:bg-sky-400 uppercase disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add
+        </button>
+      </div>
+
+      {entryPaths.length > 0 && (
+        <>
+          <div className="flex flex-wrap gap-1.5 normal-case">
+            {entryPaths.map(path => (
+              <span key={path} className="flex items-center gap-1 px-1.5 border-2 border-black bg-sky-100 font-mono" title={path}>
+                {path.split('/').pop()}
+                <button onClick={() => setEntryPaths(prev => prev.filter(entry => entry !== path))} className="font-black" title="Remove entry">×</button>
+              </span>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2">
+              Depth
+              <input
+                type="number"
+                min={0}
+                value={maxDepth || ''}
+                placeholder="All"
+                onChange={e => setMaxDepth(Math.max(0, Math.floor(Number(e.target.value)) || 0))}
+                className="w-16 border-2 border-black px-1 py-0.5 font-bold"
+              />
+            </label>
+            <button
+              onClick={() => { setEntryPaths([]); setPrunedPaths(new Set()); }}
+              className="px-2 py-0.5 border-2 border-black bg-white hover:bg-gray-100 uppercase"
+            >
+              Clear entries
+            </button>
+            <button
+              onClick={() => onSelect(excludeAllExcept(tree, selection))}
+              disabled={selection.size === 0}
+              className="ml-auto px-2 py-0.5 border-2 border-black bg-emerald-300 hover:bg-emerald-400 uppercase disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Select {selection.size} file{selection.size === 1 ? '' : 's'}
+            </button>
+          </div>
+
+          <div className="border-2 border-black py-1 max-h-[300px] overflow-auto scrollbar-thin scrollbar-thumb-black normal-case">
+            {graph.nodes.filter(node => node.depth === 0).map(node => (
+              <GraphRow key={node.path} node={node} childrenOf={childrenOf} depth={0} onTogglePruned={handleTogglePruned} />
+            ))}
+          </div>
+
+          <ImportList label="Unresolved" imports={graph.unresolved} />
+          <ImportList label="External" imports={graph.external} />
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ImportGraphPanel;
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { ORDER_MODE_LABELS, type OrderMode, type OrderOptions } from '../services/order.service';
+
+interface OrderPanelProps {
+  options: OrderOptions;
+  onOptionsChange: (options: OrderOptions) => void;
+}
+
+function OrderPanel({ options, onOptionsChange }: OrderPanelProps): React.ReactNode {
+  // Kept as typed so blank lines don't vanish while editing; one glob per non-empty line
+  const [globsText, setGlobsText] = useState<string>(options.priorityGlobs.join('\n'));
+  const [syncedGlobs, setSyncedGlobs] = useState<string[]>(options.priorityGlobs);
+
+  // Follow changes made elsewhere, such as importing a bundle
+  if (options.priorityGlobs !== syncedGlobs) {
+    setSyncedGlobs(options.priorityGlobs);
+    setGlobsText(options.priorityGlobs.join('\n'));
+  }
+
+  const handleGlobsChange = (text: string) => {
+    const priorityGlobs = text.split('\n').map(line => line.trim()).filter(Boolean);
+    setGlobsText(text);
+    setSyncedGlobs(priorityGlobs);
+    onOptionsChange({ ...options, priorityGlobs });
+  };
+
+  return (
+    <div className="border-[3px] border-black bg-white neubrutal-shadow-sm p-4 mb-4 space-y-3 text-xs font-bold uppercase">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-black tracking-wider">Order</span>
+        <select
+          value={options.mode}
+          onChange={e => onOptionsChange({ ...options, mode: e.target.value as OrderMode })}
+          className="border-2 border-black bg-white px-1 py-0.5 uppercase font-bold"
+        >
+          {(Object.keys(ORDER_MODE_LABELS) as OrderMode[]).map(mode => (
+            <option key={mode} value={mode}>{ORDER_MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+      </div>
+      <label className="block space-y-1">
+        <span>Priority globs</span>
+        <textarea
+          value={globsText}
+          onChange={e => handleGlobsChange(e.target.value)}
+          placeholder={'README.md\nsrc/api/**\n*.config.*'}
+          rows={3}
+          spellCheck={false}
+          className="w-full border-2 border-black px-2 py-1 font-mono font-normal normal-case resize-y"
+        />
+      </label>
+      <p className="normal-case font-normal text-gray-500">
+        One glob per line, earliest first. Files come out in this order, and a token budget drops them from the end.
+      </p>
+    </div>
+  );
+}
+
+export default OrderPanel;
@@ -0,0 +1,317 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { FileSystemTree } from '../types';
+import type { OutputFormat } from '../services/format.service';
+import type { StructureLine } from '../services/structure.service';
+import { buildOutputOutline, findLinkedBlock, type OutputFileBlock, type OutputOutline } from '../services/outline.service';
+import { highlightLines, type HighlightKind, type HighlightToken } from '../services/highlight.service';
+import { ChevronRightIcon } from './ui/Icon';
+
+interface OutputViewerProps {
+  output: string;
+  format: OutputFormat;
+  // What the output was generated from, used to find the files in it
+  tree: FileSystemTree;
+  // The structure section's entries, used to link them to the files
+  structure: StructureLine[];
+}
+
+interface Row {
+  line: number;
+  // Set on the row standing in for a folded file's content
+  folded?: OutputFileBlock;
+}
+
+interface SearchMatch {
+  line: number;
+  start: number;
+  end: number;
+}
+
+const LINE_HEIGHT = 20;
+// Rows rendered beyond the visible ones, so fast scrolling doesn't flash empty space
+const OVERSCAN = 20;
+const MAX_SEARCH_MATCHES = 10000;
+// Caps the scroll width so one minified line doesn't make the viewer miles wide
+const MAX_LINE_WIDTH = 2000;
+
+const TOKEN_CLASSES: Record<HighlightKind, string> = {
+  plain: '',
+  keyword: 'text-violet-700 font-bold',
+  number: 'text-amber-700',
+  comment: 'text-gray-500 italic',
+  literal: 'text-emerald-700',
+};
+
+// The file whose content contains the line; blocks are in output order
+function findContentBlock(outline: OutputOutline, line: number): OutputFileBlock | undefined {
+  let low = 0;
+  let high = outline.files.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const block = outline.files[mid];
+    if (line < block.contentStart) high = mid - 1;
+    else if (line >= block.contentEnd) low = mid + 1;
+    else return block;
+  }
+  return undefined;
+}
+
+function findMatches(lines: string[], query: string): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  if (!query) return matches;
+  const needle = query.toLowerCase();
+  for (let line = 0; line < lines.length && matches.length < MAX_SEARCH_MATCHES; line++) {
+    const text = lines[line].toLowerCase();
+    for (let start = text.indexOf(needle); start !== -1; start = text.indexOf(needle, start + needle.length)) {
+      matches.push({ line, start, end: start + needle.length });
+    }
+  }
+  return matches;
+}
+
+// Splits the tokens wherever a search match starts or ends
+function renderTokens(tokens: HighlightToken[], matches: SearchMatch[], active: SearchMatch | undefined): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  let offset = 0;
+  tokens.forEach((token, tokenIndex) => {
+    const tokenEnd = offset + token.text.length;
+    let position = offset;
+    for (const match of matches) {
+      if (match.end <= position || match.start >= tokenEnd) continue;
+      if (match.start > position) {
+        nodes.push(<span key={`${tokenIndex}-${position}`} className={TOKEN_CLASSES[token.kind]}>{token.text.slice(position - offset, match.start - offset)}</span>);
+        position = match.start;
+      }
+      const end = Math.min(match.end, tokenEnd);
+      nodes.push(
+        <mark key={`${tokenIndex}-${position}`} className={`${TOKEN_CLASSES[token.kind]} ${match === active ? 'bg-orange-400' : 'bg-yellow-200'}`}>
+          {token.text.slice(position - offset, end - offset)}
+        </mark>,
+      );
+      position = end;
+    }
+    if (position < tokenEnd) {
+      nodes.push(<span key={`${tokenIndex}-${position}`} className={TOKEN_CLASSES[token.kind]}>{token.text.slice(position - offset)}</span>);
+    }
+    offset = tokenEnd;
+  });
+  return nodes;
+}
+
+function OutputViewer({ output, format, tree, structure }: OutputViewerProps): React.ReactNode {
+  const [foldedPaths, setFoldedPaths] = useState<Set<string>>(new Set());
+  const [query, setQuery] = useState<string>('');
+  const [activeMatchIndex, setActiveMatchIndex] = useState<number>(0);
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const [viewportHeight, setViewportHeight] = useState<number>(600);
+  // Line to bring into view once the rows include it
+  const [scrollTarget, setScrollTarget] = useState<number | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const outline: OutputOutline = useMemo(() => buildOutputOutline(output, format, tree, structure), [output, format, tree, structure]);
+  // Highlighting is done per file the first time one of its lines is shown
+  const highlightCache = useMemo(() => new Map<OutputFileBlock, HighlightToken[][]>(), [outline]);
+  const headerBlocks = useMemo(() => new Map<number, OutputFileBlock>(outline.files.map(block => [block.headerLine, block])), [outline]);
+
+  const { rows, rowOfLine } = useMemo(() => {
+    const blocksByStart = new Map<number, OutputFileBlock>(outline.files.map(block => [block.contentStart, block]));
+    const rows: Row[] = [];
+    const rowOfLine = new Int32Array(outline.lines.length);
+    for (let line = 0; line < outline.lines.length; line++) {
+      const block = blocksByStart.get(line);
+      if (block && foldedPaths.has(block.path) && block.contentEnd > block.contentStart) {
+        rowOfLine.fill(rows.length, line, block.contentEnd);
+        rows.push({ line, folded: block });
+        line = block.contentEnd - 1;
+        continue;
+      }
+      rowOfLine[line] = rows.length;
+      rows.push({ line });
+    }
+    return { rows, rowOfLine };
+  }, [outline, foldedPaths]);
+
+  const matches = useMemo(() => findMatches(outline.lines, query), [outline, query]);
+  const matchesByLine = useMemo(() => {
+    const byLine = new Map<number, SearchMatch[]>();
+    for (const match of matches) byLine.set(match.line, [...(byLine.get(match.line) ?? []), match]);
+    return byLine;
+  }, [matches]);
+  const activeMatch = matches[Math.min(activeMatchIndex, matches.length - 1)];
+
+  const maxLineLength = useMemo(
+    () => Math.min(MAX_LINE_WIDTH, outline.lines.reduce((max, line) => Math.max(max, line.length), 0)),
+    [outline],
+  );
+  const gutterWidth = String(outline.lines.length).length + 1;
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (scrollTarget === null || !scrollRef.current) return;
+    scrollRef.current.scrollTop = Math.max(0, rowOfLine[scrollTarget] * LINE_HEIGHT - viewportHeight / 3);
+    setScrollTarget(null);
+  }, [scrollTarget, rowOfLine, viewportHeight]);
+
+  const unfold = (path: string) => {
+    setFoldedPaths(prev => {
+      if (!prev.has(path)) return prev;
+      const next = new Set(prev);
+      next.delete(path);
+      return next;
+    });
+  };
+
+  const toggleFolded = (path: string) => {
+    setFoldedPaths(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const goToLine = (line: number) => {
+    const block = findContentBlock(outline, line);
+    if (block) unfold(block.path);
+    setScrollTarget(line);
+  };
+
+  const goToMatch = (index: number) => {
+    if (matches.length === 0) return;
+    const wrapped = (index + matches.length) % matches.length;
+    setActiveMatchIndex(wrapped);
+    goToLine(matches[wrapped].line);
+  };
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setActiveMatchIndex(0);
+    const needle = value.toLowerCase();
+    const firstLine = needle ? outline.lines.findIndex(line => line.toLowerCase().includes(needle)) : -1;
+    if (firstLine !== -1) goToLine(firstLine);
+  };
+
+  const getTokens = (line: number): HighlightToken[] => {
+    const block = findContentBlock(outline, line);
+    if (!block || !block.language) return [{ kind: 'plain', text: outline.lines[line] }];
+    let tokens = highlightCache.get(block);
+    if (!tokens) {
+      tokens = highlightLines(outline.lines.slice(block.contentStart, block.contentEnd).join('\n'), block.path);
+      highlightCache.set(block, tokens);
+    }
+    return tokens[line - block.contentStart] ?? [];
+  };
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / LINE_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / LINE_HEIGHT) + OVERSCAN);
+
+  const renderRow = (row: Row, index: number) => {
+    const style = { top: index * LINE_HEIGHT, height: LINE_HEIGHT, lineHeight: `${LINE_HEIGHT}px` };
+    const gutter = (
+      <span className="sticky left-0 z-10 bg-white pr-3 text-right text-gray-400 select-none flex-shrink-0" style={{ width: `${gutterWidth + 2}ch` }}>
+        {row.folded ? '' : row.line + 1}
+      </span>
+    );
+
+    if (row.folded) {
+      const hidden = row.folded.contentEnd - row.folded.contentStart;
+      return (
+        <div key={`folded-${row.line}`} className="absolute left-0 right-0 flex" style={style}>
+          {gutter}
+          <button onClick={() => unfold(row.folded!.path)} className="px-2 border border-black bg-gray-100 hover:bg-sky-100 text-xs font-bold uppercase">
+            {hidden} line{hidden === 1 ? '' : 's'} folded
+          </button>
+        </div>
+      );
+    }
+
+    const header = headerBlocks.get(row.line);
+    const linkedPath = outline.structureLinks.get(row.line);
+    const linkedBlock = linkedPath !== undefined ? findLinkedBlock(outline, linkedPath) : undefined;
+    const content = renderTokens(getTokens(row.line), matchesByLine.get(row.line) ?? [], activeMatch);
+    return (
+      <div key={row.line} className={`absolute left-0 right-0 flex ${header ? 'bg-sky-50 font-bold' : ''}`} style={style}>
+        {gutter}
+        {header && (
+          <button
+            onClick={() => toggleFolded(header.path)}
+            className="w-4 flex items-center justify-center flex-shrink-0 mr-1"
+            title={foldedPaths.has(header.path) ? 'Unfold file' : 'Fold file'}
+          >
+            <ChevronRightIcon className={`w-3 h-3 transition-transform ${foldedPaths.has(header.path) ? '' : 'rotate-90'}`} />
+          </button>
+        )}
+        {linkedBlock ? (
+          <span
+            onClick={() => setScrollTarget(linkedBlock.headerLine)}
+            className="whitespace-pre cursor-pointer hover:underline hover:bg-sky-100"
+            title={`Go to ${linkedBlock.path}`}
+          >
+            {content}
+          </span>
+        ) : (
+          <span className="whitespace-pre">{content}</span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col flex-grow min-h-0">
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b-[3px] border-black text-xs font-bold uppercase">
+        <input
+          type="search"
+          value={query}
+          onChange={e => handleQueryChange(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') goToMatch(activeMatchIndex + (e.shiftKey ? -1 : 1)); }}
+          placeholder="Search output"
+          className="w-48 border-2 border-black px-2 py-0.5 font-mono font-normal normal-case"
+        />
+        {query && (
+          <span className="text-gray-500">
+            {matches.length === 0 ? 'No matches' : `${Math.min(activeMatchIndex, matches.length - 1) + 1} / ${matches.length}${matches.length >= MAX_SEARCH_MATCHES ? '+' : ''}`}
+          </span>
+        )}
+        <button onClick={() => goToMatch(activeMatchIndex - 1)} disabled={matches.length === 0} className="px-1.5 border-2 border-black bg-white hover:bg-gray-100 disabled:opacity-50" title="Previous match">↑</button>
+        <button onClick={() => goToMatch(activeMatchIndex + 1)} disabled={matches.length === 0} className="px-1.5 border-2 border-black bg-white hover:bg-gray-100 disabled:opacity-50" title="Next match">↓</button>
+        <span className="ml-auto text-gray-500">{outline.files.length} file{outline.files.length === 1 ? '' : 's'}</span>
+        <button
+          onClick={() => setFoldedPaths(new Set(outline.files.map(block => block.path)))}
+          disabled={outline.files.length === 0}
+          className="px-2 py-0.5 border-2 border-black bg-white hover:bg-gray-100 uppercase disabled:opacity-50"
+        >
+          Fold all
+        </button>
+        <button
+          onClick={() => setFoldedPaths(new Set())}
+          disabled={foldedPaths.size === 0}
+          className="px-2 py-0.5 border-2 border-black bg-white hover:bg-gray-100 uppercase disabled:opacity-50"
+        >
+          Unfold all
+        </button>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+        className="h-[70vh] min-h-[460px] overflow-auto scrollbar-thin scrollbar-thumb-black scrollbar-track-transparent"
+      >
+        <div
+          className="relative text-sm text-black font-mono selection:bg-sky-200"
+          style={{ height: rows.length * LINE_HEIGHT, minWidth: `${maxLineLength + gutterWidth + 6}ch` }}
+        >
+          {rows.slice(firstRow, lastRow).map((row, offset) => renderRow(row, firstRow + offset))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default OutputViewer;
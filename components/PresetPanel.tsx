@@ -0,0 +1,180 @@
+import React, { useRef, useState } from 'react';
+import type { IgnoreSettings } from '../services/file.service';
+import {
+  DEFAULT_PRESET, DEFAULT_PRESET_ID, exportPresets, findPreset, importPresets, loadActivePresetId, loadUserPresets,
+  saveActivePresetId, saveUserPresets, type WorkspacePreset,
+} from '../services/preset.service';
+import { downloadText } from '../services/download.service';
+
+export type PresetSettings = Omit<WorkspacePreset, 'id' | 'name' | 'builtIn'>;
+
+interface PresetPanelProps {
+  settings: PresetSettings;
+  onApply: (preset: WorkspacePreset) => void;
+  onIgnoreChange: (ignore: IgnoreSettings) => void;
+}
+
+const IGNORE_FIELDS: { key: keyof IgnoreSettings; label: string; hint: string }[] = [
+  { key: 'dirs', label: 'Folders', hint: 'Folder names, skipped wherever they appear' },
+  { key: 'filenames', label: 'File names', hint: 'Exact file names' },
+  { key: 'extensions', label: 'Extensions', hint: 'Without the dot' },
+  { key: 'globs', label: 'Globs', hint: 'Gitignore-style patterns' },
+];
+
+function toLines(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+function presetSettings({ ignore, maxFileSize, format, template }: WorkspacePreset | PresetSettings): PresetSettings {
+  return { ignore, maxFileSize, format, template };
+}
+
+function PresetPanel({ settings, onApply, onIgnoreChange }: PresetPanelProps): React.ReactNode {
+  const [userPresets, setUserPresets] = useState<WorkspacePreset[]>(() => loadUserPresets());
+  const [selectedId, setSelectedId] = useState<string>(() => loadActivePresetId());
+  const [newName, setNewName] = useState<string>('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const presets = [DEFAULT_PRESET, ...userPresets];
+  const selected = findPreset(presets, selectedId);
+  const isModified = JSON.stringify(presetSettings(settings)) !== JSON.stringify(presetSettings(selected));
+
+  const updateUserPresets = (next: WorkspacePreset[]) => {
+    setUserPresets(next);
+    saveUserPresets(next);
+  };
+
+  const select = (preset: WorkspacePreset) => {
+    setSelectedId(preset.id);
+    saveActivePresetId(preset.id);
+    onApply(preset);
+  };
+
+  const handleSave = () => {
+    updateUserPresets(userPresets.map(preset => (preset.id === selected.id ? { ...preset, ...presetSettings(settings) } : preset)));
+  };
+
+  const handleSaveAs = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const preset: WorkspacePreset = { id: crypto.randomUUID(), name, builtIn: false, ...presetSettings(settings) };
+    updateUserPresets([...userPresets, preset]);
+    setSelectedId(preset.id);
+    saveActivePresetId(preset.id);
+    setNewName('');
+  };
+
+  const handleDelete = () => {
+    updateUserPresets(userPresets.filter(preset => preset.id !== selected.id));
+    select(DEFAULT_PRESET);
+  };
+
+  const handleExport = () => {
+    const filename = `${selected.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'preset'}.preset.json`;
+    downloadText(filename, exportPresets([{ ...selected, ...presetSettings(settings) }]), 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (importInputRef.current) importInputRef.current.value = '';
+    if (!file) return;
+    try {
+      const imported = importPresets(await file.text());
+      updateUserPresets([...userPresets, ...imported]);
+      select(imported[0]);
+      setImportError(null);
+    } catch (err) {
+      setImportError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="border-[3px] border-black bg-white neubrutal-shadow-sm p-4 space-y-3 text-xs font-bold uppercase">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2">
+          Preset
+          <select
+            value={selected.id}
+            onChange={e => select(findPreset(presets, e.target.value))}
+            className="border-2 border-black bg-white px-1 py-0.5 uppercase font-bold"
+          >
+            {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+          </select>
+        </label>
+        {isModified && <span className="px-2 py-0.5 border-2 border-black bg-amber-200">Modified</span>}
+        {selected.id !== DEFAULT_PRESET_ID && (
+          <button onClick={handleDelete} className="ml-auto px-2 py-0.5 border-2 border-black bg-rose-300 hover:bg-rose-400 uppercase">
+            Delete
+          </button>
+        )}
+      </div>
+
+      <details>
+        <summary className="cursor-pointer">Ignore rules</summary>
+        <div className="mt-2 grid grid-cols-2 gap-2">
+          {IGNORE_FIELDS.map(({ key, label, hint }) => (
+            <label key={key} className="flex flex-col gap-1" title={hint}>
+              {label}
+              {/* Applied on blur so typing doesn't reprocess every source on each keystroke */}
+              <textarea
+                key={settings.ignore[key].join('\n')}
+                defaultValue={settings.ignore[key].join('\n')}
+                onBlur={e => {
+                  const lines = toLines(e.target.value);
+                  if (lines.join('\n') !== settings.ignore[key].join('\n')) onIgnoreChange({ ...settings.ignore, [key]: lines });
+                }}
+                rows={5}
+                spellCheck={false}
+                className="border-2 border-black px-2 py-1 font-mono font-normal normal-case resize-y"
+              />
+            </label>
+          ))}
+        </div>
+        <p className="mt-2 text-[10px] text-gray-500 normal-case">
+          One entry per line. Folders skipped while a folder was being read only come back after refreshing or re-adding it.
+        </p>
+      </details>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {isModified && !selected.builtIn && (
+          <button onClick={handleSave} className="px-2 py-0.5 border-2 border-black bg-emerald-300 hover:bg-emerald-400 uppercase">
+            Save
+          </button>
+        )}
+        {isModified && (
+          <button onClick={() => onApply(selected)} className="px-2 py-0.5 border-2 border-black bg-white hover:bg-gray-100 uppercase">
+            Reset
+          </button>
+        )}
+        <input
+          type="text"
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          placeholder="New preset name"
+          className="border-2 border-black px-2 py-0.5 font-bold normal-case"
+        />
+        <button
+          onClick={handleSaveAs}
+          disabled={!newName.trim()}
+          className="px-2 py-0.5 border-2 border-black bg-sky-300 hover:bg-sky-400 uppercase disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save as new
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={handleExport} className="px-2 py-0.5 border-2 border-black bg-white hover:bg-gray-100 uppercase">
+          Export JSON
+        </button>
+        <button onClick={() => importInputRef.current?.click()} className="px-2 py-0.5 border-2 border-black bg-white hover:bg-gray-100 uppercase">
+          Import JSON
+        </button>
+        <input type="file" accept=".json,application/json" ref={importInputRef} onChange={handleImport} className="hidden" />
+        {importError && <span className="text-rose-600 normal-case">{importError}</span>}
+      </div>
+    </div>
+  );
+}
+
+export default PresetPanel;
@@ -1,61 +1,223 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import type { FileSystemTree, FileSource } from '../types';
-import { processFileSources, generateStructureString, generateContentString } from '../services/file.service';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import type { FileNode, FileSystemNode, FileSystemTree, FileSource, SkippedEntry } from '../types';
+import { DEFAULT_PROCESS_OPTIONS, type ProcessOptions, type ProcessProgress } from '../services/file.service';
+import { createSourceProcessor, type SourceProcessor } from '../services/processing.service';
+import { getFormatter, type OutputFormat } from '../services/format.service';
+import { findPreset, loadActivePresetId, loadUserPresets, DEFAULT_PRESET, type WorkspacePreset } from '../services/preset.service';
+import { countFiles, filterTree, toggleNode } from '../services/selection.service';
+import { estimateTokens, loadTokenCounter, type TokenCounter, type TokenizerKind } from '../services/token.service';
+import { getLargestFiles, type BudgetMode } from '../services/budget.service';
+import { redactTree, scanTree } from '../services/secret.service';
+import { getContentMode, setContentMode, skeletonizeTree, type ContentMode } from '../services/skeleton.service';
+import { compactTree, DEFAULT_COMPACTION_OPTIONS, type CompactionOptions } from '../services/compaction.service';
+import { DEFAULT_SPLIT_OPTIONS, type OutputPart, type SplitOptions } from '../services/split.service';
+import {
+  collectExcludedEntries, DEFAULT_STRUCTURE_OPTIONS, type OmittedEntry, type StructureLine, type StructureOptions,
+} from '../services/structure.service';
+import { DEFAULT_ORDER_OPTIONS, type OrderOptions } from '../services/order.service';
+import { downloadBlob, downloadText } from '../services/download.service';
+import { createZip } from '../services/zip.service';
+import { exportBundle, importBundle, type ContextBundle } from '../services/bundle.service';
+import { renderContext } from '../services/pipeline.service';
+import { focusTreeOnDiff, matchDiffFiles, parseUnifiedDiff } from '../services/diff.service';
+import { focusTreeOnMatches } from '../services/search.service';
+import {
+  buildDeltaContext, clearSnapshots, compareWithSnapshot, deleteSnapshot, loadSnapshots, saveSnapshot, type Snapshot, type SnapshotDelta,
+} from '../services/snapshot.service';
+import {
+  createDirectorySourceFromInput, createFileSources, createSourcesFromDataTransfer, isDirectoryPickerSupported, pickDirectorySource,
+  reconnectSource, refreshSource, restoreWorkspaceSources, saveWorkspaceSource, removeWorkspaceSource, clearWorkspaceSources,
+} from '../services/source.service';
 import Button from './ui/Button';
-import { FolderIcon, FilePlusIcon, TrashIcon, ClipboardIcon, ClipboardCheckIcon } from './ui/Icon';
+import FileTree from './FileTree';
+import FormatPicker from './FormatPicker';
+import TokenPanel from './TokenPanel';
+import SkippedReport from './SkippedReport';
+import SecretFindingsPanel from './SecretFindingsPanel';
+import SplitPanel from './SplitPanel';
+import CompactionPanel from './CompactionPanel';
+import TemplatePanel from './TemplatePanel';
+import StructurePanel from './StructurePanel';
+import OrderPanel from './OrderPanel';
+import PresetPanel from './PresetPanel';
+import ImportGraphPanel from './ImportGraphPanel';
+import DiffPanel, { type DiffFocus } from './DiffPanel';
+import SearchPanel, { type SearchFocus } from './SearchPanel';
+import SnapshotPanel, { formatSnapshotTime, type SnapshotView } from './SnapshotPanel';
+import OutputViewer from './OutputViewer';
+import TransformerPanel from './TransformerPanel';
+import { FolderIcon, FilePlusIcon, TrashIcon, ClipboardIcon, ClipboardCheckIcon, RefreshIcon, ArchiveIcon, DownloadIcon } from './ui/Icon';
+
+const LARGEST_FILES_LIMIT = 10;
+const OUTPUT_FILENAME = 'context';
+
+// Remembering the workspace and snapshots is best-effort; without storage the session still works
+const ignoreStorageError = () => {};
+
+interface OutputSource {
+  tree: FileSystemTree;
+  excludedPaths: Set<string>;
+  settings: { format: OutputFormat; templateBody: string; task: string; diff?: string };
+  omitted: OmittedEntry[];
+  sourceOrder: string[];
+  date?: Date;
+}
+
+const SOURCE_KIND_COLORS: Record<FileSource['kind'], string> = {
+  directory: 'bg-amber-300',
+  archive: 'bg-violet-300',
+  file: 'bg-emerald-300',
+};
 
 interface SelectedItemProps {
   item: FileSource;
   onRemove: (id: string) => void;
+  onRefresh: (id: string) => void;
 }
 
-const SelectedItem: React.FC<SelectedItemProps> = ({ item, onRemove }) => (
+const SelectedItem: React.FC<SelectedItemProps> = ({ item, onRemove, onRefresh }) => (
   <div className="bg-white border-2 border-black p-3 neubrutal-shadow-sm flex items-center justify-between text-sm animate-fade-in group">
     <div className="flex items-center gap-3 overflow-hidden">
-      <div className={`p-1.5 border-2 border-black ${item.kind === 'directory' ? 'bg-amber-300' : 'bg-emerald-300'}`}>
-        {item.kind === 'directory' ? <FolderIcon className="w-5 h-5 text-black" /> : <FilePlusIcon className="w-5 h-5 text-black" />}
+      <div className={`p-1.5 border-2 border-black ${SOURCE_KIND_COLORS[item.kind]}`}>
+        {item.kind === 'directory' && <FolderIcon className="w-5 h-5 text-black" />}
+        {item.kind === 'archive' && <ArchiveIcon className="w-5 h-5 text-black" />}
+        {item.kind === 'file' && <FilePlusIcon className="w-5 h-5 text-black" />}
       </div>
       <div className="flex flex-col overflow-hidden">
         <span className="font-bold truncate text-black uppercase text-xs" title={item.name}>{item.name}</span>
         <span className="text-[10px] font-bold text-gray-500 uppercase tracking-tighter">
-          {item.kind === 'directory' ? `${item.files.length} FILES` : 'SINGLE FILE'}
+          {item.needsPermission ? 'PERMISSION NEEDED' : item.kind === 'directory' ? `${item.files.length} FILES` : item.kind === 'archive' ? 'ZIP ARCHIVE' : 'SINGLE FILE'}
         </span>
       </div>
     </div>
-    <button 
-      onClick={() => onRemove(item.id)} 
-      className="p-1.5 border-2 border-black bg-rose-400 hover:bg-rose-500 transition-colors"
-      title="Remove item"
-    >
-      <TrashIcon className="w-4 h-4 text-black" />
-    </button>
+    <div className="flex gap-2 flex-shrink-0">
+      {item.handle && (
+        <button
+          onClick={() => onRefresh(item.id)}
+          className={`p-1.5 border-2 border-black transition-colors ${item.needsPermission ? 'bg-amber-300 hover:bg-amber-400' : 'bg-sky-300 hover:bg-sky-400'}`}
+          title={item.needsPermission ? 'Reconnect folder' : 'Refresh from disk'}
+        >
+          <RefreshIcon className="w-4 h-4 text-black" />
+        </button>
+      )}
+      <button 
+        onClick={() => onRemove(item.id)} 
+        className="p-1.5 border-2 border-black bg-rose-400 hover:bg-rose-500 transition-colors"
+        title="Remove item"
+      >
+        <TrashIcon className="w-4 h-4 text-black" />
+      </button>
+    </div>
   </div>
 );
 
 function PromptContextGenerator(): React.ReactNode {
+  // The session starts from the preset that was active last time
+  const [initialPreset] = useState<WorkspacePreset>(() => findPreset([DEFAULT_PRESET, ...loadUserPresets()], loadActivePresetId()));
   const [sources, setSources] = useState<FileSource[]>([]);
+  const [tree, setTree] = useState<FileSystemTree>([]);
+  // Kept across re-processing so exclusions survive adding or removing sources
+  const [excludedPaths, setExcludedPaths] = useState<Set<string>>(new Set());
+  const [contentModes, setContentModes] = useState<Map<string, ContentMode>>(new Map());
+  const [skipped, setSkipped] = useState<SkippedEntry[]>([]);
+  const [sourceOrder, setSourceOrder] = useState<string[]>([]);
+  const [processOptions, setProcessOptions] = useState<ProcessOptions>(() => ({
+    ...DEFAULT_PROCESS_OPTIONS,
+    maxFileSize: initialPreset.maxFileSize,
+    ignore: initialPreset.ignore,
+  }));
   const [combinedOutput, setCombinedOutput] = useState<string>('');
+  const [renderedTree, setRenderedTree] = useState<FileSystemTree>([]);
+  const [renderedStructure, setRenderedStructure] = useState<StructureLine[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [progress, setProgress] = useState<ProcessProgress | null>(null);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [isCopied, setIsCopied] = useState<boolean>(false);
+  const [tokenizer, setTokenizer] = useState<TokenizerKind>('heuristic');
+  const [countTokens, setCountTokens] = useState<TokenCounter>(() => estimateTokens);
+  const [tokenBudget, setTokenBudget] = useState<number>(0);
+  const [budgetMode, setBudgetMode] = useState<BudgetMode>('warn');
+  const [tokenCounts, setTokenCounts] = useState<Map<string, number>>(new Map());
+  const [totalTokens, setTotalTokens] = useState<number>(0);
+  const [droppedFiles, setDroppedFiles] = useState<FileNode[]>([]);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>(initialPreset.format);
+  // Findings are redacted unless the user explicitly reveals them
+  const [unredactedIds, setUnredactedIds] = useState<Set<string>>(new Set());
+  const [splitOptions, setSplitOptions] = useState<SplitOptions>(DEFAULT_SPLIT_OPTIONS);
+  const [structureOptions, setStructureOptions] = useState<StructureOptions>(DEFAULT_STRUCTURE_OPTIONS);
+  const [orderOptions, setOrderOptions] = useState<OrderOptions>(DEFAULT_ORDER_OPTIONS);
+  const [outputParts, setOutputParts] = useState<OutputPart[]>([]);
+  const [compactionOptions, setCompactionOptions] = useState<CompactionOptions>(DEFAULT_COMPACTION_OPTIONS);
+  const [templateBody, setTemplateBody] = useState<string>(initialPreset.template);
+  const [task, setTask] = useState<string>('');
+  const [diffFocus, setDiffFocus] = useState<DiffFocus | null>(null);
+  const [searchFocus, setSearchFocus] = useState<SearchFocus | null>(null);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [snapshotView, setSnapshotView] = useState<SnapshotView | null>(null);
+  const [snapshotDelta, setSnapshotDelta] = useState<{ snapshotId: string; delta: SnapshotDelta } | null>(null);
+  // Shown instead of the current sources until the user goes back to them
+  const [importedBundle, setImportedBundle] = useState<ContextBundle | null>(null);
+
+  const findings = useMemo(() => scanTree(tree), [tree]);
+  const redactedTree = useMemo(() => redactTree(tree, findings, unredactedIds), [tree, findings, unredactedIds]);
+  // These run after redaction, which works on offsets into the original content. Redaction
+  // keeps every line where it was, so the diff's line numbers still match.
+  const focusedTree = useMemo(
+    () => (diffFocus ? focusTreeOnDiff(redactedTree, matchDiffFiles(tree, parseUnifiedDiff(diffFocus.text)), diffFocus.options) : redactedTree),
+    [tree, redactedTree, diffFocus],
+  );
+  // After the diff focus, which needs the original line numbers
+  const searchedTree = useMemo(
+    () => (searchFocus ? focusTreeOnMatches(focusedTree, searchFocus.query, searchFocus.options) : focusedTree),
+    [focusedTree, searchFocus],
+  );
+  const skeletonTree = useMemo(() => skeletonizeTree(searchedTree, contentModes), [searchedTree, contentModes]);
+  const compaction = useMemo(
+    () => compactTree(skeletonTree, compactionOptions, countTokens),
+    [skeletonTree, compactionOptions, countTokens],
+  );
+  const selectedTree = useMemo(() => filterTree(compaction.tree, excludedPaths), [compaction, excludedPaths]);
+  const viewedSnapshot = snapshotView ? snapshots.find(snapshot => snapshot.id === snapshotView.snapshotId) : undefined;
+  // A snapshot's own output is regenerated with the settings it was copied with
+  const renderedFormat = snapshotView?.kind === 'snapshot' && viewedSnapshot ? viewedSnapshot.settings.format : outputFormat;
+  const hasInput = tree.length > 0 || importedBundle !== null;
 
+  // What the output is generated from; null while a delta is still being compared
+  const outputSource: OutputSource | null = useMemo(() => {
+    const settings = { format: outputFormat, templateBody, task, diff: diffFocus?.text };
+    if (importedBundle) {
+      return {
+        tree: importedBundle.tree,
+        excludedPaths: new Set<string>(),
+        settings: { ...settings, diff: importedBundle.diff },
+        omitted: importedBundle.omitted,
+        sourceOrder: importedBundle.sourceOrder,
+        date: new Date(importedBundle.createdAt),
+      };
+    }
+    if (snapshotView?.kind === 'snapshot' && viewedSnapshot) {
+      // Processing skips belong to the current sources, not to a snapshot or a delta
+      return { tree: viewedSnapshot.tree, excludedPaths: new Set<string>(), settings: viewedSnapshot.settings, omitted: [], sourceOrder };
+    }
+    if (snapshotView?.kind === 'delta' && viewedSnapshot) {
+      if (snapshotDelta?.snapshotId !== viewedSnapshot.id) return null;
+      const deltaContext = buildDeltaContext(selectedTree, snapshotDelta.delta, snapshotView.mode);
+      return { tree: deltaContext.tree, excludedPaths: new Set<string>(), settings: { ...settings, diff: deltaContext.diff }, omitted: [], sourceOrder };
+    }
+    return { tree: compaction.tree, excludedPaths, settings, omitted: skipped, sourceOrder };
+  }, [compaction, excludedPaths, skipped, sourceOrder, outputFormat, templateBody, task, diffFocus, importedBundle, snapshotView, viewedSnapshot, snapshotDelta,
+    selectedTree]);
+
+  const processorRef = useRef<SourceProcessor | null>(null);
   const folderInputRef = useRef<HTMLInputElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
 
   const handleFolderSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const files: File[] = Array.from(e.target.files);
-      const firstPath = files[0].webkitRelativePath;
-      const folderName = firstPath.split('/')[0] || 'Selected Folder';
-      
-      const newSource: FileSource = {
-        id: crypto.randomUUID(),
-        name: folderName,
-        kind: 'directory',
-        files: files
-      };
-      
+      const newSource = createDirectorySourceFromInput(Array.from(e.target.files));
       setSources(prev => [...prev, newSource]);
     }
     if (folderInputRef.current) folderInputRef.current.value = '';
@@ -63,66 +225,368 @@ function PromptContextGenerator(): React.ReactNode {
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const files: File[] = Array.from(e.target.files);
-      const newSources: FileSource[] = files.map(file => ({
-        id: crypto.randomUUID(),
-        name: file.name,
-        kind: 'file',
-        files: [file]
-      }));
+      const newSources = createFileSources(Array.from(e.target.files));
       setSources(prev => [...prev, ...newSources]);
     }
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const triggerFolderInput = () => folderInputRef.current?.click();
+  // Directory handles can be re-read later, so prefer them over the snapshot the file input gives
+  const triggerFolderInput = async () => {
+    if (!isDirectoryPickerSupported()) {
+      folderInputRef.current?.click();
+      return;
+    }
+    try {
+      const newSource = await pickDirectorySource(processOptions.ignore);
+      setSources(prev => [...prev, newSource]);
+      saveWorkspaceSource(newSource).catch(ignoreStorageError);
+    } catch (e) {
+      if ((e as Error).name !== 'AbortError') {
+        setError('Failed to open folder.');
+      }
+    }
+  };
   const triggerFileInput = () => fileInputRef.current?.click();
 
   const handleRemoveItem = (id: string) => {
     setSources(prev => prev.filter(s => s.id !== id));
+    removeWorkspaceSource(id).catch(ignoreStorageError);
+  };
+
+  const handleRefreshItem = async (id: string) => {
+    const source = sources.find(s => s.id === id);
+    if (!source) return;
+    try {
+      const refreshed = source.needsPermission ? await reconnectSource(source, processOptions.ignore) : await refreshSource(source, processOptions.ignore);
+      setSources(prev => prev.map(s => (s.id === id ? refreshed : s)));
+    } catch {
+      setError(`Failed to read "${source.name}" from disk.`);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    try {
+      const newSources = await createSourcesFromDataTransfer(e.dataTransfer.items, processOptions.ignore);
+      setSources(prev => [...prev, ...newSources]);
+    } catch {
+      setError('Failed to read dropped items.');
+    }
   };
   
   const handleClear = () => {
     setSources([]);
+    setTree([]);
+    setSkipped([]);
+    setSourceOrder([]);
+    setExcludedPaths(new Set());
+    setContentModes(new Map());
+    setDiffFocus(null);
+    setSearchFocus(null);
+    setSnapshotView(null);
+    setImportedBundle(null);
     setCombinedOutput('');
     setError(null);
+    clearWorkspaceSources().catch(ignoreStorageError);
+  };
+
+  const handleToggleNode = (node: FileSystemNode) => {
+    setExcludedPaths(prev => toggleNode(tree, node, prev));
   };
 
-  const handleCopy = useCallback(() => {
+  const handleToggleMode = (node: FileSystemNode) => {
+    setContentModes(prev => setContentMode(node, getContentMode(node.path, prev) === 'skeleton' ? 'full' : 'skeleton', prev));
+  };
+
+  const handleToggleFinding = (id: string) => {
+    setUnredactedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleSetAllRedacted = (redacted: boolean) => {
+    setUnredactedIds(redacted ? new Set() : new Set(findings.map(finding => finding.id)));
+  };
+
+  const handleApplyPreset = (preset: WorkspacePreset) => {
+    setProcessOptions(prev => ({ ...prev, maxFileSize: preset.maxFileSize, ignore: preset.ignore }));
+    setOutputFormat(preset.format);
+    setTemplateBody(preset.template);
+  };
+
+  // Copies of the current selection are remembered for later deltas; re-copying an old snapshot isn't
+  const recordSnapshot = () => {
+    if (importedBundle || snapshotView?.kind === 'snapshot' || selectedTree.length === 0) return;
+    // Files dropped for the budget weren't in the copied output. A delta output has its own drops.
+    const copiedTree = snapshotView ? selectedTree : filterTree(selectedTree, new Set(droppedFiles.map(file => file.path)));
+    saveSnapshot(copiedTree, {
+      label: sources.map(source => source.name).join(', '),
+      tokenCount: totalTokens,
+      settings: { format: outputFormat, templateBody, task, diff: snapshotView ? undefined : diffFocus?.text },
+    })
+      .then(saved => (saved ? loadSnapshots().then(setSnapshots) : undefined))
+      .catch(ignoreStorageError);
+  };
+
+  const handleCopy = () => {
     if (!combinedOutput) return;
-    navigator.clipboard.writeText(combinedOutput).then(() => {
-      setIsCopied(true);
-      setTimeout(() => setIsCopied(false), 2000);
+    navigator.clipboard.writeText(combinedOutput)
+      .then(() => {
+        setIsCopied(true);
+        setTimeout(() => setIsCopied(false), 2000);
+        recordSnapshot();
+      })
+      .catch(() => setError('Failed to copy to the clipboard.'));
+  };
+
+  // Resolves to whether the part was copied, so the panel only confirms real copies
+  const handleCopyPart = (part: OutputPart) => navigator.clipboard.writeText(part.content)
+    .then(() => {
+      recordSnapshot();
+      return true;
+    })
+    .catch(() => {
+      setError('Failed to copy to the clipboard.');
+      return false;
     });
-  }, [combinedOutput]);
+
+  const getPartFilename = (part: OutputPart) => `${OUTPUT_FILENAME}-part-${part.index}-of-${part.total}.${getFormatter(renderedFormat).extension}`;
+
+  const handleDownload = () => {
+    if (!combinedOutput) return;
+    const formatter = getFormatter(renderedFormat);
+    downloadText(`${OUTPUT_FILENAME}.${formatter.extension}`, combinedOutput, formatter.mimeType);
+  };
+
+  const handleDownloadPart = (part: OutputPart) => {
+    downloadText(getPartFilename(part), part.content, getFormatter(renderedFormat).mimeType);
+  };
+
+  const handleDownloadAllParts = async () => {
+    try {
+      const zip = await createZip(outputParts.map(part => ({ path: getPartFilename(part), content: part.content })));
+      downloadBlob(`${OUTPUT_FILENAME}-parts.zip`, zip);
+    } catch {
+      setError('Failed to create the ZIP file.');
+    }
+  };
+
+  // The bundle holds the files as they are rendered, so the other side needs none of the
+  // processing settings; deselected entries travel as names only
+  const handleExportBundle = () => {
+    if (!outputSource) return;
+    const { tree: sourceTree, excludedPaths: sourceExclusions, settings: { diff, ...settings }, omitted, sourceOrder: bundleSourceOrder } = outputSource;
+    const bundle: ContextBundle = {
+      label: importedBundle ? importedBundle.label : sources.map(source => source.name).join(', '),
+      createdAt: Date.now(),
+      tree: filterTree(sourceTree, sourceExclusions),
+      omitted: [...omitted, ...collectExcludedEntries(sourceTree, sourceExclusions, new Set())],
+      diff,
+      sourceOrder: bundleSourceOrder,
+      settings: { ...settings, tokenizer, tokenBudget, budgetMode, split: splitOptions, structure: structureOptions, order: orderOptions },
+    };
+    downloadText(`${OUTPUT_FILENAME}-bundle.json`, exportBundle(bundle), 'application/json');
+  };
+
+  const handleImportBundle = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (bundleInputRef.current) bundleInputRef.current.value = '';
+    if (!file) return;
+    try {
+      const bundle = importBundle(await file.text());
+      const { settings } = bundle;
+      setOutputFormat(settings.format);
+      setTemplateBody(settings.templateBody);
+      setTask(settings.task);
+      setTokenizer(settings.tokenizer);
+      setTokenBudget(settings.tokenBudget);
+      setBudgetMode(settings.budgetMode);
+      setSplitOptions(settings.split);
+      setStructureOptions(settings.structure);
+      setOrderOptions(settings.order);
+      setSnapshotView(null);
+      setImportedBundle(bundle);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleSnapshotViewChange = (view: SnapshotView | null) => {
+    setImportedBundle(null);
+    setSnapshotView(view);
+  };
+
+  const handleDeleteSnapshot = (id: string) => {
+    if (snapshotView?.snapshotId === id) setSnapshotView(null);
+    deleteSnapshot(id)
+      .then(() => setSnapshots(prev => prev.filter(snapshot => snapshot.id !== id)))
+      .catch(() => setError('Failed to delete the snapshot.'));
+  };
+
+  const handleClearSnapshots = () => {
+    setSnapshotView(null);
+    clearSnapshots()
+      .then(() => setSnapshots([]))
+      .catch(() => setError('Failed to clear the snapshots.'));
+  };
   
   useEffect(() => {
-    if (sources.length === 0) {
-      setCombinedOutput('');
+    const processor = createSourceProcessor();
+    processorRef.current = processor;
+    return () => {
+      processor.dispose();
+      processorRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    restoreWorkspaceSources(processOptions.ignore)
+      .then(restored => {
+        if (!cancelled && restored.length > 0) setSources(prev => [...restored, ...prev]);
+      })
+      .catch(ignoreStorageError);
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    const processor = processorRef.current;
+    // Restored folders stay listed but can't be read until permission is granted again
+    const readableSources = sources.filter(source => !source.needsPermission);
+    if (readableSources.length === 0 || !processor) {
+      setTree([]);
+      setSkipped([]);
+      setSourceOrder([]);
+      setIsLoading(false);
+      setProgress(null);
       return;
     }
 
+    // Aborted when sources or options change, so a stale run can never overwrite a newer one
+    const controller = new AbortController();
+
     const process = async () => {
       setIsLoading(true);
+      setProgress(null);
       setError(null);
       try {
-        const tree = await processFileSources(sources);
-        const structure = generateStructureString(tree);
-        const content = generateContentString(tree);
-        
-        const finalOutput = `This prompt contains the structure and content of a project.\n\n# DIRECTORY STRUCTURE\n\n\`\`\`\n${structure.trim()}\n\`\`\`\n\n# FILE CONTENTS\n${content}`;
-        setCombinedOutput(finalOutput);
-        
+        const result = await processor.process(readableSources, processOptions, {
+          signal: controller.signal,
+          onProgress: setProgress,
+        });
+        if (controller.signal.aborted) return;
+        setTree(result.tree);
+        setSkipped(result.skipped);
+        setSourceOrder(result.sourceOrder ?? []);
       } catch (e) {
+        if (controller.signal.aborted) return;
         setError('Failed to process files.');
         console.error(e);
       } finally {
-        setIsLoading(false);
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+          setProgress(null);
+        }
       }
     };
 
     process();
-  }, [sources]);
+    return () => controller.abort();
+  }, [sources, processOptions]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTokenCounter(tokenizer)
+      .then(counter => {
+        if (!cancelled) setCountTokens(() => counter);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load tokenizer.');
+      });
+    return () => { cancelled = true; };
+  }, [tokenizer]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSnapshots()
+      .then(loaded => {
+        if (!cancelled) setSnapshots(loaded);
+      })
+      .catch(ignoreStorageError);
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (snapshotView?.kind !== 'delta' || !viewedSnapshot) {
+      setSnapshotDelta(null);
+      return;
+    }
+    let cancelled = false;
+    compareWithSnapshot(viewedSnapshot, selectedTree)
+      .then(delta => {
+        if (!cancelled) setSnapshotDelta({ snapshotId: viewedSnapshot.id, delta });
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to compare with the snapshot.');
+      });
+    return () => { cancelled = true; };
+  }, [snapshotView?.kind, viewedSnapshot, selectedTree]);
+
+  useEffect(() => {
+    // Keep showing the previous output until the comparison is done
+    if (!outputSource) return;
+    const { tree: outputTree, settings } = outputSource;
+
+    // Deleted files alone still make a delta
+    if (outputTree.length === 0 && !(snapshotView?.kind === 'delta' && settings.diff)) {
+      setCombinedOutput('');
+      setRenderedTree([]);
+      setRenderedStructure([]);
+      setTokenCounts(new Map());
+      setTotalTokens(0);
+      setDroppedFiles([]);
+      setOutputParts([]);
+      return;
+    }
+
+    const rendered = renderContext(outputTree, {
+      ...settings,
+      excludedPaths: outputSource.excludedPaths,
+      omitted: outputSource.omitted,
+      date: outputSource.date,
+      countTokens,
+      tokenBudget,
+      budgetMode,
+      split: splitOptions,
+      structure: structureOptions,
+      order: orderOptions,
+      sourceOrder: outputSource.sourceOrder,
+    });
+
+    setCombinedOutput(rendered.output);
+    setRenderedTree(rendered.tree);
+    setRenderedStructure(rendered.structure);
+    setTokenCounts(rendered.tokenCounts);
+    setTotalTokens(rendered.totalTokens);
+    setDroppedFiles(rendered.dropped);
+    setOutputParts(rendered.parts);
+  }, [outputSource, countTokens, tokenBudget, budgetMode, splitOptions, structureOptions, orderOptions]);
 
   return (
     <div className="bg-[#ffefc1] border-[3px] border-black p-6 md:p-8 neubrutal-shadow relative">
@@ -140,10 +604,21 @@ function PromptContextGenerator(): React.ReactNode {
         className="hidden" 
         multiple 
       />
+      <input type="file" accept=".json,application/json" ref={bundleInputRef} onChange={handleImportBundle} className="hidden" />
 
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-10">
         {/* Left: Input Selection */}
-        <div className="lg:col-span-4 space-y-8">
+        <div
+          className="lg:col-span-4 space-y-8 relative"
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
+          {isDragging && (
+            <div className="absolute -inset-3 z-20 border-[3px] border-dashed border-black bg-sky-200/90 flex items-center justify-center pointer-events-none">
+              <p className="font-black text-2xl uppercase italic tracking-tighter">Drop to add</p>
+            </div>
+          )}
           <section>
             <h2 className="text-2xl font-black text-black mb-6 uppercase italic tracking-tighter">1. Selection Area</h2>
             
@@ -156,8 +631,17 @@ function PromptContextGenerator(): React.ReactNode {
               </Button>
             </div>
             <p className="mt-4 text-[10px] font-bold text-gray-500 uppercase tracking-widest text-center">
-              Add multiple items sequentially
+              Add multiple items or drop them here
             </p>
+            <div className="mt-3 text-center">
+              <button
+                onClick={() => bundleInputRef.current?.click()}
+                className="px-2 py-0.5 border-2 border-black bg-white hover:bg-gray-100 text-xs font-bold uppercase"
+                title="Open a context bundle exported by a teammate"
+              >
+                Import Bundle
+              </button>
+            </div>
           </section>
 
           <section>
@@ -170,7 +654,7 @@ function PromptContextGenerator(): React.ReactNode {
             {sources.length > 0 ? (
                 <div className="grid grid-cols-1 gap-2 max-h-[400px] overflow-y-auto pr-2 pb-4 scrollbar-thin scrollbar-thumb-black">
                     {sources.map(source => (
-                      <SelectedItem key={source.id} item={source} onRemove={handleRemoveItem} />
+                      <SelectedItem key={source.id} item={source} onRemove={handleRemoveItem} onRefresh={handleRefreshItem} />
                     ))}
                 </div>
             ) : (
@@ -179,6 +663,97 @@ function PromptContextGenerator(): React.ReactNode {
                 </div>
             )}
           </section>
+
+          {tree.length > 0 && (
+            <section>
+              <div className="flex justify-between items-end mb-4 border-b-2 border-black pb-2">
+                  <h2 className="text-xl font-black text-black uppercase italic">Files</h2>
+                  <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">
+                    {countFiles(filterTree(tree, excludedPaths))} / {countFiles(tree)} included
+                  </span>
+              </div>
+              <FileTree
+                tree={tree}
+                excludedPaths={excludedPaths}
+                contentModes={contentModes}
+                tokenCounts={tokenCounts}
+                onToggle={handleToggleNode}
+                onToggleMode={handleToggleMode}
+              />
+            </section>
+          )}
+
+          {tree.length > 0 && (
+            <section>
+              <div className="flex justify-between items-end mb-4 border-b-2 border-black pb-2">
+                  <h2 className="text-xl font-black text-black uppercase italic">Import Graph</h2>
+              </div>
+              <ImportGraphPanel tree={tree} onSelect={setExcludedPaths} />
+            </section>
+          )}
+
+          {tree.length > 0 && (
+            <section>
+              <div className="flex justify-between items-end mb-4 border-b-2 border-black pb-2">
+                  <h2 className="text-xl font-black text-black uppercase italic">Diff Focus</h2>
+              </div>
+              <DiffPanel tree={tree} focus={diffFocus} onApply={setDiffFocus} onSelect={setExcludedPaths} />
+            </section>
+          )}
+
+          {tree.length > 0 && (
+            <section>
+              <div className="flex justify-between items-end mb-4 border-b-2 border-black pb-2">
+                  <h2 className="text-xl font-black text-black uppercase italic">Search</h2>
+              </div>
+              <SearchPanel tree={redactedTree} focus={searchFocus} onApply={setSearchFocus} onSelect={setExcludedPaths} />
+            </section>
+          )}
+
+          {snapshots.length > 0 && (
+            <section>
+              <div className="flex justify-between items-end mb-4 border-b-2 border-black pb-2">
+                  <h2 className="text-xl font-black text-black uppercase italic">Snapshots ({snapshots.length})</h2>
+              </div>
+              <SnapshotPanel
+                snapshots={snapshots}
+                view={snapshotView}
+                onViewChange={handleSnapshotViewChange}
+                onDelete={handleDeleteSnapshot}
+                onClearAll={handleClearSnapshots}
+              />
+            </section>
+          )}
+
+          {sources.length > 0 && (
+            <section>
+              <div className="flex justify-between items-end mb-4 border-b-2 border-black pb-2">
+                  <h2 className="text-xl font-black text-black uppercase italic">Skipped ({skipped.length})</h2>
+              </div>
+              <SkippedReport skipped={skipped} options={processOptions} onOptionsChange={setProcessOptions} />
+            </section>
+          )}
+
+          <section>
+            <div className="flex justify-between items-end mb-4 border-b-2 border-black pb-2">
+                <h2 className="text-xl font-black text-black uppercase italic">Transformers</h2>
+            </div>
+            <TransformerPanel
+              settings={processOptions.transformers}
+              onSettingsChange={transformers => setProcessOptions(prev => ({ ...prev, transformers }))}
+            />
+          </section>
+
+          <section>
+            <div className="flex justify-between items-end mb-4 border-b-2 border-black pb-2">
+                <h2 className="text-xl font-black text-black uppercase italic">Settings</h2>
+            </div>
+            <PresetPanel
+              settings={{ ignore: processOptions.ignore, maxFileSize: processOptions.maxFileSize, format: outputFormat, template: templateBody }}
+              onApply={handleApplyPreset}
+              onIgnoreChange={ignore => setProcessOptions(prev => ({ ...prev, ignore }))}
+            />
+          </section>
         </div>
 
         {/* Right: Output */}
@@ -186,23 +761,119 @@ function PromptContextGenerator(): React.ReactNode {
           <div className="flex justify-between items-center mb-4">
             <h2 className="text-2xl font-black text-black uppercase italic tracking-tighter">2. Generated Context</h2>
             {combinedOutput && (
-              <Button 
-                onClick={handleCopy} 
-                icon={isCopied ? <ClipboardCheckIcon /> : <ClipboardIcon />} 
-                variant="success"
-                disabled={isLoading}
-              >
-                {isLoading ? 'Updating...' : (isCopied ? 'Copied!' : 'Copy to Clipboard')}
-              </Button>
+              <div className="flex gap-2">
+                <Button onClick={handleExportBundle} variant="secondary" disabled={isLoading} title="Files and settings, to regenerate this output elsewhere">
+                  Bundle
+                </Button>
+                <Button onClick={handleDownload} icon={<DownloadIcon />} variant="primary" disabled={isLoading}>
+                  .{getFormatter(renderedFormat).extension}
+                </Button>
+                <Button 
+                  onClick={handleCopy} 
+                  icon={isCopied ? <ClipboardCheckIcon /> : <ClipboardIcon />} 
+                  variant="success"
+                  disabled={isLoading}
+                >
+                  {isLoading ? 'Updating...' : (isCopied ? 'Copied!' : 'Copy to Clipboard')}
+                </Button>
+              </div>
             )}
           </div>
           
+          <FormatPicker value={outputFormat} onChange={setOutputFormat} />
+
+          <TemplatePanel body={templateBody} onBodyChange={setTemplateBody} task={task} onTaskChange={setTask} />
+
+          {hasInput && <StructurePanel options={structureOptions} onOptionsChange={setStructureOptions} />}
+
+          {hasInput && <OrderPanel options={orderOptions} onOptionsChange={setOrderOptions} />}
+
+          {hasInput && (
+            <TokenPanel
+              totalTokens={totalTokens}
+              tokenizer={tokenizer}
+              onTokenizerChange={setTokenizer}
+              budget={tokenBudget}
+              onBudgetChange={setTokenBudget}
+              budgetMode={budgetMode}
+              onBudgetModeChange={setBudgetMode}
+              largestFiles={getLargestFiles(filterTree(tree, excludedPaths), tokenCounts, LARGEST_FILES_LIMIT)}
+              droppedFiles={droppedFiles}
+              tokenCounts={tokenCounts}
+            />
+          )}
+
+          {tree.length > 0 && (
+            <CompactionPanel options={compactionOptions} onOptionsChange={setCompactionOptions} savings={compaction.savings} />
+          )}
+
+          {hasInput && (
+            <SplitPanel
+              options={splitOptions}
+              onOptionsChange={setSplitOptions}
+              parts={outputParts}
+              onCopyPart={handleCopyPart}
+              onDownloadPart={handleDownloadPart}
+              onDownloadAll={handleDownloadAllParts}
+            />
+          )}
+
+          {findings.length > 0 && (
+            <SecretFindingsPanel
+              findings={findings}
+              unredactedIds={unredactedIds}
+              onToggle={handleToggleFinding}
+              onSetAll={handleSetAllRedacted}
+            />
+          )}
+
+          {importedBundle && (
+            <div className="border-[3px] border-black bg-sky-100 neubrutal-shadow-sm p-3 mb-4 flex flex-wrap items-center gap-3 text-xs font-bold uppercase">
+              <span className="truncate" title={importedBundle.label}>Bundle{importedBundle.label && `: ${importedBundle.label}`}</span>
+              <span className="text-gray-600">Exported {new Date(importedBundle.createdAt).toLocaleString()}</span>
+              <button
+                onClick={() => setImportedBundle(null)}
+                className="ml-auto px-2 py-0.5 border-2 border-black bg-white hover:bg-gray-100 uppercase"
+              >
+                Back to current output
+              </button>
+            </div>
+          )}
+
+          {snapshotView && viewedSnapshot && (
+            <div className="border-[3px] border-black bg-sky-100 neubrutal-shadow-sm p-3 mb-4 flex flex-wrap items-center gap-3 text-xs font-bold uppercase">
+              <span>
+                {snapshotView.kind === 'snapshot' ? 'Snapshot from' : 'Changes since'} {formatSnapshotTime(viewedSnapshot)}
+              </span>
+              {snapshotView.kind === 'delta' && snapshotDelta && (
+                <span className="text-gray-600">
+                  {snapshotDelta.delta.added.length} added · {snapshotDelta.delta.modified.length} modified · {snapshotDelta.delta.deleted.length} deleted
+                </span>
+              )}
+              <button
+                onClick={() => setSnapshotView(null)}
+                className="ml-auto px-2 py-0.5 border-2 border-black bg-white hover:bg-gray-100 uppercase"
+              >
+                Back to current output
+              </button>
+            </div>
+          )}
+
           <div className="relative flex-grow min-h-[500px] border-[3px] border-black bg-white neubrutal-shadow-sm flex flex-col overflow-hidden">
             {isLoading && (
               <div className="absolute inset-0 bg-white/95 flex items-center justify-center z-30">
                 <div className="text-center">
                     <div className="w-20 h-20 border-[8px] border-black border-t-sky-400 rounded-full animate-spin mx-auto"></div>
                     <p className="mt-8 text-2xl font-black uppercase italic tracking-tighter animate-pulse">Processing Context...</p>
+                    {progress && (
+                      <div className="mt-4 w-72 mx-auto">
+                        <div className="h-3 border-2 border-black bg-white">
+                          <div className="h-full bg-sky-400" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }} />
+                        </div>
+                        <p className="mt-2 text-xs font-bold uppercase">{progress.done} / {progress.total} files</p>
+                        <p className="text-[10px] font-mono text-gray-500 truncate" title={progress.currentPath}>{progress.currentPath}</p>
+                      </div>
+                    )}
                 </div>
               </div>
             )}
@@ -210,20 +881,14 @@ function PromptContextGenerator(): React.ReactNode {
             {error && <div className="p-6 bg-rose-100 text-rose-600 font-bold border-b-[3px] border-black uppercase italic">{error}</div>}
             
             {!isLoading && !error && (
-              <div className="flex-grow overflow-auto p-6 scrollbar-thin scrollbar-thumb-black scrollbar-track-transparent">
-                {combinedOutput ? (
-                   <pre className="text-sm text-black font-mono selection:bg-sky-200">
-                    <code className="whitespace-pre-wrap">
-                        {combinedOutput}
-                    </code>
-                  </pre>
-                ) : (
-                   <div className="h-full flex flex-col items-center justify-center opacity-10">
-                      <ClipboardIcon className="w-32 h-32 mb-4" />
-                      <p className="font-black text-3xl uppercase italic tracking-widest text-center">Ready for input</p>
-                   </div>
-                )}
-              </div>
+              combinedOutput ? (
+                <OutputViewer output={combinedOutput} format={renderedFormat} tree={renderedTree} structure={renderedStructure} />
+              ) : (
+                <div className="flex-grow p-6 flex flex-col items-center justify-center opacity-10">
+                  <ClipboardIcon className="w-32 h-32 mb-4" />
+                  <p className="font-black text-3xl uppercase italic tracking-widest text-center">Ready for input</p>
+                </div>
+              )
             )}
 
             {/* Bottom Graphic Decoration */}
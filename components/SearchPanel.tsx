@@ -0,0 +1,189 @@
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import type { FileSystemTree } from '../types';
+import {
+  getMatchingPaths, searchTree, DEFAULT_SEARCH_OPTIONS, EMPTY_SEARCH_QUERY,
+  type SearchFocusMode, type SearchLineMatch, type SearchOptions, type SearchQuery, type SearchResult,
+} from '../services/search.service';
+import { excludeAllExcept } from '../services/selection.service';
+
+export interface SearchFocus {
+  query: SearchQuery;
+  options: SearchOptions;
+}
+
+interface SearchPanelProps {
+  // Already redacted, so match previews don't show secrets
+  tree: FileSystemTree;
+  focus: SearchFocus | null;
+  onApply: (focus: SearchFocus | null) => void;
+  onSelect: (excludedPaths: Set<string>) => void;
+}
+
+const MODE_LABELS: Record<SearchFocusMode, string> = {
+  files: 'Whole matching files',
+  regions: 'Matching regions only',
+};
+
+// Rendering thousands of result rows makes typing sluggish; the hit counts stay complete
+const MAX_LISTED_FILES = 100;
+const PREVIEW_LINES_PER_FILE = 3;
+
+interface HighlightedLineProps {
+  match: SearchLineMatch;
+}
+
+const HighlightedLine: React.FC<HighlightedLineProps> = ({ match }) => {
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+  match.ranges.forEach(([start, end], index) => {
+    if (start > offset) parts.push(match.text.slice(offset, start));
+    parts.push(<mark key={index} className="bg-yellow-300">{match.text.slice(start, end)}</mark>);
+    offset = end;
+  });
+  parts.push(match.text.slice(offset));
+  return (
+    <div className="flex gap-2 font-mono font-normal whitespace-pre overflow-hidden">
+      <span className="flex-shrink-0 w-8 text-right text-gray-400">{match.line}</span>
+      <span className="truncate">{parts}</span>
+    </div>
+  );
+};
+
+function SearchPanel({ tree, focus, onApply, onSelect }: SearchPanelProps): React.ReactNode {
+  const [query, setQuery] = useState<SearchQuery>(focus?.query ?? EMPTY_SEARCH_QUERY);
+  const [options, setOptions] = useState<SearchOptions>(focus?.options ?? DEFAULT_SEARCH_OPTIONS);
+  // Searching a large tree on every keystroke would block typing
+  const deferredQuery: SearchQuery = useDeferredValue(query);
+
+  const { result, error }: { result: SearchResult; error: string | null } = useMemo(() => {
+    try {
+      return { result: searchTree(tree, deferredQuery), error: null };
+    } catch (e) {
+      return { result: { files: [], totalHits: 0 }, error: (e as Error).message };
+    }
+  }, [tree, deferredQuery]);
+  const isApplied = focus !== null && focus.query === query && focus.options === options;
+
+  const handleApply = () => {
+    onApply({ query, options });
+    onSelect(excludeAllExcept(tree, getMatchingPaths(result)));
+  };
+
+  const handleClear = () => {
+    setQuery(EMPTY_SEARCH_QUERY);
+    onApply(null);
+  };
+
+  return (
+    <div className="bg-white border-2 border-black neubrutal-shadow-sm p-3 space-y-3 text-xs font-bold uppercase">
+      <input
+        type="text"
+        value={query.text}
+        onChange={e => setQuery(prev => ({ ...prev, text: e.target.value }))}
+        placeholder={query.regex ? 'Regular expression' : 'Text to find'}
+        spellCheck={false}
+        className="w-full border-2 border-black px-2 py-1 font-mono font-normal normal-case"
+      />
+      <input
+        type="text"
+        value={query.paths}
+        onChange={e => setQuery(prev => ({ ...prev, paths: e.target.value }))}
+        placeholder="Only in paths, e.g. src/**/*.ts !*.test.ts"
+        spellCheck={false}
+        className="w-full border-2 border-black px-2 py-1 font-mono font-normal normal-case"
+      />
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={query.regex}
+            onChange={e => setQuery(prev => ({ ...prev, regex: e.target.checked }))}
+            className="w-4 h-4 border-2 border-black accent-sky-400 cursor-pointer"
+          />
+          Regex
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={query.caseSensitive}
+            onChange={e => setQuery(prev => ({ ...prev, caseSensitive: e.target.checked }))}
+            className="w-4 h-4 border-2 border-black accent-sky-400 cursor-pointer"
+          />
+          Match case
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={options.mode}
+          onChange={e => setOptions(prev => ({ ...prev, mode: e.target.value as SearchFocusMode }))}
+          className="border-2 border-black px-1 py-0.5 font-bold uppercase"
+        >
+          {(Object.keys(MODE_LABELS) as SearchFocusMode[]).map(mode => <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>)}
+        </select>
+        {options.mode === 'regions' && (
+          <label className="flex items-center gap-2">
+            Context
+            <input
+              type="number"
+              min={0}
+              value={options.contextLines}
+              onChange={e => setOptions(prev => ({ ...prev, contextLines: Math.max(0, Math.floor(Number(e.target.value)) || 0) }))}
+              className="w-16 border-2 border-black px-1 py-0.5 font-bold"
+            />
+            lines
+          </label>
+        )}
+        <button
+          onClick={handleClear}
+          disabled={!query.text && !focus}
+          className="ml-auto px-2 py-0.5 border-2 border-black bg-white hover:bg-gray-100 uppercase disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Clear
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={result.files.length === 0 || isApplied || query !== deferredQuery}
+          className="px-2 py-0.5 border-2 border-black bg-emerald-300 hover:bg-emerald-400 uppercase disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isApplied ? 'Applied' : `Use ${result.files.length} file${result.files.length === 1 ? '' : 's'}`}
+        </button>
+      </div>
+
+      {error && <p className="normal-case text-red-600">{error}</p>}
+      {!error && deferredQuery.text && result.files.length === 0 && (
+        <p className="normal-case text-gray-500">No matches.</p>
+      )}
+
+      {result.files.length > 0 && (
+        <>
+          <p className="text-[10px] text-gray-500">
+            {result.totalHits.toLocaleString()} hit{result.totalHits === 1 ? '' : 's'} in {result.files.length.toLocaleString()} file{result.files.length === 1 ? '' : 's'}
+          </p>
+          <ul className="border-2 border-black py-1 max-h-[320px] overflow-auto scrollbar-thin scrollbar-thumb-black normal-case space-y-1">
+            {result.files.slice(0, MAX_LISTED_FILES).map(file => (
+              <li key={file.path} className="px-2" title={file.path}>
+                <div className="flex items-center gap-2">
+                  <span className="truncate font-mono">{file.path}</span>
+                  <span className="ml-auto flex-shrink-0 px-1 border border-black text-[10px] bg-yellow-200">
+                    {file.hits} hit{file.hits === 1 ? '' : 's'}
+                  </span>
+                </div>
+                {file.lines.slice(0, PREVIEW_LINES_PER_FILE).map(match => <HighlightedLine key={match.line} match={match} />)}
+                {file.matchingLines > PREVIEW_LINES_PER_FILE && (
+                  <p className="pl-10 text-[10px] text-gray-400">+{file.matchingLines - PREVIEW_LINES_PER_FILE} more lines</p>
+                )}
+              </li>
+            ))}
+            {result.files.length > MAX_LISTED_FILES && (
+              <li className="px-2 text-[10px] text-gray-500">+{result.files.length - MAX_LISTED_FILES} more files</li>
+            )}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default SearchPanel;
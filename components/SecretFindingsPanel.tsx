@@ -0,0 +1,49 @@
+import React from 'react';
+import { maskSecret, type SecretFinding } from '../services/secret.service';
+
+interface SecretFindingsPanelProps {
+  findings: SecretFinding[];
+  unredactedIds: Set<string>;
+  onToggle: (id: string) => void;
+  onSetAll: (redacted: boolean) => void;
+}
+
+function SecretFindingsPanel({ findings, unredactedIds, onToggle, onSetAll }: SecretFindingsPanelProps): React.ReactNode {
+  const redactedCount = findings.filter(finding => !unredactedIds.has(finding.id)).length;
+
+  return (
+    <details className="border-[3px] border-black bg-amber-100 neubrutal-shadow-sm p-4 mb-4 text-xs font-bold">
+      <summary className="cursor-pointer uppercase font-black">
+        Possible secrets found: {findings.length} ({redactedCount} redacted)
+      </summary>
+      <div className="flex gap-2 mt-3">
+        <button onClick={() => onSetAll(true)} className="px-2 py-1 border-2 border-black bg-white hover:bg-gray-100 uppercase">Redact all</button>
+        <button onClick={() => onSetAll(false)} className="px-2 py-1 border-2 border-black bg-white hover:bg-gray-100 uppercase">Unredact all</button>
+      </div>
+      <ul className="mt-3 space-y-1 max-h-[240px] overflow-auto scrollbar-thin scrollbar-thumb-black">
+        {findings.map(finding => {
+          const isRedacted = !unredactedIds.has(finding.id);
+          return (
+            <li key={finding.id} className="flex items-center gap-3 bg-white border-2 border-black px-2 py-1">
+              <div className="flex flex-col overflow-hidden flex-grow">
+                <span className="truncate font-mono" title={`${finding.path}:${finding.line}`}>{finding.path}:{finding.line}</span>
+                <span className="text-[10px] uppercase text-gray-500">
+                  {finding.label} · <span className="font-mono normal-case">{maskSecret(finding.value)}</span>
+                </span>
+              </div>
+              <button
+                onClick={() => onToggle(finding.id)}
+                className={`px-2 py-1 border-2 border-black uppercase flex-shrink-0 ${isRedacted ? 'bg-emerald-300' : 'bg-rose-300'}`}
+                title={isRedacted ? 'Include the original value in the output' : 'Replace the value with a placeholder'}
+              >
+                {isRedacted ? 'Redacted' : 'Visible'}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </details>
+  );
+}
+
+export default SecretFindingsPanel;
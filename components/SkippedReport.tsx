@@ -0,0 +1,82 @@
+import React from 'react';
+import type { SkipReason, SkippedEntry } from '../types';
+import type { ProcessOptions, TruncationMode } from '../services/file.service';
+
+const REASON_LABELS: Record<SkipReason, string> = {
+  'size': 'Over size limit',
+  'ignored-dir': 'Ignored folder',
+  'ignored-name': 'Ignored name',
+  'gitignore': 'Ignore file rule',
+  'binary': 'Binary content',
+  'read-error': 'Read error',
+};
+
+const TRUNCATION_LABELS: Record<TruncationMode, string> = {
+  'skip': 'Skip file',
+  'head': 'Keep head',
+  'head-tail': 'Keep head + tail',
+};
+
+interface SkippedReportProps {
+  skipped: SkippedEntry[];
+  options: ProcessOptions;
+  onOptionsChange: (options: ProcessOptions) => void;
+}
+
+function SkippedReport({ skipped, options, onOptionsChange }: SkippedReportProps): React.ReactNode {
+  const byReason = new Map<SkipReason, SkippedEntry[]>();
+  for (const entry of skipped) {
+    byReason.set(entry.reason, [...(byReason.get(entry.reason) ?? []), entry]);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3 text-[10px] font-bold uppercase">
+        <label className="flex flex-col gap-1">
+          Size limit (KB)
+          <input
+            type="number"
+            min={1}
+            value={Math.round(options.maxFileSize / 1024)}
+            onChange={e => onOptionsChange({ ...options, maxFileSize: Math.max(1, Number(e.target.value) || 1) * 1024 })}
+            className="border-2 border-black px-2 py-1 font-bold text-xs"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Larger files
+          <select
+            value={options.truncation}
+            onChange={e => onOptionsChange({ ...options, truncation: e.target.value as TruncationMode })}
+            className="border-2 border-black bg-white px-2 py-1 font-bold text-xs uppercase"
+          >
+            {(Object.keys(TRUNCATION_LABELS) as TruncationMode[]).map(mode => (
+              <option key={mode} value={mode}>{TRUNCATION_LABELS[mode]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {skipped.length > 0 && (
+        <div className="bg-white border-2 border-black neubrutal-shadow-sm p-3 max-h-[300px] overflow-auto scrollbar-thin scrollbar-thumb-black space-y-2">
+          {Array.from(byReason.entries()).map(([reason, entries]) => (
+            <details key={reason}>
+              <summary className="cursor-pointer text-xs font-black uppercase">
+                {REASON_LABELS[reason]} ({entries.length})
+              </summary>
+              <ul className="mt-1 space-y-0.5 text-[11px] font-mono">
+                {entries.map(entry => (
+                  <li key={entry.path} className="flex justify-between gap-3" title={entry.path}>
+                    <span className="truncate">{entry.path}{entry.isDirectory ? '/' : ''}</span>
+                    {entry.detail && <span className="text-gray-500 flex-shrink-0 truncate max-w-[40%]">{entry.detail}</span>}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SkippedReport;
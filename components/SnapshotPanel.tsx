@@ -0,0 +1,96 @@
+import React from 'react';
+import type { DeltaMode, Snapshot } from '../services/snapshot.service';
+import { formatTokenCount } from '../services/token.service';
+import { TrashIcon } from './ui/Icon';
+
+// What the output shows instead of the current selection
+export type SnapshotView =
+  | { kind: 'snapshot'; snapshotId: string }
+  | { kind: 'delta'; snapshotId: string; mode: DeltaMode };
+
+interface SnapshotPanelProps {
+  snapshots: Snapshot[];
+  view: SnapshotView | null;
+  onViewChange: (view: SnapshotView | null) => void;
+  onDelete: (id: string) => void;
+  onClearAll: () => void;
+}
+
+const DELTA_MODE_LABELS: Record<DeltaMode, string> = {
+  full: 'Full files',
+  diff: 'Diffs',
+};
+
+export function formatSnapshotTime(snapshot: Snapshot): string {
+  return new Date(snapshot.createdAt).toLocaleString();
+}
+
+function SnapshotPanel({ snapshots, view, onViewChange, onDelete, onClearAll }: SnapshotPanelProps): React.ReactNode {
+  const deltaMode: DeltaMode = view?.kind === 'delta' ? view.mode : 'full';
+
+  return (
+    <div className="bg-white border-2 border-black neubrutal-shadow-sm p-3 space-y-3 text-xs font-bold uppercase">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2">
+          Modified files as
+          <select
+            value={deltaMode}
+            onChange={e => {
+              if (view?.kind === 'delta') onViewChange({ ...view, mode: e.target.value as DeltaMode });
+            }}
+            disabled={view?.kind !== 'delta'}
+            className="border-2 border-black bg-white px-1 py-0.5 uppercase font-bold disabled:opacity-50"
+          >
+            {(Object.keys(DELTA_MODE_LABELS) as DeltaMode[]).map(mode => (
+              <option key={mode} value={mode}>{DELTA_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={onClearAll}
+          className="ml-auto px-2 py-0.5 border-2 border-black bg-white hover:bg-rose-100 uppercase"
+        >
+          Clear history
+        </button>
+      </div>
+
+      <ul className="border-2 border-black max-h-[300px] overflow-auto scrollbar-thin scrollbar-thumb-black divide-y-2 divide-black">
+        {snapshots.map(snapshot => {
+          const isViewed = view?.snapshotId === snapshot.id;
+          return (
+            <li key={snapshot.id} className={`px-2 py-1.5 space-y-1 ${isViewed ? 'bg-sky-100' : ''}`}>
+              <div className="flex items-center gap-2">
+                <span className="truncate normal-case" title={snapshot.label}>{formatSnapshotTime(snapshot)}</span>
+                <span className="ml-auto flex-shrink-0 text-[10px] text-gray-500">
+                  {snapshot.fileCount} file{snapshot.fileCount === 1 ? '' : 's'} · {formatTokenCount(snapshot.tokenCount)} tokens
+                </span>
+                <button onClick={() => onDelete(snapshot.id)} className="flex-shrink-0 hover:text-rose-600" title="Delete snapshot">
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="truncate font-mono font-normal normal-case text-[11px] text-gray-600" title={snapshot.label}>{snapshot.label}</span>
+                <button
+                  onClick={() => onViewChange({ kind: 'delta', snapshotId: snapshot.id, mode: deltaMode })}
+                  disabled={isViewed && view?.kind === 'delta'}
+                  className="ml-auto flex-shrink-0 px-1.5 border-2 border-black bg-emerald-300 hover:bg-emerald-400 uppercase text-[10px] disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Changes since
+                </button>
+                <button
+                  onClick={() => onViewChange({ kind: 'snapshot', snapshotId: snapshot.id })}
+                  disabled={isViewed && view?.kind === 'snapshot'}
+                  className="flex-shrink-0 px-1.5 border-2 border-black bg-sky-300 hover:bg-sky-400 uppercase text-[10px] disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Output
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default SnapshotPanel;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import type { OutputPart, SplitOptions, SplitUnit } from '../services/split.service';
+import { formatTokenCount } from '../services/token.service';
+import { ClipboardIcon, ClipboardCheckIcon, DownloadIcon } from './ui/Icon';
+
+interface SplitPanelProps {
+  options: SplitOptions;
+  onOptionsChange: (options: SplitOptions) => void;
+  parts: OutputPart[];
+  onCopyPart: (part: OutputPart) => Promise<boolean>;
+  onDownloadPart: (part: OutputPart) => void;
+  onDownloadAll: () => void;
+}
+
+const UNIT_LABELS: Record<SplitUnit, string> = {
+  chars: 'Characters',
+  tokens: 'Tokens',
+};
+
+function SplitPanel({ options, onOptionsChange, parts, onCopyPart, onDownloadPart, onDownloadAll }: SplitPanelProps): React.ReactNode {
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+
+  const handleCopy = (part: OutputPart) => {
+    onCopyPart(part).then(copied => {
+      if (!copied) return;
+      setCopiedIndex(part.index);
+      setTimeout(() => setCopiedIndex(current => (current === part.index ? null : current)), 2000);
+    });
+  };
+
+  return (
+    <div className="border-[3px] border-black bg-white neubrutal-shadow-sm p-4 mb-4 space-y-3 text-xs font-bold uppercase">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-black tracking-wider">Split</span>
+        <label className="flex items-center gap-2">
+          Max per part
+          <input
+            type="number"
+            min={0}
+            step={1000}
+            value={options.limit || ''}
+            placeholder="Off"
+            onChange={e => onOptionsChange({ ...options, limit: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-24 border-2 border-black px-1 py-0.5 font-bold"
+          />
+        </label>
+        <select
+          value={options.unit}
+          onChange={e => onOptionsChange({ ...options, unit: e.target.value as SplitUnit })}
+          className="border-2 border-black bg-white px-1 py-0.5 uppercase font-bold"
+        >
+          {(Object.keys(UNIT_LABELS) as SplitUnit[]).map(unit => (
+            <option key={unit} value={unit}>{UNIT_LABELS[unit]}</option>
+          ))}
+        </select>
+        {options.limit > 0 && <span className="text-gray-500">{parts.length} part{parts.length === 1 ? '' : 's'}</span>}
+        {parts.length > 1 && (
+          <button
+            onClick={onDownloadAll}
+            className="ml-auto flex items-center gap-1 px-2 py-0.5 border-2 border-black bg-sky-300 hover:bg-sky-400 uppercase"
+            title="Download every part in one ZIP file"
+          >
+            <DownloadIcon className="w-4 h-4 text-black" />
+            All as .zip
+          </button>
+        )}
+      </div>
+
+      {parts.length > 1 && (
+        <ul className="space-y-1">
+          {parts.map(part => (
+            <li key={part.index} className="flex items-center justify-between gap-3 border-2 border-black px-2 py-1">
+              <div className="flex flex-col overflow-hidden">
+                <span>Part {part.index} of {part.total} · {formatTokenCount(part.size)} {options.unit === 'tokens' ? 'tokens' : 'chars'}</span>
+                <span className="truncate normal-case font-mono font-normal text-gray-500" title={part.paths.join('\n')}>
+                  {part.paths.join(', ') || 'Directory structure only'}
+                </span>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <button
+                  onClick={() => handleCopy(part)}
+                  className="p-1.5 border-2 border-black bg-emerald-300 hover:bg-emerald-400 transition-colors"
+                  title={`Copy part ${part.index}`}
+                >
+                  {copiedIndex === part.index ? <ClipboardCheckIcon className="w-4 h-4 text-black" /> : <ClipboardIcon className="w-4 h-4 text-black" />}
+                </button>
+                <button
+                  onClick={() => onDownloadPart(part)}
+                  className="p-1.5 border-2 border-black bg-sky-300 hover:bg-sky-400 transition-colors"
+                  title={`Download part ${part.index}`}
+                >
+                  <DownloadIcon className="w-4 h-4 text-black" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default SplitPanel;
@@ -0,0 +1,68 @@
+import React from 'react';
+import type { StructureAnnotation, StructureOptions } from '../services/structure.service';
+
+interface StructurePanelProps {
+  options: StructureOptions;
+  onOptionsChange: (options: StructureOptions) => void;
+}
+
+const ANNOTATION_LABELS: Record<StructureAnnotation, string> = {
+  none: 'No sizes',
+  lines: 'Line counts',
+  bytes: 'File sizes',
+  tokens: 'Token counts',
+};
+
+function StructurePanel({ options, onOptionsChange }: StructurePanelProps): React.ReactNode {
+  return (
+    <div className="border-[3px] border-black bg-white neubrutal-shadow-sm p-4 mb-4 space-y-3 text-xs font-bold uppercase">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-black tracking-wider">Structure</span>
+        <select
+          value={options.annotation}
+          onChange={e => onOptionsChange({ ...options, annotation: e.target.value as StructureAnnotation })}
+          className="border-2 border-black bg-white px-1 py-0.5 uppercase font-bold"
+        >
+          {(Object.keys(ANNOTATION_LABELS) as StructureAnnotation[]).map(annotation => (
+            <option key={annotation} value={annotation}>{ANNOTATION_LABELS[annotation]}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={options.showOmitted}
+            onChange={e => onOptionsChange({ ...options, showOmitted: e.target.checked })}
+            className="w-4 h-4 border-2 border-black accent-sky-400 cursor-pointer"
+          />
+          Show omitted
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2" title="Deeper folders are collapsed to a file count">
+          Max depth
+          <input
+            type="number"
+            min={0}
+            value={options.maxDepth || ''}
+            placeholder="All"
+            onChange={e => onOptionsChange({ ...options, maxDepth: Math.max(0, Math.floor(Number(e.target.value)) || 0) })}
+            className="w-16 border-2 border-black px-1 py-0.5 font-bold"
+          />
+        </label>
+        <label className="flex items-center gap-2" title="Larger folders list this many entries, then a count of the rest">
+          Entries per folder
+          <input
+            type="number"
+            min={0}
+            value={options.maxEntries || ''}
+            placeholder="All"
+            onChange={e => onOptionsChange({ ...options, maxEntries: Math.max(0, Math.floor(Number(e.target.value)) || 0) })}
+            className="w-16 border-2 border-black px-1 py-0.5 font-bold"
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
+
+export default StructurePanel;
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import {
+  BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID, TEMPLATE_PLACEHOLDERS, loadUserTemplates, saveUserTemplates, type PromptTemplate,
+} from '../services/template.service';
+
+interface TemplatePanelProps {
+  body: string;
+  onBodyChange: (body: string) => void;
+  task: string;
+  onTaskChange: (task: string) => void;
+}
+
+function TemplatePanel({ body, onBodyChange, task, onTaskChange }: TemplatePanelProps): React.ReactNode {
+  const [userTemplates, setUserTemplates] = useState<PromptTemplate[]>(() => loadUserTemplates());
+  const [selectedId, setSelectedId] = useState<string>(DEFAULT_TEMPLATE_ID);
+  const [newName, setNewName] = useState<string>('');
+
+  const templates = [...BUILT_IN_TEMPLATES, ...userTemplates];
+  const selected = templates.find(template => template.id === selectedId) ?? BUILT_IN_TEMPLATES[0];
+  const isModified = body !== selected.body;
+
+  // A preset can swap the body from outside; show the template it came from when there is one
+  useEffect(() => {
+    if (body === selected.body) return;
+    const match = templates.find(template => template.body === body);
+    if (match) setSelectedId(match.id);
+  }, [body]);
+
+  const updateUserTemplates = (next: PromptTemplate[]) => {
+    setUserTemplates(next);
+    saveUserTemplates(next);
+  };
+
+  const handleSelect = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (!template) return;
+    setSelectedId(id);
+    onBodyChange(template.body);
+  };
+
+  const handleSave = () => {
+    updateUserTemplates(userTemplates.map(template => (template.id === selected.id ? { ...template, body } : template)));
+  };
+
+  const handleSaveAs = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const template: PromptTemplate = { id: crypto.randomUUID(), name, body, builtIn: false };
+    updateUserTemplates([...userTemplates, template]);
+    setSelectedId(template.id);
+    setNewName('');
+  };
+
+  const handleDelete = () => {
+    updateUserTemplates(userTemplates.filter(template => template.id !== selected.id));
+    handleSelect(DEFAULT_TEMPLATE_ID);
+  };
+
+  return (
+    <div className="border-[3px] border-black bg-white neubrutal-shadow-sm p-4 mb-4 space-y-3 text-xs font-bold uppercase">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2">
+          Template
+          <select
+            value={selected.id}
+            onChange={e => handleSelect(e.target.value)}
+            className="border-2 border-black bg-white px-1 py-0.5 uppercase font-bold"
+          >
+            <optgroup label="Built-in">
+              {BUILT_IN_TEMPLATES.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+            </optgroup>
+            {userTemplates.length > 0 && (
+              <optgroup label="Saved">
+                {userTemplates.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+        </label>
+        {isModified && <span className="px-2 py-0.5 border-2 border-black bg-amber-200">Modified</span>}
+        {!selected.builtIn && (
+          <button onClick={handleDelete} className="ml-auto px-2 py-0.5 border-2 border-black bg-rose-300 hover:bg-rose-400 uppercase">
+            Delete
+          </button>
+        )}
+      </div>
+
+      <label className="flex flex-col gap-1">
+        Task
+        <textarea
+          value={task}
+          onChange={e => onTaskChange(e.target.value)}
+          rows={2}
+          placeholder="Describe what you want the model to do. Fills {{task}}."
+          className="border-2 border-black px-2 py-1 font-mono font-normal normal-case resize-y"
+        />
+      </label>
+
+      <details>
+        <summary className="cursor-pointer">Edit template</summary>
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={body}
+            onChange={e => onBodyChange(e.target.value)}
+            rows={8}
+            spellCheck={false}
+            className="w-full border-2 border-black px-2 py-1 font-mono font-normal normal-case resize-y"
+          />
+          <div className="flex flex-wrap gap-1.5 normal-case">
+            {Object.entries(TEMPLATE_PLACEHOLDERS).map(([name, description]) => (
+              <code key={name} className="px-1.5 border-2 border-black bg-sky-100 font-mono" title={description}>{`{{${name}}}`}</code>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {isModified && !selected.builtIn && (
+              <button onClick={handleSave} className="px-2 py-0.5 border-2 border-black bg-emerald-300 hover:bg-emerald-400 uppercase">
+                Save
+              </button>
+            )}
+            {isModified && (
+              <button onClick={() => onBodyChange(selected.body)} className="px-2 py-0.5 border-2 border-black bg-white hover:bg-gray-100 uppercase">
+                Reset
+              </button>
+            )}
+            <input
+              type="text"
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              placeholder="New template name"
+              className="border-2 border-black px-2 py-0.5 font-bold normal-case"
+            />
+            <button
+              onClick={handleSaveAs}
+              disabled={!newName.trim()}
+              className="px-2 py-0.5 border-2 border-black bg-sky-300 hover:bg-sky-400 uppercase disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save as new
+            </button>
+          </div>
+        </div>
+      </details>
+    </div>
+  );
+}
+
+export default TemplatePanel;
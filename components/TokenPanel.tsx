@@ -0,0 +1,114 @@
+import React from 'react';
+import type { FileNode } from '../types';
+import { TOKENIZER_LABELS, formatTokenCount, type TokenizerKind } from '../services/token.service';
+import type { BudgetMode } from '../services/budget.service';
+
+interface TokenPanelProps {
+  totalTokens: number;
+  tokenizer: TokenizerKind;
+  onTokenizerChange: (kind: TokenizerKind) => void;
+  budget: number;
+  onBudgetChange: (budget: number) => void;
+  budgetMode: BudgetMode;
+  onBudgetModeChange: (mode: BudgetMode) => void;
+  largestFiles: FileNode[];
+  droppedFiles: FileNode[];
+  tokenCounts: Map<string, number>;
+}
+
+function TokenPanel({
+  totalTokens, tokenizer, onTokenizerChange, budget, onBudgetChange, budgetMode, onBudgetModeChange,
+  largestFiles, droppedFiles, tokenCounts,
+}: TokenPanelProps): React.ReactNode {
+  const hasBudget = budget > 0;
+  const isOverBudget = hasBudget && totalTokens > budget;
+  const usage = hasBudget ? Math.min(100, (totalTokens / budget) * 100) : 0;
+
+  return (
+    <div className="border-[3px] border-black bg-white neubrutal-shadow-sm p-4 mb-4 space-y-3 text-xs font-bold uppercase">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className={`px-2 py-1 border-2 border-black ${isOverBudget ? 'bg-rose-300' : 'bg-emerald-300'}`}>
+          {formatTokenCount(totalTokens)} tokens{hasBudget && ` / ${formatTokenCount(budget)}`}
+        </span>
+        <label className="flex items-center gap-2">
+          Tokenizer
+          <select
+            value={tokenizer}
+            onChange={e => onTokenizerChange(e.target.value as TokenizerKind)}
+            className="border-2 border-black bg-white px-1 py-0.5 uppercase font-bold"
+          >
+            {(Object.keys(TOKENIZER_LABELS) as TokenizerKind[]).map(kind => (
+              <option key={kind} value={kind}>{TOKENIZER_LABELS[kind]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Budget
+          <input
+            type="number"
+            min={0}
+            step={1000}
+            value={budget || ''}
+            placeholder="None"
+            onChange={e => onBudgetChange(Math.max(0, Number(e.target.value) || 0))}
+            className="w-24 border-2 border-black px-1 py-0.5 font-bold"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Over budget
+          <select
+            value={budgetMode}
+            onChange={e => onBudgetModeChange(e.target.value as BudgetMode)}
+            className="border-2 border-black bg-white px-1 py-0.5 uppercase font-bold"
+          >
+            <option value="warn">Warn</option>
+            <option value="drop">Auto-drop files</option>
+          </select>
+        </label>
+      </div>
+
+      {hasBudget && (
+        <div className="h-3 border-2 border-black bg-white">
+          <div className={`h-full ${isOverBudget ? 'bg-rose-400' : 'bg-sky-400'}`} style={{ width: `${usage}%` }} />
+        </div>
+      )}
+
+      {isOverBudget && (
+        <p className="text-rose-600">
+          Output exceeds the budget by {formatTokenCount(totalTokens - budget)} tokens
+          {budgetMode === 'drop' && ' even after dropping files'}.
+        </p>
+      )}
+
+      {droppedFiles.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-amber-700">Dropped to fit budget ({droppedFiles.length})</summary>
+          <ul className="mt-2 space-y-0.5 normal-case font-mono font-normal">
+            {droppedFiles.map(file => (
+              <li key={file.path} className="flex justify-between gap-4">
+                <span className="truncate" title={file.path}>{file.path}</span>
+                <span>{formatTokenCount(tokenCounts.get(file.path) ?? 0)}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {largestFiles.length > 0 && (
+        <details>
+          <summary className="cursor-pointer">Largest files</summary>
+          <ul className="mt-2 space-y-0.5 normal-case font-mono font-normal">
+            {largestFiles.map(file => (
+              <li key={file.path} className="flex justify-between gap-4">
+                <span className="truncate" title={file.path}>{file.path}</span>
+                <span>{formatTokenCount(tokenCounts.get(file.path) ?? 0)}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
+
+export default TokenPanel;
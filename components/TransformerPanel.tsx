@@ -0,0 +1,32 @@
+import React from 'react';
+import { CONTENT_TRANSFORMERS, type TransformerSettings } from '../services/transform.service';
+
+interface TransformerPanelProps {
+  settings: TransformerSettings;
+  onSettingsChange: (settings: TransformerSettings) => void;
+}
+
+function TransformerPanel({ settings, onSettingsChange }: TransformerPanelProps): React.ReactNode {
+  return (
+    <div className="bg-white border-2 border-black neubrutal-shadow-sm p-3 space-y-2 text-xs font-bold uppercase">
+      {CONTENT_TRANSFORMERS.map(transformer => (
+        <label key={transformer.id} className="flex items-start gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings[transformer.id]}
+            onChange={e => onSettingsChange({ ...settings, [transformer.id]: e.target.checked })}
+            className="mt-0.5 w-4 h-4 border-2 border-black accent-sky-400 cursor-pointer flex-shrink-0"
+          />
+          <span className="flex flex-col">
+            {transformer.label}
+            <span className="text-[10px] font-normal normal-case text-gray-500">
+              {transformer.description} · {[...(transformer.filenames ?? []), ...(transformer.extensions ?? []).map(ext => `.${ext}`)].join(', ')}
+            </span>
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+export default TransformerPanel;
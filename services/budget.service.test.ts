@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { FileNode, FileSystemTree } from '../types';
+import { rankDropCandidates, selectFilesToDrop } from './budget.service';
+
+const file = (path: string): FileNode => ({ kind: 'file', name: path.split('/').pop()!, path, content: '' });
+
+const tree: FileSystemTree = [{
+    kind: 'directory',
+    name: 'app',
+    path: 'app',
+    children: [
+        file('app/README.md'),
+        file('app/index.ts'),
+        file('app/util.ts'),
+        file('app/big.ts'),
+        file('app/util.test.ts'),
+    ],
+}];
+
+const counts = new Map([
+    ['app/README.md', 500],
+    ['app/index.ts', 400],
+    ['app/util.ts', 100],
+    ['app/big.ts', 300],
+    ['app/util.test.ts', 50],
+]);
+
+describe('rankDropCandidates', () => {
+    it('drops low-priority files first, biggest first within a priority', () => {
+        expect(rankDropCandidates(tree, counts).map(node => node.name)).toEqual([
+            'util.test.ts', 'big.ts', 'util.ts', 'index.ts', 'README.md',
+        ]);
+    });
+});
+
+describe('selectFilesToDrop', () => {
+    it('stops as soon as the total fits the budget', () => {
+        expect(selectFilesToDrop(tree, counts, 1350, 1100).map(node => node.name)).toEqual(['util.test.ts', 'big.ts']);
+    });
+
+    it('drops nothing when the total already fits', () => {
+        expect(selectFilesToDrop(tree, counts, 1350, 2000)).toEqual([]);
+    });
+});
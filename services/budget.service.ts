@@ -0,0 +1,52 @@
+import type { FileNode, FileSystemTree } from '../types';
+import { compareOrderKeys, getFilePriority, type OrderKey } from './order.service';
+
+export type BudgetMode = 'warn' | 'drop';
+
+function collectFiles(tree: FileSystemTree, files: FileNode[] = []): FileNode[] {
+    for (const node of tree) {
+        if (node.kind === 'file') files.push(node);
+        else collectFiles(node.children, files);
+    }
+    return files;
+}
+
+// Files in the order they should be dropped: with ordering rules, the files the output puts
+// last go first. Then lowest priority first, biggest first within a priority.
+export function rankDropCandidates(tree: FileSystemTree, tokenCounts: Map<string, number>, orderKeys?: Map<string, OrderKey>): FileNode[] {
+    return collectFiles(tree).sort((a, b) => {
+        if (orderKeys) {
+            const orderDiff = compareOrderKeys(orderKeys.get(b.path) ?? [], orderKeys.get(a.path) ?? []);
+            if (orderDiff !== 0) return orderDiff;
+        }
+        const priorityDiff = getFilePriority(a) - getFilePriority(b);
+        if (priorityDiff !== 0) return priorityDiff;
+        return (tokenCounts.get(b.path) ?? 0) - (tokenCounts.get(a.path) ?? 0);
+    });
+}
+
+// Picks files to drop until the estimated total fits the budget. The caller
+// regenerates the output without them and can call again if it still overflows.
+export function selectFilesToDrop(
+    tree: FileSystemTree,
+    tokenCounts: Map<string, number>,
+    total: number,
+    budget: number,
+    orderKeys?: Map<string, OrderKey>,
+): FileNode[] {
+    const dropped: FileNode[] = [];
+    let remaining = total;
+
+    for (const file of rankDropCandidates(tree, tokenCounts, orderKeys)) {
+        if (remaining <= budget) break;
+        dropped.push(file);
+        remaining -= tokenCounts.get(file.path) ?? 0;
+    }
+    return dropped;
+}
+
+export function getLargestFiles(tree: FileSystemTree, tokenCounts: Map<string, number>, limit: number): FileNode[] {
+    return collectFiles(tree)
+        .sort((a, b) => (tokenCounts.get(b.path) ?? 0) - (tokenCounts.get(a.path) ?? 0))
+        .slice(0, limit);
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { exportBundle, importBundle, type ContextBundle } from './bundle.service';
+import { DEFAULT_SPLIT_OPTIONS } from './split.service';
+import { DEFAULT_STRUCTURE_OPTIONS } from './structure.service';
+import { DEFAULT_ORDER_OPTIONS } from './order.service';
+
+const bundle: ContextBundle = {
+    label: 'app',
+    createdAt: 1700000000000,
+    tree: [{
+        kind: 'directory',
+        name: 'app',
+        path: 'app',
+        children: [{ kind: 'file', name: 'a.ts', path: 'app/a.ts', content: 'export {};', lastModified: 1 }],
+    }],
+    omitted: [{ path: 'app/logo.png', isDirectory: false, reason: 'binary' }],
+    sourceOrder: ['app'],
+    settings: {
+        format: 'xml',
+        templateBody: '{{task}}',
+        task: 'Review',
+        tokenizer: 'heuristic',
+        tokenBudget: 1000,
+        budgetMode: 'drop',
+        split: { limit: 500, unit: 'tokens' },
+        structure: { ...DEFAULT_STRUCTURE_OPTIONS, annotation: 'lines' },
+        order: { mode: 'important', priorityGlobs: ['src/**'] },
+    },
+};
+
+const withChanges = (changes: Record<string, unknown>) => JSON.stringify({ ...JSON.parse(exportBundle(bundle)), ...changes });
+
+describe('importBundle', () => {
+    it('round-trips an export', () => {
+        expect(importBundle(exportBundle(bundle))).toEqual(bundle);
+    });
+
+    it('fills settings the bundle does not mention from the defaults', () => {
+        const { settings } = importBundle(withChanges({ settings: { templateBody: '' } }));
+        expect(settings).toMatchObject({ format: 'markdown', budgetMode: 'warn', split: DEFAULT_SPLIT_OPTIONS, order: DEFAULT_ORDER_OPTIONS });
+    });
+
+    it('rejects other files, newer versions and damaged bundles', () => {
+        expect(() => importBundle('[')).toThrow('not valid JSON');
+        expect(() => importBundle('null')).toThrow('not a context bundle');
+        expect(() => importBundle(withChanges({ version: 99 }))).toThrow('newer version');
+        expect(() => importBundle(withChanges({ tree: [{ kind: 'file', name: 'a.ts', path: 'b/a.ts', content: '' }] }))).toThrow('damaged');
+        expect(() => importBundle(withChanges({ omitted: [{ path: 'x', isDirectory: false, reason: 'lost' }] }))).toThrow('damaged');
+        expect(() => importBundle(withChanges({ settings: { ...bundle.settings, split: { limit: -1 } } }))).toThrow('damaged');
+        expect(() => importBundle(withChanges({ diff: 1 }))).toThrow('damaged');
+    });
+});
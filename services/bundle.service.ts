@@ -0,0 +1,160 @@
+import type { FileNode, FileSystemNode, FileSystemTree } from '../types';
+import { isOutputFormat, type OutputFormat } from './format.service';
+import { TOKENIZER_LABELS, type TokenizerKind } from './token.service';
+import type { BudgetMode } from './budget.service';
+import { DEFAULT_SPLIT_OPTIONS, type SplitOptions, type SplitUnit } from './split.service';
+import { DEFAULT_STRUCTURE_OPTIONS, isOmissionReason, type OmittedEntry, type StructureAnnotation, type StructureOptions } from './structure.service';
+import { DEFAULT_ORDER_OPTIONS, ORDER_MODE_LABELS, type OrderMode, type OrderOptions } from './order.service';
+
+// A context bundle carries the files an output was generated from, already redacted and
+// compacted, together with the settings that rendered them. Importing one regenerates the
+// same output without access to the original sources.
+
+export interface BundleSettings {
+    format: OutputFormat;
+    templateBody: string;
+    task: string;
+    tokenizer: TokenizerKind;
+    tokenBudget: number;
+    budgetMode: BudgetMode;
+    split: SplitOptions;
+    structure: StructureOptions;
+    order: OrderOptions;
+}
+
+export interface ContextBundle {
+    label: string;
+    // Also the date the template's {{date}} is filled with
+    createdAt: number;
+    // Only the selected files
+    tree: FileSystemTree;
+    // Skipped and deselected entries, for a structure that shows omitted entries
+    omitted: OmittedEntry[];
+    diff?: string;
+    // Top-level paths in the order their sources were added
+    sourceOrder: string[];
+    settings: BundleSettings;
+}
+
+const BUNDLE_KIND = 'context-maker-bundle';
+const BUNDLE_VERSION = 1;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOneOf<T extends string>(value: unknown, options: readonly T[]): value is T {
+    return typeof value === 'string' && (options as readonly string[]).includes(value);
+}
+
+function parseNode(value: unknown, parentPath: string): FileSystemNode | undefined {
+    if (!isRecord(value) || typeof value.name !== 'string' || !value.name) return undefined;
+    const path = parentPath ? `${parentPath}/${value.name}` : value.name;
+    if (value.path !== path) return undefined;
+    if (value.kind === 'file') {
+        if (typeof value.content !== 'string') return undefined;
+        const file: FileNode = { kind: 'file', name: value.name, path, content: value.content };
+        // Kept so that ordering by modification time survives the round trip
+        if (typeof value.lastModified === 'number') file.lastModified = value.lastModified;
+        return file;
+    }
+    if (value.kind !== 'directory' || !Array.isArray(value.children)) return undefined;
+    const children = parseTree(value.children, path);
+    return children ? { kind: 'directory', name: value.name, path, children } : undefined;
+}
+
+function parseTree(value: unknown[], parentPath = ''): FileSystemTree | undefined {
+    const nodes = value.map(node => parseNode(node, parentPath));
+    return nodes.every(Boolean) ? nodes as FileSystemTree : undefined;
+}
+
+function parseOmitted(value: unknown): OmittedEntry[] | undefined {
+    if (!Array.isArray(value)) return undefined;
+    const entries = value.map((entry: unknown) => (isRecord(entry) && typeof entry.path === 'string' && typeof entry.isDirectory === 'boolean' && isOmissionReason(entry.reason)
+        ? { path: entry.path, isDirectory: entry.isDirectory, reason: entry.reason }
+        : undefined));
+    return entries.every(Boolean) ? entries as OmittedEntry[] : undefined;
+}
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isOptionalString(value: unknown): value is string | undefined {
+    return value === undefined || typeof value === 'string';
+}
+
+function isCount(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+// Settings a bundle doesn't mention fall back to the defaults, as with presets
+function parseSettings(value: unknown): BundleSettings | undefined {
+    const settings = isRecord(value) ? value : {};
+    const { format = 'markdown', templateBody, task = '', tokenizer = 'heuristic', tokenBudget = 0, budgetMode = 'warn' } = settings;
+    const split = isRecord(settings.split) ? settings.split : {};
+    const structure = isRecord(settings.structure) ? settings.structure : {};
+    const order = isRecord(settings.order) ? settings.order : {};
+    const {
+        limit = DEFAULT_SPLIT_OPTIONS.limit,
+        unit = DEFAULT_SPLIT_OPTIONS.unit,
+    } = split;
+    const {
+        annotation = DEFAULT_STRUCTURE_OPTIONS.annotation,
+        maxDepth = DEFAULT_STRUCTURE_OPTIONS.maxDepth,
+        maxEntries = DEFAULT_STRUCTURE_OPTIONS.maxEntries,
+        showOmitted = DEFAULT_STRUCTURE_OPTIONS.showOmitted,
+    } = structure;
+    const { mode = DEFAULT_ORDER_OPTIONS.mode, priorityGlobs = DEFAULT_ORDER_OPTIONS.priorityGlobs } = order;
+
+    if (!isOutputFormat(format) || !isOneOf(tokenizer, Object.keys(TOKENIZER_LABELS) as TokenizerKind[])) return undefined;
+    if (typeof templateBody !== 'string' || typeof task !== 'string') return undefined;
+    if (!isCount(tokenBudget) || !isOneOf<BudgetMode>(budgetMode, ['warn', 'drop'])) return undefined;
+    if (!isCount(limit) || !isOneOf<SplitUnit>(unit, ['chars', 'tokens'])) return undefined;
+    if (!isOneOf<StructureAnnotation>(annotation, ['none', 'lines', 'bytes', 'tokens']) || !isCount(maxDepth)
+        || !isCount(maxEntries) || typeof showOmitted !== 'boolean') return undefined;
+    if (!isOneOf(mode, Object.keys(ORDER_MODE_LABELS) as OrderMode[]) || !isStringList(priorityGlobs)) return undefined;
+    return {
+        format,
+        templateBody,
+        task,
+        tokenizer,
+        tokenBudget,
+        budgetMode,
+        split: { limit, unit },
+        structure: { annotation, maxDepth, maxEntries, showOmitted },
+        order: { mode, priorityGlobs },
+    };
+}
+
+export function exportBundle(bundle: ContextBundle): string {
+    return JSON.stringify({ kind: BUNDLE_KIND, version: BUNDLE_VERSION, ...bundle });
+}
+
+export function importBundle(json: string): ContextBundle {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (!isRecord(parsed) || parsed.kind !== BUNDLE_KIND) throw new Error('The file is not a context bundle.');
+    if (typeof parsed.version === 'number' && parsed.version > BUNDLE_VERSION) throw new Error('The bundle was made by a newer version of the app.');
+
+    const tree = Array.isArray(parsed.tree) ? parseTree(parsed.tree) : undefined;
+    const omitted = parseOmitted(parsed.omitted ?? []);
+    const { sourceOrder = [], createdAt, diff } = parsed;
+    const settings = parseSettings(parsed.settings);
+    if (!tree || !omitted || !settings || !isStringList(sourceOrder) || typeof createdAt !== 'number' || !isOptionalString(diff)) {
+        throw new Error('The bundle is incomplete or damaged.');
+    }
+    return {
+        label: typeof parsed.label === 'string' ? parsed.label : '',
+        createdAt,
+        tree,
+        omitted,
+        diff,
+        sourceOrder,
+        settings,
+    };
+}
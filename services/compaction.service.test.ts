@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { FileNode, FileSystemTree } from '../types';
+import { DEFAULT_COMPACTION_OPTIONS, collapseWhitespace, compactTree, minifyJson, stripComments } from './compaction.service';
+
+const source = (lines: string[]) => lines.join('\n');
+
+describe('stripComments', () => {
+    it('keeps comment markers inside strings and template literals', () => {
+        const content = source([
+            "const a = '// not a comment'; // comment",
+            'const b = "/* not */ either";',
+            '/* block',
+            '   comment */',
+            'const c = `/* ${"//"} */`;',
+        ]);
+        expect(stripComments(content, 'a.ts')).toBe(source([
+            "const a = '// not a comment';",
+            'const b = "/* not */ either";',
+            'const c = `/* ${"//"} */`;',
+        ]));
+    });
+
+    it('follows nested template expressions back into the template', () => {
+        const content = 'const s = `a ${fn(`b ${x /* c */} // d`)} /* e */`; // f';
+        expect(stripComments(content, 'a.ts')).toBe('const s = `a ${fn(`b ${x } // d`)} /* e */`;');
+    });
+
+    it('keeps URLs and regex literals', () => {
+        const content = source([
+            "const url = 'https://example.com/path'; // link",
+            'const re = /\\/\\/[^/]*/g;',
+        ]);
+        expect(stripComments(content, 'a.js')).toBe(source([
+            "const url = 'https://example.com/path';",
+            'const re = /\\/\\/[^/]*/g;',
+        ]));
+    });
+
+    it('keeps a space where a block comment separated two tokens', () => {
+        expect(stripComments('return a/* x */b;', 'a.ts')).toBe('return a b;');
+    });
+
+    it('keeps # inside Python strings', () => {
+        const content = source(['color = "#fff"  # white', "# header", "tag = '#1'"]);
+        expect(stripComments(content, 'a.py')).toBe(source(['color = "#fff"', "tag = '#1'"]));
+    });
+
+    it('leaves files it has no syntax for alone', () => {
+        expect(stripComments('# not a comment', 'notes.txt')).toBe('# not a comment');
+    });
+});
+
+describe('minifyJson', () => {
+    it('drops whitespace between tokens but not inside strings with escaped quotes', () => {
+        const content = '{\n  "a": "say \\"hi there\\"",\n  "b": [ 1, 2 ]\n}';
+        const minified = minifyJson(content, 'data.json');
+        expect(minified).toBe('{"a":"say \\"hi there\\"","b":[1,2]}');
+        expect(JSON.parse(minified)).toEqual(JSON.parse(content));
+    });
+
+    it('leaves other files and JSON that does not parse alone', () => {
+        expect(minifyJson('{ "a": 1 }', 'a.txt')).toBe('{ "a": 1 }');
+        expect(minifyJson('{ "a": 1, // note\n}', 'tsconfig.json')).toBe('{ "a": 1, // note\n}');
+    });
+});
+
+describe('collapseWhitespace', () => {
+    it('drops trailing spaces and extra blank lines but keeps indentation', () => {
+        const content = source(['def f():  ', '    if x:', '        return 1', '', '', '', '    return 2', '']);
+        expect(collapseWhitespace(content)).toBe(source(['def f():', '    if x:', '        return 1', '', '    return 2']));
+    });
+});
+
+describe('compactTree', () => {
+    it('measures each transform against the previous one', () => {
+        const tree: FileSystemTree = [{ kind: 'file', name: 'a.ts', path: 'a.ts', content: 'a(); // x   \n\n\n\nb();' }];
+        const { tree: compacted, savings } = compactTree(tree, { ...DEFAULT_COMPACTION_OPTIONS, stripComments: true, collapseWhitespace: true }, text => text.length);
+        expect((compacted[0] as FileNode).content).toBe('a();\n\nb();');
+        expect(savings).toEqual([
+            { kind: 'stripComments', chars: 8, tokens: 8, files: 1 },
+            { kind: 'collapseWhitespace', chars: 2, tokens: 2, files: 1 },
+        ]);
+    });
+});
@@ -0,0 +1,115 @@
+import type { FileNode, FileSystemTree } from '../types';
+import { getCodeSyntax, splitCodeSegments } from './lexer.service';
+
+// Optional transforms that shrink file contents before they reach the output. Each one is
+// lossless for what a model needs to read the code: comments and layout go, code stays.
+
+export type CompactionKind = 'stripComments' | 'collapseWhitespace' | 'minifyJson';
+
+export type CompactionOptions = Record<CompactionKind, boolean>;
+
+export interface CompactionSaving {
+    kind: CompactionKind;
+    chars: number;
+    tokens: number;
+    files: number;
+}
+
+export interface CompactionResult {
+    tree: FileSystemTree;
+    savings: CompactionSaving[];
+}
+
+export const DEFAULT_COMPACTION_OPTIONS: CompactionOptions = {
+    stripComments: false,
+    collapseWhitespace: false,
+    minifyJson: false,
+};
+
+export const COMPACTION_LABELS: Record<CompactionKind, string> = {
+    stripComments: 'Strip comments',
+    collapseWhitespace: 'Collapse whitespace',
+    minifyJson: 'Minify JSON',
+};
+
+// Put where a comment was removed, so lines left empty by it can be dropped afterwards.
+// Decoded text never contains NUL, those files are treated as binary.
+const REMOVED = '\u0000';
+
+function cleanUpRemovals(content: string): string {
+    if (!content.includes(REMOVED)) return content;
+    return content
+        .split('\n')
+        .filter(line => !line.includes(REMOVED) || line.replaceAll(REMOVED, '').trim() !== '')
+        .map(line => line.includes(REMOVED)
+            // A block comment between two tokens still has to separate them
+            ? line.replace(/(\S)\u0000+(?=\S)/g, '$1 ').replaceAll(REMOVED, '').trimEnd()
+            : line)
+        .join('\n');
+}
+
+export function stripComments(content: string, path: string): string {
+    const syntax = getCodeSyntax(path);
+    if (!syntax) return content;
+    if (syntax === 'markup') {
+        // Conditional comments (<!--[if IE]>) still affect rendering, keep them
+        return cleanUpRemovals(content.replace(/<!--(?!\[if)[\s\S]*?-->/g, REMOVED));
+    }
+    const stripped = splitCodeSegments(content, syntax)
+        .map(segment => (segment.kind === 'comment' ? REMOVED : content.slice(segment.start, segment.end)))
+        .join('');
+    return cleanUpRemovals(stripped);
+}
+
+// Indentation is left alone, it is significant in Python and YAML
+export function collapseWhitespace(content: string): string {
+    return content
+        .replace(/[ \t]+$/gm, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .replace(/^\n+|\n+$/g, '');
+}
+
+// Drops the whitespace between tokens instead of re-stringifying a parse, which would
+// round large numbers. Files that don't parse (JSONC, truncated) are left as they are.
+export function minifyJson(content: string, path: string): string {
+    if (!/\.json$/i.test(path)) return content;
+    try {
+        JSON.parse(content);
+    } catch {
+        return content;
+    }
+    return content.replace(/"(?:[^"\\]|\\.)*"|\s+/g, match => (match[0] === '"' ? match : ''));
+}
+
+const TRANSFORMS: Record<CompactionKind, (content: string, path: string) => string> = {
+    stripComments,
+    collapseWhitespace: content => collapseWhitespace(content),
+    minifyJson,
+};
+
+// Transforms run in a fixed order and each one's saving is measured against the output of
+// the previous one, so the numbers add up to the total saving.
+export function compactTree(tree: FileSystemTree, options: CompactionOptions, countTokens: (text: string) => number): CompactionResult {
+    const kinds = (Object.keys(TRANSFORMS) as CompactionKind[]).filter(kind => options[kind]);
+    const savings = new Map<CompactionKind, CompactionSaving>(kinds.map(kind => [kind, { kind, chars: 0, tokens: 0, files: 0 }]));
+    if (kinds.length === 0) return { tree, savings: [] };
+
+    const compactFile = (file: FileNode): FileNode => {
+        let content = file.content;
+        for (const kind of kinds) {
+            const next = TRANSFORMS[kind](content, file.path);
+            if (next === content) continue;
+            const saving = savings.get(kind)!;
+            saving.chars += content.length - next.length;
+            saving.tokens += countTokens(content) - countTokens(next);
+            saving.files++;
+            content = next;
+        }
+        return content === file.content ? file : { ...file, content };
+    };
+
+    const compact = (nodes: FileSystemTree): FileSystemTree => nodes.map(node =>
+        node.kind === 'directory' ? { ...node, children: compact(node.children) } : compactFile(node));
+
+    return { tree: compact(tree), savings: Array.from(savings.values()) };
+}
@@ -0,0 +1,394 @@
+import type { FileNode, FileSystemTree } from '../types';
+
+// Centers the output on a pasted unified diff (`git diff`, `git format-patch`, `diff -u`).
+// Diff paths are relative to the repository root while tree paths start with the source
+// name, so files are matched by path suffix. Line numbers refer to the new side of the diff,
+// which is what the loaded files contain when the diff was taken against the working tree.
+
+export type DiffFileStatus = 'added' | 'deleted' | 'modified' | 'renamed';
+
+export interface DiffHunk {
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    // Raw hunk lines, each starting with ' ', '+', '-' or '\'
+    lines: string[];
+}
+
+export interface DiffFile {
+    // The new path, or the old one for deleted files
+    path: string;
+    oldPath?: string;
+    status: DiffFileStatus;
+    binary: boolean;
+    hunks: DiffHunk[];
+}
+
+export interface DiffMatch {
+    file: DiffFile;
+    // Undefined when no loaded file matches
+    treePath?: string;
+    // The loaded file doesn't contain the diff's new lines, so it is probably another version
+    stale: boolean;
+}
+
+export type DiffFocusMode = 'full' | 'hunks';
+
+export interface DiffOptions {
+    // 'full' keeps whole files with the changes marked; 'hunks' keeps only the changed regions
+    mode: DiffFocusMode;
+    // Unchanged lines kept around each change in 'hunks' mode
+    contextLines: number;
+}
+
+export const DEFAULT_DIFF_OPTIONS: DiffOptions = {
+    mode: 'full',
+    contextLines: 3,
+};
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+const NULL_PATH = '/dev/null';
+
+// Strips git's a/ and b/ prefixes, quotes and the timestamp `diff -u` appends after a tab
+function parseDiffPath(raw: string): string | undefined {
+    let path = raw.split('\t')[0].trim();
+    if (path.startsWith('"') && path.endsWith('"')) path = path.slice(1, -1).replace(/\\(.)/g, '$1');
+    if (path === NULL_PATH) return undefined;
+    return path.replace(/^[ab]\//, '');
+}
+
+export function parseUnifiedDiff(text: string): DiffFile[] {
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    const files: DiffFile[] = [];
+    let current: DiffFile | undefined;
+    // Files whose '---' header has been read
+    const withOldHeader = new Set<DiffFile>();
+    let hunk: DiffHunk | undefined;
+    // Lines still expected in the current hunk, so a '---' inside it isn't taken for a header
+    let remainingOld = 0;
+    let remainingNew = 0;
+
+    const startFile = (path = ''): DiffFile => {
+        current = { path, status: 'modified', binary: false, hunks: [] };
+        files.push(current);
+        hunk = undefined;
+        return current;
+    };
+
+    for (const line of lines) {
+        if (hunk && (remainingOld > 0 || remainingNew > 0)) {
+            const marker = line[0] ?? ' ';
+            if (marker === '\\') {
+                hunk.lines.push(line);
+                continue;
+            }
+            if (marker === ' ' || marker === '+' || marker === '-' || line === '') {
+                hunk.lines.push(line === '' ? ' ' : line);
+                if (marker !== '+') remainingOld--;
+                if (marker !== '-') remainingNew--;
+                continue;
+            }
+        }
+        if (hunk && line.startsWith('\\')) {
+            hunk.lines.push(line);
+            continue;
+        }
+
+        const gitHeader = /^diff --git (?:"?a\/)?(.+?)"? (?:"?b\/)?(.+?)"?$/.exec(line);
+        if (gitHeader) {
+            startFile(gitHeader[2]).oldPath = gitHeader[1];
+            continue;
+        }
+        if (line.startsWith('--- ')) {
+            // Plain `diff -u` output has no `diff --git` line before the headers
+            const file = current && !current.hunks.length && !withOldHeader.has(current) ? current : startFile();
+            const oldPath = parseDiffPath(line.slice(4));
+            withOldHeader.add(file);
+            if (oldPath === undefined) file.status = 'added';
+            else file.oldPath = oldPath;
+            continue;
+        }
+        if (line.startsWith('+++ ') && current) {
+            const newPath = parseDiffPath(line.slice(4));
+            if (newPath === undefined) {
+                current.status = 'deleted';
+                current.path = current.oldPath ?? current.path;
+            } else {
+                current.path = newPath;
+            }
+            continue;
+        }
+        if (!current) continue;
+
+        if (line.startsWith('new file mode')) current.status = 'added';
+        else if (line.startsWith('deleted file mode')) current.status = 'deleted';
+        else if (line.startsWith('rename from ')) current.oldPath = line.slice('rename from '.length);
+        else if (line.startsWith('rename to ')) current.path = line.slice('rename to '.length);
+        else if (line.startsWith('Binary files ') || line.startsWith('GIT binary patch')) current.binary = true;
+
+        const header = HUNK_HEADER.exec(line);
+        if (header) {
+            hunk = {
+                oldStart: Number(header[1]),
+                oldLines: header[2] === undefined ? 1 : Number(header[2]),
+                newStart: Number(header[3]),
+                newLines: header[4] === undefined ? 1 : Number(header[4]),
+                lines: [],
+            };
+            remainingOld = hunk.oldLines;
+            remainingNew = hunk.newLines;
+            current.hunks.push(hunk);
+        }
+    }
+
+    return files.map(file => {
+        if (file.status === 'modified' && file.oldPath && file.oldPath !== file.path) file.status = 'renamed';
+        if (file.status === 'deleted') file.path = file.oldPath ?? file.path;
+        if (file.oldPath === file.path) delete file.oldPath;
+        return file;
+    });
+}
+
+function collectFiles(nodes: FileSystemTree, files: FileNode[] = []): FileNode[] {
+    for (const node of nodes) {
+        if (node.kind === 'file') files.push(node);
+        else collectFiles(node.children, files);
+    }
+    return files;
+}
+
+interface ChangeMap {
+    // New-side line numbers (1-based) of added lines
+    added: Set<number>;
+    // Number of removed lines right before a new-side line number
+    removedBefore: Map<number, number>;
+}
+
+function mapChanges(file: DiffFile): ChangeMap {
+    const added = new Set<number>();
+    const removedBefore = new Map<number, number>();
+    for (const hunk of file.hunks) {
+        let line = hunk.newStart;
+        for (const hunkLine of hunk.lines) {
+            if (hunkLine[0] === '+') added.add(line++);
+            else if (hunkLine[0] === '-') removedBefore.set(line, (removedBefore.get(line) ?? 0) + 1);
+            else if (hunkLine[0] === ' ') line++;
+        }
+    }
+    return { added, removedBefore };
+}
+
+function matchesContent(file: DiffFile, content: string): boolean {
+    const lines = content.split('\n');
+    return file.hunks.every(hunk => {
+        let line = hunk.newStart;
+        return hunk.lines.every(hunkLine => {
+            if (hunkLine[0] !== ' ' && hunkLine[0] !== '+') return true;
+            return (lines[line++ - 1] ?? '').replace(/\r$/, '') === hunkLine.slice(1);
+        });
+    });
+}
+
+// The shortest loaded path that ends with the diff path
+export function matchDiffFiles(tree: FileSystemTree, diffFiles: DiffFile[]): DiffMatch[] {
+    const treeFiles = collectFiles(tree);
+    return diffFiles.map(file => {
+        const match = treeFiles
+            .filter(node => node.path === file.path || node.path.endsWith(`/${file.path}`))
+            .sort((a, b) => a.path.length - b.path.length)[0];
+        return {
+            file,
+            treePath: match?.path,
+            stale: match !== undefined && file.status !== 'deleted' && !matchesContent(file, match.content),
+        };
+    });
+}
+
+function formatRange(start: number, end: number): string {
+    return start === end ? `line ${start}` : `lines ${start}-${end}`;
+}
+
+// Marks runs of added lines and the spots where lines were removed. In 'hunks' mode only
+// the changes and `contextLines` around them are kept; the gaps become omission notes.
+function focusContent(content: string, changes: ChangeMap, { mode, contextLines }: DiffOptions): string {
+    const lines = content.split('\n');
+    const isChanged = (line: number) => changes.added.has(line) || changes.removedBefore.has(line);
+
+    const kept = new Set<number>();
+    if (mode === 'hunks') {
+        for (let line = 1; line <= lines.length + 1; line++) {
+            if (!isChanged(line)) continue;
+            for (let near = line - contextLines; near <= line + contextLines; near++) kept.add(near);
+        }
+    }
+    const isKept = (line: number) => mode === 'full' || kept.has(line);
+
+    const out: string[] = [];
+    let omittedFrom = 0;
+    const flushOmitted = (line: number) => {
+        if (omittedFrom) out.push(`[... ${formatRange(omittedFrom, line - 1)} unchanged, omitted ...]`);
+        omittedFrom = 0;
+    };
+
+    for (let line = 1; line <= lines.length; line++) {
+        if (!isKept(line)) {
+            if (!omittedFrom) omittedFrom = line;
+            continue;
+        }
+        flushOmitted(line);
+        const removed = changes.removedBefore.get(line);
+        if (removed) out.push(`[removed: ${removed} line${removed === 1 ? '' : 's'}]`);
+        if (changes.added.has(line) && !changes.added.has(line - 1)) {
+            let end = line;
+            while (changes.added.has(end + 1)) end++;
+            out.push(`[changed: ${formatRange(line, end)}]`);
+        }
+        out.push(lines[line - 1]);
+        if (changes.added.has(line) && !changes.added.has(line + 1)) out.push('[end of change]');
+    }
+    flushOmitted(lines.length + 1);
+    const removedAtEnd = changes.removedBefore.get(lines.length + 1);
+    if (removedAtEnd) out.push(`[removed: ${removedAtEnd} line${removedAtEnd === 1 ? '' : 's'}]`);
+    return out.join('\n');
+}
+
+// Returns a copy of the tree with every matched file's content focused on its changes.
+// Deleted and binary files are left as they are.
+export function focusTreeOnDiff(tree: FileSystemTree, matches: DiffMatch[], options: DiffOptions): FileSystemTree {
+    const changesByPath = new Map(matches
+        .filter(match => match.treePath && match.file.status !== 'deleted' && !match.file.binary && match.file.hunks.length > 0)
+        .map(match => [match.treePath!, mapChanges(match.file)]));
+    if (changesByPath.size === 0) return tree;
+
+    const apply = (nodes: FileSystemTree): FileSystemTree => nodes.map(node => {
+        if (node.kind === 'directory') return { ...node, children: apply(node.children) };
+        const changes = changesByPath.get(node.path);
+        return changes ? { ...node, content: focusContent(node.content, changes, options) } : node;
+    });
+    return apply(tree);
+}
+
+export function getTouchedPaths(matches: DiffMatch[]): Set<string> {
+    return new Set(matches.flatMap(match => (match.treePath ? [match.treePath] : [])));
+}
+
+type LineOp = { kind: ' ' | '-' | '+'; line: string };
+
+// Past this many edits the diff is reported as a whole-file replacement. Myers' trace grows
+// with the square of the edit count, and such a diff wouldn't be much smaller anyway.
+const MAX_DIFF_EDITS = 2000;
+
+function splitLines(content: string): string[] {
+    if (content === '') return [];
+    const lines = content.split('\n');
+    if (content.endsWith('\n')) lines.pop();
+    return lines;
+}
+
+// Myers' O(ND) shortest edit script between the lines of two files
+function diffLines(a: string[], b: string[]): LineOp[] {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    const oldMiddle = a.slice(prefix, a.length - suffix);
+    const newMiddle = b.slice(prefix, b.length - suffix);
+    const same = (lines: string[]): LineOp[] => lines.map(line => ({ kind: ' ', line }));
+    return [
+        ...same(a.slice(0, prefix)),
+        ...diffMiddle(oldMiddle, newMiddle),
+        ...same(a.slice(a.length - suffix)),
+    ];
+}
+
+function diffMiddle(a: string[], b: string[]): LineOp[] {
+    const n = a.length;
+    const m = b.length;
+    const replaceAll = (): LineOp[] => [
+        ...a.map((line): LineOp => ({ kind: '-', line })),
+        ...b.map((line): LineOp => ({ kind: '+', line })),
+    ];
+    if (n === 0 || m === 0) return replaceAll();
+
+    const max = Math.min(n + m, MAX_DIFF_EDITS);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    // trace[d] holds v[-d-1..d+1] as it was before step d
+    const trace: Int32Array[] = [];
+
+    for (let d = 0; d <= max; d++) {
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) return backtrack(a, b, trace, d);
+        }
+    }
+    return replaceAll();
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[], distance: number): LineOp[] {
+    const ops: LineOp[] = [];
+    let x = a.length;
+    let y = b.length;
+    for (let d = distance; d > 0; d--) {
+        const before = trace[d];
+        const at = (k: number) => before[k + d + 1];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) {
+            ops.push({ kind: ' ', line: a[--x] });
+            y--;
+        }
+        if (prevK === k + 1) ops.push({ kind: '+', line: b[--y] });
+        else ops.push({ kind: '-', line: a[--x] });
+    }
+    while (x > 0) ops.push({ kind: ' ', line: a[--x] });
+    return ops.reverse();
+}
+
+function formatHunkRange(start: number, count: number): string {
+    // An empty range points at the line before it, like in diff and git
+    const shown = count === 0 ? start - 1 : start;
+    return count === 1 ? `${shown}` : `${shown},${count}`;
+}
+
+// A git-style diff of one file, or '' when the contents are equal
+export function createUnifiedDiff(path: string, oldContent: string, newContent: string, contextLines = DEFAULT_DIFF_OPTIONS.contextLines): string {
+    const ops = diffLines(splitLines(oldContent), splitLines(newContent));
+    const changed = ops.flatMap((op, index) => (op.kind === ' ' ? [] : [index]));
+    if (changed.length === 0) return '';
+
+    const out = [`diff --git a/${path} b/${path}`, `--- a/${path}`, `+++ b/${path}`];
+    let groupStart = 0;
+    for (let i = 1; i <= changed.length; i++) {
+        // Changes closer than twice the context share a hunk
+        if (i < changed.length && changed[i] - changed[i - 1] <= 2 * contextLines + 1) continue;
+        const start = Math.max(0, changed[groupStart] - contextLines);
+        const end = Math.min(ops.length, changed[i - 1] + contextLines + 1);
+        const before = ops.slice(0, start);
+        const hunk = ops.slice(start, end);
+        const oldCount = hunk.filter(op => op.kind !== '+').length;
+        const newCount = hunk.filter(op => op.kind !== '-').length;
+        const oldStart = before.filter(op => op.kind !== '+').length + 1;
+        const newStart = before.filter(op => op.kind !== '-').length + 1;
+        out.push(`@@ -${formatHunkRange(oldStart, oldCount)} +${formatHunkRange(newStart, newCount)} @@`);
+        out.push(...hunk.map(op => op.kind + op.line));
+        groupStart = i;
+    }
+    return out.join('\n');
+}
+
+// A header-only entry for a file that no longer exists
+export function createDeletionDiff(path: string): string {
+    return [`diff --git a/${path} b/${path}`, 'deleted file mode 100644', `--- a/${path}`, '+++ /dev/null'].join('\n');
+}
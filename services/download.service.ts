@@ -0,0 +1,17 @@
+// Saves generated output to disk through a temporary object URL.
+
+export function downloadBlob(filename: string, blob: Blob): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadText(filename: string, text: string, mimeType = 'text/plain'): void {
+    downloadBlob(filename, new Blob([text], { type: `${mimeType};charset=utf-8` }));
+}
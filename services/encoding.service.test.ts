@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { decodeContent, detectMagicType } from './encoding.service';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+const ascii = (text: string) => Array.from(text, ch => ch.charCodeAt(0));
+const utf16le = (text: string) => ascii(text).flatMap(code => [code, 0]);
+const utf16be = (text: string) => ascii(text).flatMap(code => [0, code]);
+
+describe('decodeContent', () => {
+    it('decodes by the byte order mark and drops it', () => {
+        expect(decodeContent(bytes(0xef, 0xbb, 0xbf, ...ascii('hi')))).toEqual({ kind: 'text', text: 'hi', encoding: 'utf-8' });
+        expect(decodeContent(bytes(0xff, 0xfe, ...utf16le('hi')))).toEqual({ kind: 'text', text: 'hi', encoding: 'utf-16le' });
+        expect(decodeContent(bytes(0xfe, 0xff, ...utf16be('hi')))).toEqual({ kind: 'text', text: 'hi', encoding: 'utf-16be' });
+    });
+
+    it('recognizes UTF-16 without a byte order mark by its NUL bytes', () => {
+        expect(decodeContent(bytes(...utf16le('hello')))).toEqual({ kind: 'text', text: 'hello', encoding: 'utf-16le' });
+        expect(decodeContent(bytes(...utf16be('hello')))).toEqual({ kind: 'text', text: 'hello', encoding: 'utf-16be' });
+    });
+
+    it('falls back to windows-1252 for text that is not valid UTF-8', () => {
+        expect(decodeContent(bytes(...ascii('caf'), 0xe9, ...ascii(' ok')))).toEqual({ kind: 'text', text: 'café ok', encoding: 'windows-1252' });
+    });
+
+    it('labels binary data by its signature', () => {
+        expect(decodeContent(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d))).toEqual({ kind: 'binary', type: 'PNG image' });
+        expect(decodeContent(bytes(0x01, 0x02, 0x03, 0xff, 0x04))).toEqual({ kind: 'binary', type: 'unknown binary data' });
+    });
+
+    it('keeps text that happens to start with a short signature', () => {
+        expect(decodeContent(bytes(...ascii('MZ notes')))).toMatchObject({ kind: 'text', text: 'MZ notes' });
+        expect(detectMagicType(bytes(...ascii('MZ notes')))).toBe('Windows executable');
+    });
+});
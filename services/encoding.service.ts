@@ -0,0 +1,131 @@
+// Content sniffing for files whose type can't be trusted from the name or MIME type.
+
+export type DecodedContent =
+    | { kind: 'text'; text: string; encoding: string }
+    | { kind: 'binary'; type: string };
+
+interface MagicSignature {
+    type: string;
+    bytes: number[];
+    offset?: number;
+}
+
+const MAGIC_SIGNATURES: MagicSignature[] = [
+    { type: 'PNG image', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+    { type: 'JPEG image', bytes: [0xff, 0xd8, 0xff] },
+    { type: 'GIF image', bytes: [0x47, 0x49, 0x46, 0x38] },
+    { type: 'BMP image', bytes: [0x42, 0x4d] },
+    { type: 'ICO image', bytes: [0x00, 0x00, 0x01, 0x00] },
+    { type: 'WebP image', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+    { type: 'WAV audio', bytes: [0x57, 0x41, 0x56, 0x45], offset: 8 },
+    { type: 'MP3 audio', bytes: [0x49, 0x44, 0x33] },
+    { type: 'Ogg media', bytes: [0x4f, 0x67, 0x67, 0x53] },
+    { type: 'MP4 media', bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 },
+    { type: 'PDF document', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+    { type: 'ZIP archive', bytes: [0x50, 0x4b, 0x03, 0x04] },
+    { type: 'ZIP archive', bytes: [0x50, 0x4b, 0x05, 0x06] },
+    { type: 'gzip archive', bytes: [0x1f, 0x8b] },
+    { type: '7z archive', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+    { type: 'RAR archive', bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] },
+    { type: 'SQLite database', bytes: [0x53, 0x51, 0x4c, 0x69, 0x74, 0x65, 0x20, 0x66, 0x6f, 0x72, 0x6d, 0x61, 0x74, 0x20, 0x33, 0x00] },
+    { type: 'WebAssembly module', bytes: [0x00, 0x61, 0x73, 0x6d] },
+    { type: 'ELF executable', bytes: [0x7f, 0x45, 0x4c, 0x46] },
+    { type: 'Windows executable', bytes: [0x4d, 0x5a] },
+    { type: 'Mach-O executable', bytes: [0xcf, 0xfa, 0xed, 0xfe] },
+    { type: 'Mach-O executable', bytes: [0xce, 0xfa, 0xed, 0xfe] },
+    { type: 'Java class or Mach-O universal binary', bytes: [0xca, 0xfe, 0xba, 0xbe] },
+    { type: 'WOFF font', bytes: [0x77, 0x4f, 0x46, 0x46] },
+    { type: 'WOFF2 font', bytes: [0x77, 0x4f, 0x46, 0x32] },
+    { type: 'TrueType font', bytes: [0x00, 0x01, 0x00, 0x00, 0x00] },
+    { type: 'OpenType font', bytes: [0x4f, 0x54, 0x54, 0x4f] },
+];
+
+// Only the head of the file is inspected for NUL bytes and control characters
+const SNIFF_LENGTH = 8192;
+const CONTROL_CHAR_RATIO = 0.1;
+
+function matchesSignature(bytes: Uint8Array, signature: MagicSignature): boolean {
+    const offset = signature.offset ?? 0;
+    if (bytes.length < offset + signature.bytes.length) return false;
+    return signature.bytes.every((byte, i) => bytes[offset + i] === byte);
+}
+
+export function detectMagicType(bytes: Uint8Array): string | null {
+    return MAGIC_SIGNATURES.find(signature => matchesSignature(bytes, signature))?.type ?? null;
+}
+
+function detectBom(bytes: Uint8Array): { encoding: string; length: number } | null {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', length: 3 };
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', length: 2 };
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', length: 2 };
+    return null;
+}
+
+// UTF-16 text without a BOM shows up as ASCII with every other byte NUL
+function detectBomlessUtf16(sample: Uint8Array): string | null {
+    if (sample.length < 4 || sample.length % 2 !== 0) return null;
+    let evenNuls = 0;
+    let oddNuls = 0;
+    for (let i = 0; i < sample.length; i += 2) {
+        if (sample[i] === 0) evenNuls++;
+        if (sample[i + 1] === 0) oddNuls++;
+    }
+    const pairs = sample.length / 2;
+    if (oddNuls > pairs * 0.6 && evenNuls < pairs * 0.1) return 'utf-16le';
+    if (evenNuls > pairs * 0.6 && oddNuls < pairs * 0.1) return 'utf-16be';
+    return null;
+}
+
+function hasTooManyControlChars(sample: Uint8Array): boolean {
+    let controlChars = 0;
+    for (const byte of sample) {
+        // Tab, line feed, form feed, carriage return and escape are common in text files
+        if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d && byte !== 0x1b) {
+            controlChars++;
+        }
+    }
+    return sample.length > 0 && controlChars / sample.length > CONTROL_CHAR_RATIO;
+}
+
+function tryDecode(bytes: Uint8Array, encoding: string): string | null {
+    try {
+        return new TextDecoder(encoding, { fatal: true }).decode(bytes);
+    } catch {
+        return null;
+    }
+}
+
+// Signatures are only used to label data that already failed the text checks, since short
+// ones like "MZ" or "BM" can legitimately start a text file.
+function binary(bytes: Uint8Array): DecodedContent {
+    return { kind: 'binary', type: detectMagicType(bytes) ?? 'unknown binary data' };
+}
+
+export function decodeContent(bytes: Uint8Array): DecodedContent {
+    const bom = detectBom(bytes);
+    if (bom) {
+        const text = tryDecode(bytes.subarray(bom.length), bom.encoding);
+        if (text !== null) return { kind: 'text', text, encoding: bom.encoding };
+    }
+
+    const sample = bytes.subarray(0, SNIFF_LENGTH);
+    if (sample.includes(0)) {
+        const utf16 = detectBomlessUtf16(sample);
+        const text = utf16 ? tryDecode(bytes, utf16) : null;
+        return text !== null ? { kind: 'text', text, encoding: utf16! } : binary(bytes);
+    }
+
+    const utf8 = tryDecode(bytes, 'utf-8');
+    if (utf8 !== null) return { kind: 'text', text: utf8, encoding: 'utf-8' };
+
+    if (hasTooManyControlChars(sample)) return binary(bytes);
+
+    // Not valid UTF-8 but plausibly text: windows-1252 is a superset of Latin-1 and decodes every byte
+    return { kind: 'text', text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252' };
+}
+
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { DirectoryNode, FileNode, InputFile } from '../types';
+import { DEFAULT_PROCESS_OPTIONS, processFileSource } from './file.service';
+import { createZip, extractZipEntry } from './zip.service';
+
+vi.mock('./zip.service', async importOriginal => {
+    const actual = await importOriginal<typeof import('./zip.service')>();
+    return { ...actual, extractZipEntry: vi.fn(actual.extractZipEntry) };
+});
+
+const inputFile = (name: string, content: string): InputFile => new File([content], name);
+
+describe('processFileSource', () => {
+    const rows = Array.from({ length: 200 }, (_, i) => `${i},${'x'.repeat(20)}`);
+    const csv = inputFile('data.csv', ['id,value', ...rows].join('\n'));
+
+    it('reads transformable files over the size limit when the transformed content fits', async () => {
+        const { tree, skipped } = await processFileSource({ name: 'data.csv', kind: 'file', files: [csv] }, { ...DEFAULT_PROCESS_OPTIONS, maxFileSize: 1024 });
+        expect(skipped).toEqual([]);
+        expect((tree[0] as FileNode).content).toContain('190 more rows omitted');
+    });
+
+    it('applies the size limit to the transformed content', async () => {
+        const options = { ...DEFAULT_PROCESS_OPTIONS, maxFileSize: 100 };
+        const skippedResult = await processFileSource({ name: 'data.csv', kind: 'file', files: [csv] }, options);
+        expect(skippedResult.skipped).toMatchObject([{ path: 'data.csv', reason: 'size' }]);
+
+        const { tree } = await processFileSource({ name: 'data.csv', kind: 'file', files: [csv] }, { ...options, truncation: 'head' });
+        expect((tree[0] as FileNode).content.split('\n').slice(3)).toEqual([
+            `2,${'x'.repeat(20)}`,
+            '[... truncated: showing the first 100 B of 295 B ...]',
+        ]);
+    });
+});
+
+describe('truncated reads', () => {
+    it('keeps UTF-16 text intact when the head ends in bytes that look like cut-off UTF-8', async () => {
+        // U+C0C0 is C0 C0 in UTF-16LE, which reads as the start of a two-byte UTF-8 sequence
+        const bytes = new Uint8Array(2 + 1000 * 2).fill(0xc0);
+        bytes.set([0xff, 0xfe]);
+        const { tree } = await processFileSource(
+            { name: 'wide.txt', kind: 'file', files: [new File([bytes], 'wide.txt')] },
+            { ...DEFAULT_PROCESS_OPTIONS, maxFileSize: 1024, truncation: 'head' },
+        );
+        expect((tree[0] as FileNode).content).toBe(`${'샀'.repeat(511)}\n[... truncated: showing the first 1.0 KB of 2.0 KB ...]`);
+    });
+
+    it('drops a UTF-8 sequence cut off by the head', async () => {
+        const text = `${'a'.repeat(1023)}é${'b'.repeat(1000)}`;
+        const { tree } = await processFileSource(
+            { name: 'a.txt', kind: 'file', files: [inputFile('a.txt', text)] },
+            { ...DEFAULT_PROCESS_OPTIONS, maxFileSize: 1024, truncation: 'head' },
+        );
+        expect((tree[0] as FileNode).content.startsWith(`${'a'.repeat(1023)}\n[... truncated`)).toBe(true);
+    });
+});
+
+describe('archive sources', () => {
+    it('filters entries before extracting them and drops the folder the archive wraps everything in', async () => {
+        const zip = await createZip([
+            { path: 'repo-main/README.md', content: 'hi' },
+            { path: 'repo-main/big.txt', content: 'x'.repeat(2000) },
+            { path: 'repo-main/keys/server.pem', content: 'key' },
+            { path: 'repo-main/npm-debug.log', content: 'log' },
+        ]);
+        vi.mocked(extractZipEntry).mockClear();
+        const { tree, skipped } = await processFileSource(
+            { name: 'repo-main.zip', kind: 'archive', files: [new File([zip], 'repo-main.zip')] },
+            { ...DEFAULT_PROCESS_OPTIONS, maxFileSize: 1024 },
+        );
+
+        const [root] = tree as DirectoryNode[];
+        expect(root.path).toBe('repo-main');
+        expect(root.children.map(child => child.path)).toEqual(['repo-main/README.md']);
+        expect(skipped.map(({ path, reason }) => ({ path, reason }))).toEqual(expect.arrayContaining([
+            { path: 'repo-main/big.txt', reason: 'size' },
+            { path: 'repo-main/keys/server.pem', reason: 'ignored-name' },
+            { path: 'repo-main/npm-debug.log', reason: 'ignored-name' },
+        ]));
+        expect(skipped).toHaveLength(3);
+        expect(vi.mocked(extractZipEntry).mock.calls.map(([, entry]) => entry.path)).toEqual(['repo-main/README.md']);
+    });
+});
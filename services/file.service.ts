@@ -1,94 +1,216 @@
 
-import type { DirectoryNode, FileNode, FileSystemTree, FileSource } from '../types';
-
-const BINARY_EXTENSIONS = new Set([
-  'png', 'jpg', 'jpeg', 'gif', 'bmp', 'ico', 'svg', 'mp4', 'webm', 'mp3', 'wav', 'ogg', 'zip', 'tar', 'gz', '7z', 'rar', 'pdf', 'exe', 'dll', 'so', 'dylib', 'class', 'jar', 'pyc', 'eot', 'ttf', 'woff', 'woff2'
-]);
-
-const IGNORED_DIRS = new Set([
-  // Source Control
-  '.git',
-  // Dependencies
-  'node_modules', '__pycache__', 
-  // Build/Output
-  'dist', 'build', '.next', 'out', 'coverage', 'web-build',
-  // IDE
-  '.vscode', '.idea',
-  // Framework Specific
-  '.expo', '.kotlin',
-  '.venv',"venv","package-lock.json"
-]);
-
-const IGNORED_FILENAMES = new Set([
-  '.DS_Store',
-  'expo-env.d.ts',
-]);
-
-const IGNORED_EXTENSIONS = new Set([
-  'jks', 'p8', 'p12', 'key', 'mobileprovision', 'pem', 'tsbuildinfo'
-]);
-
-const MAX_FILE_SIZE = 50 * 1024; // 50KB
-
-function isIgnoredFile(filename: string): boolean {
-    if (IGNORED_FILENAMES.has(filename)) return true;
-    
-    const ext = filename.split('.').pop()?.toLowerCase();
-    if (ext && IGNORED_EXTENSIONS.has(ext)) return true;
-
-    // Prefix patterns
-    if (filename.startsWith('npm-debug.') || 
-        filename.startsWith('yarn-debug.') || 
-        filename.startsWith('yarn-error.') ||
-        filename.startsWith('.metro-health-check')) {
-        return true;
-    }
-    
-    // .env*.local
-    if (filename.startsWith('.env') && filename.endsWith('.local')) {
-        return true;
+import type { DirectoryNode, FileSystemTree, InputFile, InputSource, ProcessResult, SkippedEntry } from '../types';
+import { IGNORE_FILENAMES, createIgnoreMatcher, createPatternMatcher, type IgnoreMatcher } from './ignore.service';
+import { filterTree } from './selection.service';
+import { decodeContent, formatFileSize, type DecodedContent } from './encoding.service';
+import { extractZipEntry, readZipEntries, type ZipEntry } from './zip.service';
+import { getFormatter, type OutputDocument, type OutputFile, type OutputFormat, type OutputTemplate } from './format.service';
+import { DEFAULT_PREAMBLE } from './template.service';
+import { buildStructureLines, formatStructureLines, type StructureInput } from './structure.service';
+import { applyTransformer, findTransformer, DEFAULT_TRANSFORMER_SETTINGS, MAX_TRANSFORM_INPUT_SIZE, type TransformerSettings } from './transform.service';
+
+// The built-in lists behind the Default preset, see preset.service
+export interface IgnoreSettings {
+    // Folder names skipped wherever they appear, checked before anything is read
+    dirs: string[];
+    filenames: string[];
+    // Without the dot, compared case-insensitively
+    extensions: string[];
+    // Gitignore-style patterns matched against paths inside each source
+    globs: string[];
+}
+
+export const DEFAULT_IGNORE_SETTINGS: IgnoreSettings = {
+    dirs: [
+        // Source Control
+        '.git',
+        // Dependencies
+        'node_modules', '__pycache__',
+        // Build/Output
+        'dist', 'build', '.next', 'out', 'coverage', 'web-build',
+        // IDE
+        '.vscode', '.idea',
+        // Framework Specific
+        '.expo', '.kotlin',
+        '.venv', 'venv',
+    ],
+    filenames: [
+        '.DS_Store',
+        'expo-env.d.ts',
+    ],
+    extensions: [
+        'jks', 'p8', 'p12', 'key', 'mobileprovision', 'pem', 'tsbuildinfo',
+    ],
+    globs: [
+        'npm-debug.*', 'yarn-debug.*', 'yarn-error.*', '.metro-health-check*',
+        '.env*.local',
+        // Merge conflict leftovers
+        '*.orig.*',
+    ],
+};
+
+export type TruncationMode = 'skip' | 'head' | 'head-tail';
+
+export interface ProcessOptions {
+    maxFileSize: number;
+    // What to do with files over maxFileSize
+    truncation: TruncationMode;
+    ignore: IgnoreSettings;
+    // Which content transformers run, see transform.service
+    transformers: TransformerSettings;
+}
+
+export const DEFAULT_PROCESS_OPTIONS: ProcessOptions = {
+    maxFileSize: 50 * 1024, // 50KB
+    truncation: 'skip',
+    ignore: DEFAULT_IGNORE_SETTINGS,
+    transformers: DEFAULT_TRANSFORMER_SETTINGS,
+};
+
+export function isIgnoredDirectory(name: string, ignore: IgnoreSettings = DEFAULT_IGNORE_SETTINGS): boolean {
+    return ignore.dirs.includes(name);
+}
+
+interface IgnoreFilter {
+    dirs: Set<string>;
+    filenames: Set<string>;
+    extensions: Set<string>;
+    patterns: IgnoreMatcher;
+}
+
+function createIgnoreFilter(ignore: IgnoreSettings): IgnoreFilter {
+    return {
+        dirs: new Set(ignore.dirs),
+        filenames: new Set(ignore.filenames),
+        extensions: new Set(ignore.extensions.map(ext => ext.replace(/^\./, '').toLowerCase())),
+        patterns: createPatternMatcher(ignore.globs),
+    };
+}
+
+function isIgnoredFile(filename: string, filter: IgnoreFilter): boolean {
+    if (filter.filenames.has(filename)) return true;
+    const ext = filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+    return ext !== '' && filter.extensions.has(ext);
+}
+
+type ReadResult =
+    | { kind: 'text'; content: string }
+    | { kind: 'binary'; content: string; type: string }
+    | { kind: 'error'; content: string; error: string }
+    // Only for transformable files, whose size is checked after transforming
+    | { kind: 'oversized' };
+
+async function readBytes(blob: { arrayBuffer(): Promise<ArrayBuffer> }): Promise<Uint8Array> {
+    return new Uint8Array(await blob.arrayBuffer());
+}
+
+// Drops a multi-byte UTF-8 sequence cut off at the end of a slice
+function trimIncompleteUtf8(bytes: Uint8Array): Uint8Array {
+    for (let i = 1; i <= Math.min(3, bytes.length); i++) {
+        const byte = bytes[bytes.length - i];
+        if ((byte & 0xc0) === 0x80) continue;
+        const sequenceLength = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+        return sequenceLength > i ? bytes.subarray(0, bytes.length - i) : bytes;
     }
+    return bytes;
+}
 
-    // *.orig.* (e.g. merge conflicts)
-    if (filename.includes('.orig.')) return true;
+// The head slice may end inside a UTF-8 sequence, which makes the whole slice invalid UTF-8.
+// Bytes are only trimmed when the trimmed slice then decodes as UTF-8; in UTF-16 text the
+// same byte values are ordinary character halves.
+function decodeHead(bytes: Uint8Array): DecodedContent {
+    const decoded = decodeContent(bytes);
+    if (decoded.kind === 'text' && decoded.encoding !== 'windows-1252') return decoded;
+    const trimmed = decodeContent(trimIncompleteUtf8(bytes));
+    return trimmed.kind === 'text' && trimmed.encoding === 'utf-8' ? trimmed : decoded;
+}
 
-    return false;
+function decodeTail(bytes: Uint8Array, encoding: string): string {
+    let start = 0;
+    if (encoding === 'utf-8') {
+        while (start < bytes.length && (bytes[start] & 0xc0) === 0x80) start++;
+    } else if (encoding.startsWith('utf-16')) {
+        start = bytes.length % 2;
+    }
+    return new TextDecoder(encoding).decode(bytes.subarray(start));
 }
 
-function isBinary(file: File): boolean {
-    if (file.type.startsWith('image/') || file.type.startsWith('video/') || file.type.startsWith('audio/')) return true;
-    const ext = file.name.split('.').pop()?.toLowerCase();
-    return ext ? BINARY_EXTENSIONS.has(ext) : false;
+function truncationBudget(options: ProcessOptions): number {
+    return options.truncation === 'head-tail' ? Math.floor(options.maxFileSize / 2) : options.maxFileSize;
 }
 
-async function readFileContent(file: File): Promise<string> {
-    if (isBinary(file)) {
-        return `[Binary content of type ${file.type || 'unknown'} not included]`;
+// Cut on line boundaries so the marker never lands in the middle of a line
+function joinTruncated(headText: string, tailText: string | undefined, budget: number, size: number): string {
+    const lastNewline = headText.lastIndexOf('\n');
+    const head = lastNewline > 0 ? headText.slice(0, lastNewline) : headText;
+    if (tailText === undefined) {
+        return `${head}\n[... truncated: showing the first ${formatFileSize(budget)} of ${formatFileSize(size)} ...]`;
     }
+    const firstNewline = tailText.indexOf('\n');
+    const tail = firstNewline !== -1 && firstNewline < tailText.length - 1 ? tailText.slice(firstNewline + 1) : tailText;
+    return `${head}\n[... truncated: ${formatFileSize(size - budget * 2)} omitted from the middle of ${formatFileSize(size)} ...]\n${tail}`;
+}
+
+async function readTruncatedContent(file: InputFile, options: ProcessOptions): Promise<ReadResult> {
+    const budget = truncationBudget(options);
+    const decoded = decodeHead(await readBytes(file.slice(0, budget)));
+    if (decoded.kind === 'binary') {
+        return { kind: 'binary', type: decoded.type, content: `[Binary file (${decoded.type}, ${formatFileSize(file.size)}) not included]` };
+    }
+    const tailText = options.truncation === 'head' ? undefined : decodeTail(await readBytes(file.slice(file.size - budget)), decoded.encoding);
+    return { kind: 'text', content: joinTruncated(decoded.text, tailText, budget, file.size) };
+}
+
+// Transformed content is already in memory, so it's cut by characters rather than bytes
+function limitTransformedContent(content: string, options: ProcessOptions): ReadResult {
+    if (content.length <= options.maxFileSize) return { kind: 'text', content };
+    if (options.truncation === 'skip') return { kind: 'oversized' };
+    const budget = truncationBudget(options);
+    const tailText = options.truncation === 'head' ? undefined : content.slice(content.length - budget);
+    return { kind: 'text', content: joinTruncated(content.slice(0, budget), tailText, budget, content.length) };
+}
+
+// A file with a transformer is read whole whatever its size, since the transformed content
+// is usually far smaller; the size limit then applies to the transformed content. If the
+// transformer doesn't apply, the size limit decides as usual.
+function isTransformable(file: InputFile, options: ProcessOptions): boolean {
+    return file.size <= MAX_TRANSFORM_INPUT_SIZE && findTransformer(file.name, options.transformers) !== undefined;
+}
+
+async function readFileContent(file: InputFile, options: ProcessOptions): Promise<ReadResult> {
     try {
-        return await file.text();
+        const transformer = file.size <= MAX_TRANSFORM_INPUT_SIZE ? findTransformer(file.name, options.transformers) : undefined;
+        if (transformer) {
+            const decoded = decodeContent(await readBytes(file));
+            if (decoded.kind === 'text') {
+                const transformed = applyTransformer(transformer, decoded.text, file.name);
+                if (transformed.kind === 'transformed') return limitTransformedContent(transformed.content, options);
+                // Unchanged or unparseable content is read as-is
+                if (file.size <= options.maxFileSize) return { kind: 'text', content: decoded.text };
+            }
+            if (file.size > options.maxFileSize && options.truncation === 'skip') return { kind: 'oversized' };
+        }
+        if (file.size > options.maxFileSize) {
+            return await readTruncatedContent(file, options);
+        }
+        const decoded = decodeContent(await readBytes(file));
+        if (decoded.kind === 'binary') {
+            return { kind: 'binary', type: decoded.type, content: `[Binary file (${decoded.type}, ${formatFileSize(file.size)}) not included]` };
+        }
+        return { kind: 'text', content: decoded.text };
     } catch (e) {
-        return `[Error reading file: ${e}]`;
+        return { kind: 'error', error: String(e), content: `[Error reading file: ${e}]` };
     }
 }
 
-async function insertFileIntoTree(tree: FileSystemTree, pathParts: string[], file: File, fullPathPrefix: string) {
+function insertFileIntoTree(tree: FileSystemTree, pathParts: string[], content: string, lastModified: number, fullPathPrefix: string) {
     if (pathParts.length === 0) return;
     
     const [currentName, ...rest] = pathParts;
     const currentPath = `${fullPathPrefix}/${currentName}`;
-    
-    // Directory level check (safety, though handled in processFileSources mostly)
-    if (rest.length > 0 && IGNORED_DIRS.has(currentName)) {
-        return;
-    }
 
     if (rest.length === 0) {
-        // File level check
-        if (isIgnoredFile(currentName)) return;
-
-        const content = await readFileContent(file);
-        tree.push({ kind: 'file', name: currentName, path: currentPath, content });
+        tree.push({ kind: 'file', name: currentName, path: currentPath, content, lastModified });
     } else {
         // It's a directory
         let dirNode = tree.find(n => n.kind === 'directory' && n.name === currentName) as DirectoryNode;
@@ -96,10 +218,24 @@ async function insertFileIntoTree(tree: FileSystemTree, pathParts: string[], fil
             dirNode = { kind: 'directory', name: currentName, path: currentPath, children: [] };
             tree.push(dirNode);
         }
-        await insertFileIntoTree(dirNode.children, rest, file, currentPath);
+        insertFileIntoTree(dirNode.children, rest, content, lastModified, currentPath);
+    }
+}
+
+// Binary files and read errors keep a placeholder in the tree but are still reported,
+// since their actual content never makes it into the output.
+function reportReadResult(result: ReadResult, path: string, skipped: SkippedEntry[]) {
+    if (result.kind === 'binary') {
+        skipped.push({ path, reason: 'binary', isDirectory: false, detail: result.type });
+    } else if (result.kind === 'error') {
+        skipped.push({ path, reason: 'read-error', isDirectory: false, detail: result.error });
     }
 }
 
+function isOversized(file: InputFile, options: ProcessOptions): boolean {
+    return options.truncation === 'skip' && file.size > options.maxFileSize && !isTransformable(file, options);
+}
+
 function sortTree(nodes: FileSystemTree) {
   nodes.sort((a, b) => {
     if (a.kind === b.kind) {
@@ -116,88 +252,326 @@ function sortTree(nodes: FileSystemTree) {
   }
 }
 
-export async function processFileSources(sources: FileSource[]): Promise<FileSystemTree> {
+export interface ProcessProgress {
+    done: number;
+    total: number;
+    currentPath: string;
+}
+
+export interface ProcessHooks {
+    signal?: AbortSignal;
+    onProgress?: (progress: ProcessProgress) => void;
+    // Maximum number of files read at the same time
+    concurrency?: number;
+}
+
+const DEFAULT_READ_CONCURRENCY = 8;
+
+// Runs `task` over `items` with at most `limit` in flight, keeping results in input order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>, signal?: AbortSignal): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            signal?.throwIfAborted();
+            const index = next++;
+            results[index] = await task(items[index]);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    signal?.throwIfAborted();
+    return results;
+}
+
+// OS metadata folders that some archivers add next to the real content
+const ARCHIVE_METADATA_DIRS = new Set(['__MACOSX']);
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+    return bytes.slice().buffer as ArrayBuffer;
+}
+
+// An archive entry as a file that is only inflated when it's read, so entries the ignore and
+// size filters drop are never extracted. Its size is the one the archive declares.
+function createArchiveEntryFile(archive: InputFile, entry: ZipEntry, name: string): InputFile {
+    const extract = () => extractZipEntry(archive, entry);
+    return {
+        name,
+        size: entry.uncompressedSize,
+        lastModified: entry.lastModified,
+        slice: (start, end) => ({ arrayBuffer: async () => toArrayBuffer((await extract()).subarray(start, end)) }),
+        arrayBuffer: async () => toArrayBuffer(await extract()),
+        text: async () => new TextDecoder().decode(await extract()),
+    };
+}
+
+// Turns an archive source into the equivalent directory source, so its entries go through
+// the same ignore and size filtering as a folder. Entries that can't be extracted show up
+// as read errors once they're read.
+async function expandArchiveSource(source: InputSource, ignoredDirs: Set<string>, signal?: AbortSignal): Promise<InputSource> {
+    const archive = source.files[0];
+    const rootName = source.name.replace(/\.zip$/i, '');
+    const expanded: InputSource = { name: rootName, kind: 'directory', files: [], relativePaths: [], prunedDirs: [] };
+
+    const entries = (await readZipEntries(archive))
+        .filter(entry => !entry.isDirectory)
+        .map(entry => ({ entry, parts: entry.path.split('/').filter(part => part && part !== '.' && part !== '..') }));
+    // Archives of a single folder, like the ones GitHub makes, would otherwise nest it twice
+    const contentEntries = entries.filter(({ parts }) => !ARCHIVE_METADATA_DIRS.has(parts[0]));
+    const sharedRoot = contentEntries[0]?.parts[0];
+    const stripsRoot = contentEntries.length > 0 && contentEntries.every(({ parts }) => parts.length > 1 && parts[0] === sharedRoot);
+
+    for (const { entry, parts: entryParts } of entries) {
+        signal?.throwIfAborted();
+        const parts = stripsRoot && entryParts[0] === sharedRoot ? entryParts.slice(1) : entryParts;
+
+        // Don't list folders that would be filtered out anyway
+        const prunedIndex = parts.slice(0, -1).findIndex(part => ignoredDirs.has(part) || ARCHIVE_METADATA_DIRS.has(part));
+        if (prunedIndex !== -1) {
+            const prunedDir = `${rootName}/${parts.slice(0, prunedIndex + 1).join('/')}`;
+            if (!expanded.prunedDirs!.includes(prunedDir)) expanded.prunedDirs!.push(prunedDir);
+            continue;
+        }
+
+        expanded.files.push(createArchiveEntryFile(archive, entry, parts[parts.length - 1]));
+        expanded.relativePaths!.push(`${rootName}/${parts.join('/')}`);
+    }
+
+    return expanded;
+}
+
+export async function processFileSource(source: InputSource, options: ProcessOptions = DEFAULT_PROCESS_OPTIONS, hooks: ProcessHooks = {}): Promise<ProcessResult> {
+    const { signal, onProgress, concurrency = DEFAULT_READ_CONCURRENCY } = hooks;
     const tree: FileSystemTree = [];
+    const skipped: SkippedEntry[] = [];
+    const reportedDirs = new Set<string>();
+    const total = source.files.length;
+    let done = 0;
 
-    for (const source of sources) {
-        if (source.kind === 'file') {
-            // Single files
-            for (const file of source.files) {
-                 if (isIgnoredFile(file.name)) continue;
-                 if (file.size > MAX_FILE_SIZE) continue;
-
-                 const content = await readFileContent(file);
-                 tree.push({ kind: 'file', name: file.name, path: file.name, content });
-            }
-        } else if (source.kind === 'directory') {
-            // Directory (flat list of files with webkitRelativePath)
-            const dirNode: DirectoryNode = {
-                kind: 'directory',
-                name: source.name,
-                path: source.name,
-                children: []
-            };
-            
-            for (const file of source.files) {
-                 const parts = file.webkitRelativePath.split('/');
-                 
-                 // Early filtering: Check if any part of the path is an ignored directory
-                 // This handles nested ignored folders efficiently
-                 const hasIgnoredDir = parts.some(part => IGNORED_DIRS.has(part));
-                 if (hasIgnoredDir) continue;
-
-                 if (isIgnoredFile(file.name)) continue;
-                 if (file.size > MAX_FILE_SIZE) continue;
-
-                 // If the first part matches the source name, we skip it to avoid nesting Root/Root/...
-                 const relativeParts = parts.length > 1 && parts[0] === source.name ? parts.slice(1) : parts;
-                 
-                 await insertFileIntoTree(dirNode.children, relativeParts, file, source.name);
+    const advance = (currentPath: string) => {
+        done++;
+        onProgress?.({ done, total, currentPath });
+    };
+
+    const reportDirectory = (path: string, reason: SkippedEntry['reason']) => {
+        if (reportedDirs.has(path)) return;
+        reportedDirs.add(path);
+        skipped.push({ path, reason, isDirectory: true });
+    };
+
+    signal?.throwIfAborted();
+    const filter = createIgnoreFilter(options.ignore);
+
+    if (source.kind === 'archive') {
+        return processFileSource(await expandArchiveSource(source, filter.dirs, signal), options, hooks);
+    }
+
+    if (source.kind === 'file') {
+        // Single files
+        const candidates: InputFile[] = [];
+        for (const file of source.files) {
+             if (isIgnoredFile(file.name, filter) || filter.patterns.isIgnored(file.name, false)) {
+                 skipped.push({ path: file.name, reason: 'ignored-name', isDirectory: false });
+                 advance(file.name);
+                 continue;
+             }
+             if (isOversized(file, options)) {
+                 skipped.push({ path: file.name, reason: 'size', isDirectory: false, detail: formatFileSize(file.size) });
+                 advance(file.name);
+                 continue;
+             }
+             candidates.push(file);
+        }
+
+        const results = await mapWithConcurrency(candidates, concurrency, async file => {
+            const result = await readFileContent(file, options);
+            advance(file.name);
+            return result;
+        }, signal);
+
+        candidates.forEach((file, i) => {
+            const result = results[i];
+            if (result.kind === 'oversized') {
+                skipped.push({ path: file.name, reason: 'size', isDirectory: false, detail: formatFileSize(file.size) });
+                return;
             }
-            sortTree(dirNode.children);
-            tree.push(dirNode);
+            reportReadResult(result, file.name, skipped);
+            tree.push({ kind: 'file', name: file.name, path: file.name, content: result.content, lastModified: file.lastModified });
+        });
+    } else if (source.kind === 'directory') {
+        // Directory (flat list of files with their paths in relativePaths)
+        const dirNode: DirectoryNode = {
+            kind: 'directory',
+            name: source.name,
+            path: source.name,
+            children: []
+        };
+        
+        const candidates: Array<{ file: InputFile; relativeParts: string[] }> = [];
+        const ignoreFiles = new Map<string, string>();
+
+        for (const prunedDir of source.prunedDirs ?? []) {
+             reportDirectory(prunedDir, 'ignored-dir');
         }
+
+        for (const [index, file] of source.files.entries()) {
+             const parts = (source.relativePaths?.[index] ?? file.name).split('/');
+
+             // If the first part matches the source name, we skip it to avoid nesting Root/Root/...
+             const relativeParts = parts.length > 1 && parts[0] === source.name ? parts.slice(1) : parts;
+             const path = `${source.name}/${relativeParts.join('/')}`;
+             
+             // Early filtering: Check if any part of the path is an ignored directory
+             // This handles nested ignored folders efficiently
+             const ignoredIndex = relativeParts.findIndex(part => filter.dirs.has(part));
+             if (ignoredIndex !== -1) {
+                 if (ignoredIndex === relativeParts.length - 1) {
+                     skipped.push({ path, reason: 'ignored-name', isDirectory: false });
+                 } else {
+                     reportDirectory(`${source.name}/${relativeParts.slice(0, ignoredIndex + 1).join('/')}`, 'ignored-dir');
+                 }
+                 advance(path);
+                 continue;
+             }
+
+             if (IGNORE_FILENAMES.includes(file.name)) {
+                 ignoreFiles.set(relativeParts.join('/'), await file.text());
+             }
+
+             const relativePath = relativeParts.join('/');
+             if (filter.patterns.isIgnored(relativePath, false)) {
+                 const ignoredDepth = relativeParts.slice(0, -1).findIndex((_, i) => filter.patterns.isIgnored(relativeParts.slice(0, i + 1).join('/'), true));
+                 if (ignoredDepth !== -1) {
+                     reportDirectory(`${source.name}/${relativeParts.slice(0, ignoredDepth + 1).join('/')}`, 'ignored-dir');
+                 } else {
+                     skipped.push({ path, reason: 'ignored-name', isDirectory: false });
+                 }
+                 advance(path);
+                 continue;
+             }
+
+             if (isIgnoredFile(file.name, filter)) {
+                 skipped.push({ path, reason: 'ignored-name', isDirectory: false });
+                 advance(path);
+                 continue;
+             }
+
+             candidates.push({ file, relativeParts });
+        }
+
+        // Ignore files can appear anywhere in the listing, so match only once all are read
+        const matcher = createIgnoreMatcher(ignoreFiles);
+        const toRead: Array<{ file: InputFile; relativeParts: string[]; path: string }> = [];
+
+        for (const { file, relativeParts } of candidates) {
+             const relativePath = relativeParts.join('/');
+             const path = `${source.name}/${relativePath}`;
+
+             if (matcher.isIgnored(relativePath, false)) {
+                 // Report the outermost ignored folder once instead of every file inside it
+                 const ignoredDepth = relativeParts.slice(0, -1).findIndex((_, i) => matcher.isIgnored(relativeParts.slice(0, i + 1).join('/'), true));
+                 if (ignoredDepth !== -1) {
+                     reportDirectory(`${source.name}/${relativeParts.slice(0, ignoredDepth + 1).join('/')}`, 'gitignore');
+                 } else {
+                     skipped.push({ path, reason: 'gitignore', isDirectory: false });
+                 }
+                 advance(path);
+                 continue;
+             }
+             if (isOversized(file, options)) {
+                 skipped.push({ path, reason: 'size', isDirectory: false, detail: formatFileSize(file.size) });
+                 advance(path);
+                 continue;
+             }
+             toRead.push({ file, relativeParts, path });
+        }
+
+        const results = await mapWithConcurrency(toRead, concurrency, async ({ file, path }) => {
+            const result = await readFileContent(file, options);
+            advance(path);
+            return result;
+        }, signal);
+
+        toRead.forEach(({ file, relativeParts, path }, i) => {
+            const result = results[i];
+            if (result.kind === 'oversized') {
+                skipped.push({ path, reason: 'size', isDirectory: false, detail: formatFileSize(file.size) });
+                return;
+            }
+            reportReadResult(result, path, skipped);
+            insertFileIntoTree(dirNode.children, relativeParts, result.content, file.lastModified, source.name);
+        });
+        sortTree(dirNode.children);
+        tree.push(dirNode);
     }
-    
+
+    return { tree, skipped };
+}
+
+// Combines per-source results into a single sorted tree and report
+export function mergeProcessResults(results: ProcessResult[]): ProcessResult {
+    const tree: FileSystemTree = results.flatMap(result => result.tree);
+    const skipped: SkippedEntry[] = results.flatMap(result => result.skipped);
+    const sourceOrder = tree.map(node => node.path);
+
     sortTree(tree);
-    return tree;
-}
-
-// Structure generation strings
-function generateStructureStringRecursive(nodes: FileSystemTree, prefix = ''): string {
-    let structure = '';
-    nodes.forEach((node, index) => {
-        const isLast = index === nodes.length - 1;
-        const connector = isLast ? '└── ' : '├── ';
-        const newPrefix = prefix + (isLast ? '    ' : '│   ');
-        structure += `${prefix}${connector}${node.name}\n`;
-        if (node.kind === 'directory') {
-            structure += generateStructureStringRecursive(node.children, newPrefix);
-        }
-    });
-    return structure;
+    skipped.sort((a, b) => a.path.localeCompare(b.path));
+    return { tree, skipped, sourceOrder };
 }
 
-export function generateStructureString(tree: FileSystemTree): string {
-    return tree.map(node => `${node.name}\n${node.kind === 'directory' ? generateStructureStringRecursive(node.children, '') : ''}`).join('');
+export async function processFileSources(sources: InputSource[], options: ProcessOptions = DEFAULT_PROCESS_OPTIONS, hooks: ProcessHooks = {}): Promise<ProcessResult> {
+    const results: ProcessResult[] = [];
+    for (const source of sources) {
+        results.push(await processFileSource(source, options, hooks));
+    }
+    return mergeProcessResults(results);
 }
 
-function generateContentStringRecursive(nodes: FileSystemTree): string {
-    let content = '';
+export function generateStructureString(tree: FileSystemTree, excludedPaths: Set<string> = new Set(), structure?: StructureInput): string {
+    return formatStructureLines(buildStructureLines(filterTree(tree, excludedPaths), structure));
+}
+
+function collectOutputFiles(nodes: FileSystemTree, files: OutputFile[] = []): OutputFile[] {
     for (const node of nodes) {
         if (node.kind === 'file') {
-            content += `\n\n# -------- FILE: ${node.path} --------\n\n`;
-            content += '```\n';
-            content += node.content;
-            content += '\n```';
+            files.push({ path: node.path, content: node.content });
         } else if (node.kind === 'directory') {
-            content += generateContentStringRecursive(node.children);
+            collectOutputFiles(node.children, files);
         }
     }
-    return content;
+    return files;
+}
+
+export function generateContentString(tree: FileSystemTree, excludedPaths: Set<string> = new Set(), format: OutputFormat = 'markdown'): string {
+    const files = collectOutputFiles(filterTree(tree, excludedPaths));
+    return getFormatter(format).formatFiles(files).trim();
+}
+
+export interface OutputDocumentOptions {
+    excludedPaths?: Set<string>;
+    template?: OutputTemplate;
+    diff?: string;
+    // Annotations and omitted entries for the structure section, see structure.service
+    structure?: StructureInput;
+}
+
+export interface GenerateOutputOptions extends OutputDocumentOptions {
+    format?: OutputFormat;
+}
+
+// A template brings its own introduction, so the default preamble is only used without one
+export function buildOutputDocument(tree: FileSystemTree, { excludedPaths = new Set(), template, diff, structure }: OutputDocumentOptions = {}): OutputDocument {
+    const filtered = filterTree(tree, excludedPaths);
+    return {
+        preamble: template ? '' : DEFAULT_PREAMBLE,
+        structure: generateStructureString(filtered, new Set(), structure),
+        diff,
+        files: collectOutputFiles(filtered),
+        template,
+    };
 }
 
-export function generateContentString(tree: FileSystemTree): string {
-    const content = generateContentStringRecursive(tree);
-    return content.trim();
+export function generateOutput(tree: FileSystemTree, { format = 'markdown', ...documentOptions }: GenerateOutputOptions = {}): string {
+    return getFormatter(format).formatDocument(buildOutputDocument(tree, documentOptions));
 }
@@ -0,0 +1,43 @@
+/// <reference lib="webworker" />
+import type { FileSource, ProcessResult } from '../types';
+import { processFileSource, type ProcessOptions, type ProcessProgress } from './file.service';
+
+export type WorkerRequest =
+    | { type: 'process'; requestId: number; source: FileSource; options: ProcessOptions }
+    | { type: 'cancel'; requestId: number };
+
+export type WorkerResponse =
+    | { type: 'progress'; requestId: number; progress: ProcessProgress }
+    | { type: 'result'; requestId: number; result: ProcessResult }
+    | { type: 'error'; requestId: number; message: string; aborted: boolean };
+
+const controllers = new Map<number, AbortController>();
+
+function post(message: WorkerResponse) {
+    self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+    const request = event.data;
+
+    if (request.type === 'cancel') {
+        controllers.get(request.requestId)?.abort();
+        return;
+    }
+
+    const { requestId, source, options } = request;
+    const controller = new AbortController();
+    controllers.set(requestId, controller);
+
+    try {
+        const result = await processFileSource(source, options, {
+            signal: controller.signal,
+            onProgress: progress => post({ type: 'progress', requestId, progress }),
+        });
+        post({ type: 'result', requestId, result });
+    } catch (e) {
+        post({ type: 'error', requestId, message: String(e), aborted: controller.signal.aborted });
+    } finally {
+        controllers.delete(requestId);
+    }
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { getFormatter } from './format.service';
+
+// What an XML parser reads back from consecutive CDATA sections
+function readCdata(xml: string): string {
+    return Array.from(xml.matchAll(/<!\[CDATA\[([\s\S]*?)\]\]>/g), match => match[1]).join('');
+}
+
+describe('xml formatter', () => {
+    const xml = getFormatter('xml');
+
+    it('keeps markup in file contents inside the file element', () => {
+        const content = 'a </file>\n<file path="evil">x</file> & b';
+        const output = xml.formatFiles([{ path: 'a.txt', content }]);
+        expect(output.startsWith('<file path="a.txt"><![CDATA[')).toBe(true);
+        expect(output.endsWith(']]></file>')).toBe(true);
+        expect(readCdata(output)).toBe(`\n${content}\n`);
+    });
+
+    it('splits CDATA terminators in the content', () => {
+        const content = 'x = a[b[0]]>1; y = "]]>"';
+        const output = xml.formatFiles([{ path: 'a.ts', content }]);
+        expect(output.match(/\]\]>/g)).toHaveLength(3);
+        expect(readCdata(output)).toBe(`\n${content}\n`);
+    });
+
+    it('escapes the path attribute', () => {
+        expect(xml.formatFiles([{ path: 'a"<&>.txt', content: '' }])).toContain('path="a&quot;&lt;&amp;&gt;.txt"');
+    });
+
+    it('wraps the directory structure so markup in file names stays text', () => {
+        const structure = 'app\n└── a<b & c.ts';
+        const section = xml.formatStructureSection(structure);
+        expect(section.startsWith('<directory_structure><![CDATA[')).toBe(true);
+        expect(readCdata(section)).toBe(`\n${structure}\n`);
+    });
+
+    it('wraps the diff the same way', () => {
+        const diff = '+ </diff>]]>';
+        expect(readCdata(xml.formatDiffSection(diff))).toBe(`\n${diff}\n`);
+    });
+});
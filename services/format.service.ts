@@ -0,0 +1,196 @@
+import { renderTemplate } from './template.service';
+
+export type OutputFormat = 'markdown' | 'xml' | 'json' | 'plain';
+
+export interface OutputFile {
+    path: string;
+    content: string;
+}
+
+// A prompt template laid out around the structure and file sections, see template.service
+export interface OutputTemplate {
+    body: string;
+    variables: Record<string, string>;
+}
+
+export interface OutputDocument {
+    preamble: string;
+    // The structure section is left out when this is undefined
+    structure?: string;
+    // A pasted diff the output is centered on, see diff.service; left out when undefined
+    diff?: string;
+    files: OutputFile[];
+    template?: OutputTemplate;
+}
+
+export interface OutputFormatter {
+    id: OutputFormat;
+    label: string;
+    extension: string;
+    mimeType: string;
+    formatFiles(files: OutputFile[]): string;
+    formatStructureSection(structure: string): string;
+    formatDiffSection(diff: string): string;
+    formatFilesSection(files: OutputFile[]): string;
+    formatDocument(document: OutputDocument): string;
+}
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+    ts: 'typescript', tsx: 'tsx', js: 'javascript', jsx: 'jsx', mjs: 'javascript', cjs: 'javascript',
+    json: 'json', md: 'markdown', css: 'css', scss: 'scss', html: 'html', xml: 'xml', svg: 'xml',
+    py: 'python', rb: 'ruby', go: 'go', rs: 'rust', java: 'java', kt: 'kotlin', swift: 'swift',
+    c: 'c', h: 'c', cpp: 'cpp', hpp: 'cpp', cs: 'csharp', php: 'php', sh: 'bash', yml: 'yaml', yaml: 'yaml',
+    toml: 'toml', sql: 'sql', vue: 'vue', svelte: 'svelte', dart: 'dart',
+};
+
+export function getLanguage(path: string): string {
+    const name = path.split('/').pop() ?? '';
+    const ext = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+    return LANGUAGE_BY_EXTENSION[ext] ?? '';
+}
+
+// A fence has to be longer than any backtick run inside the block, otherwise the content can close it early
+export function pickFence(content: string): string {
+    const longestRun = Math.max(0, ...Array.from(content.matchAll(/`+/g), match => match[0].length));
+    return '`'.repeat(Math.max(3, longestRun + 1));
+}
+
+// Without a template the sections simply follow the preamble. Empty parts are skipped so a
+// template-only document doesn't start with blank lines.
+function layoutDocument(formatter: OutputFormatter, { preamble, structure, diff, files, template }: OutputDocument): string {
+    const sections = {
+        structure: structure !== undefined ? formatter.formatStructureSection(structure) : '',
+        diff: diff !== undefined ? formatter.formatDiffSection(diff) : '',
+        files: formatter.formatFilesSection(files),
+    };
+    const body = template
+        ? renderTemplate(template.body, { ...template.variables, ...sections })
+        : [sections.structure, sections.diff, sections.files].filter(Boolean).join('\n\n');
+    return [preamble, body].filter(Boolean).join('\n\n');
+}
+
+function escapeXmlAttribute(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/"/g, '&quot;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
+
+// File contents and diffs are arbitrary text, so they go in CDATA sections, which can hold
+// anything but their own terminator; each `]]>` is split across two sections
+function wrapCdata(text: string): string {
+    return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+const markdownFormatter: OutputFormatter = {
+    id: 'markdown',
+    label: 'Markdown',
+    extension: 'md',
+    mimeType: 'text/markdown',
+    formatFiles(files) {
+        return files.map(file => {
+            const fence = pickFence(file.content);
+            return `# -------- FILE: ${file.path} --------\n\n${fence}${getLanguage(file.path)}\n${file.content}\n${fence}`;
+        }).join('\n\n');
+    },
+    formatStructureSection(structure) {
+        const fence = pickFence(structure);
+        return `# DIRECTORY STRUCTURE\n\n${fence}\n${structure.trim()}\n${fence}`;
+    },
+    formatDiffSection(diff) {
+        const fence = pickFence(diff);
+        return `# DIFF\n\n${fence}diff\n${diff.trim()}\n${fence}`;
+    },
+    formatFilesSection(files) {
+        return `# FILE CONTENTS\n${this.formatFiles(files)}`;
+    },
+    formatDocument(document) {
+        return layoutDocument(this, document);
+    },
+};
+
+const xmlFormatter: OutputFormatter = {
+    id: 'xml',
+    label: 'XML tags',
+    extension: 'xml',
+    mimeType: 'application/xml',
+    formatFiles(files) {
+        return files.map(file => `<file path="${escapeXmlAttribute(file.path)}">${wrapCdata(`\n${file.content}\n`)}</file>`).join('\n');
+    },
+    formatStructureSection(structure) {
+        // File names may contain markup characters too
+        return `<directory_structure>${wrapCdata(`\n${structure.trim()}\n`)}</directory_structure>`;
+    },
+    formatDiffSection(diff) {
+        return `<diff>${wrapCdata(`\n${diff.trim()}\n`)}</diff>`;
+    },
+    formatFilesSection(files) {
+        return `<files>\n${this.formatFiles(files)}\n</files>`;
+    },
+    formatDocument(document) {
+        return layoutDocument(this, document);
+    },
+};
+
+const jsonFormatter: OutputFormatter = {
+    id: 'json',
+    label: 'JSON',
+    extension: 'json',
+    mimeType: 'application/json',
+    formatFiles(files) {
+        return JSON.stringify(files, null, 2);
+    },
+    formatStructureSection(structure) {
+        return JSON.stringify(structure.trim());
+    },
+    formatDiffSection(diff) {
+        return JSON.stringify(diff.trim());
+    },
+    formatFilesSection(files) {
+        return this.formatFiles(files);
+    },
+    // JSON keeps its shape: the template's text, minus the sections, becomes the description
+    formatDocument({ preamble, structure, diff, files, template }) {
+        const templateText = template ? renderTemplate(template.body, { ...template.variables, structure: '', diff: '', files: '' }).trim() : '';
+        const description = [preamble, templateText].filter(Boolean).join('\n\n');
+        return JSON.stringify({ description, structure: structure?.trim(), diff: diff?.trim(), files }, null, 2);
+    },
+};
+
+const plainFormatter: OutputFormatter = {
+    id: 'plain',
+    label: 'Plain text',
+    extension: 'txt',
+    mimeType: 'text/plain',
+    formatFiles(files) {
+        return files.map(file => `===== ${file.path} =====\n${file.content}`).join('\n\n');
+    },
+    formatStructureSection(structure) {
+        return `DIRECTORY STRUCTURE\n\n${structure.trim()}`;
+    },
+    formatDiffSection(diff) {
+        return `DIFF\n\n${diff.trim()}`;
+    },
+    formatFilesSection(files) {
+        return `FILE CONTENTS\n\n${this.formatFiles(files)}`;
+    },
+    formatDocument(document) {
+        return layoutDocument(this, document);
+    },
+};
+
+export const OUTPUT_FORMATTERS: Record<OutputFormat, OutputFormatter> = {
+    markdown: markdownFormatter,
+    xml: xmlFormatter,
+    json: jsonFormatter,
+    plain: plainFormatter,
+};
+
+export function isOutputFormat(value: unknown): value is OutputFormat {
+    return typeof value === 'string' && value in OUTPUT_FORMATTERS;
+}
+
+export function getFormatter(format: OutputFormat): OutputFormatter {
+    return OUTPUT_FORMATTERS[format];
+}
@@ -0,0 +1,54 @@
+import { getCodeSyntax, splitCodeSegments, type CodeSyntax } from './lexer.service';
+
+// Light syntax highlighting for the output viewer. Comments and literals come from the
+// lexer; inside code only keywords and numbers are picked out, which is enough to make a
+// long output readable without shipping a grammar per language.
+
+export type HighlightKind = 'plain' | 'keyword' | 'number' | 'comment' | 'literal';
+
+export interface HighlightToken {
+    kind: HighlightKind;
+    text: string;
+}
+
+// Reserved words of the languages the lexer knows, merged; a word that is a keyword in one
+// language and an identifier in another is rare enough not to matter for highlighting
+const KEYWORDS = new Set([
+    'abstract', 'and', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'def', 'default',
+    'defer', 'del', 'delete', 'do', 'elif', 'else', 'enum', 'except', 'export', 'extends', 'false', 'False', 'final',
+    'finally', 'fn', 'for', 'from', 'func', 'function', 'global', 'go', 'if', 'impl', 'implements', 'import', 'in',
+    'instanceof', 'interface', 'is', 'lambda', 'let', 'match', 'mod', 'mut', 'namespace', 'new', 'nil', 'None', 'not',
+    'null', 'or', 'override', 'package', 'pass', 'private', 'protected', 'pub', 'public', 'raise', 'readonly', 'return',
+    'self', 'static', 'struct', 'super', 'switch', 'this', 'throw', 'throws', 'trait', 'true', 'True', 'try', 'type',
+    'typeof', 'undefined', 'use', 'using', 'val', 'var', 'void', 'when', 'where', 'while', 'with', 'yield',
+]);
+
+const JSON_SYNTAX: CodeSyntax = { line: [], quotes: ['"'] };
+const WORD = /[A-Za-z_$][\w$]*|\d[\w.]*|[^A-Za-z_$\d]+/g;
+
+function tokenizeCode(text: string): HighlightToken[] {
+    return Array.from(text.matchAll(WORD), ([word]) => ({
+        kind: KEYWORDS.has(word) ? 'keyword' : /^\d/.test(word) ? 'number' : 'plain',
+        text: word,
+    }));
+}
+
+// One token list per line of the content. Languages the lexer doesn't know come back plain.
+export function highlightLines(content: string, path: string): HighlightToken[][] {
+    const syntax = getCodeSyntax(path) ?? (path.toLowerCase().endsWith('.json') ? JSON_SYNTAX : undefined);
+    if (!syntax || syntax === 'markup') return content.split('\n').map(text => [{ kind: 'plain', text }]);
+
+    const lines: HighlightToken[][] = [[]];
+    for (const segment of splitCodeSegments(content, syntax)) {
+        const text = content.slice(segment.start, segment.end);
+        const tokens = segment.kind === 'code' ? tokenizeCode(text) : [{ kind: segment.kind, text } as HighlightToken];
+        for (const token of tokens) {
+            // Block comments, literals and whitespace runs can span lines
+            token.text.split('\n').forEach((part, index) => {
+                if (index > 0) lines.push([]);
+                if (part) lines[lines.length - 1].push({ kind: token.kind, text: part });
+            });
+        }
+    }
+    return lines;
+}
@@ -0,0 +1,67 @@
+// Minimal promise wrapper around IndexedDB for the handful of object stores the app persists.
+
+const DB_NAME = 'context-maker';
+const DB_VERSION = 2;
+
+export const STORES = {
+    workspaceHandles: 'workspace-handles',
+    snapshots: 'snapshots',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                for (const store of Object.values(STORES)) {
+                    if (!db.objectStoreNames.contains(store)) {
+                        db.createObjectStore(store, { keyPath: 'id' });
+                    }
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+async function withStore<T>(store: StoreName, mode: IDBTransactionMode, run: (objectStore: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    return requestToPromise(run(db.transaction(store, mode).objectStore(store)));
+}
+
+export function isIndexedDbAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+}
+
+export function getAllRecords<T>(store: StoreName): Promise<T[]> {
+    return withStore(store, 'readonly', objectStore => objectStore.getAll() as IDBRequest<T[]>);
+}
+
+export async function putRecord<T extends { id: string }>(store: StoreName, record: T): Promise<void> {
+    await withStore(store, 'readwrite', objectStore => objectStore.put(record));
+}
+
+export async function deleteRecord(store: StoreName, id: string): Promise<void> {
+    await withStore(store, 'readwrite', objectStore => objectStore.delete(id));
+}
+
+export async function clearStore(store: StoreName): Promise<void> {
+    await withStore(store, 'readwrite', objectStore => objectStore.clear());
+}
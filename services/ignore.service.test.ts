@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { createIgnoreMatcher, createPatternMatcher } from './ignore.service';
+
+describe('createPatternMatcher', () => {
+    it('matches unanchored patterns at any depth', () => {
+        const matcher = createPatternMatcher(['*.log']);
+        expect(matcher.isIgnored('debug.log', false)).toBe(true);
+        expect(matcher.isIgnored('src/deep/debug.log', false)).toBe(true);
+        expect(matcher.isIgnored('src/debug.ts', false)).toBe(false);
+    });
+
+    it('anchors patterns with a slash to the root', () => {
+        const matcher = createPatternMatcher(['/build', 'docs/*.md']);
+        expect(matcher.isIgnored('build', true)).toBe(true);
+        expect(matcher.isIgnored('src/build', true)).toBe(false);
+        expect(matcher.isIgnored('docs/intro.md', false)).toBe(true);
+        expect(matcher.isIgnored('docs/guide/intro.md', false)).toBe(false);
+    });
+
+    it('supports ** across directories', () => {
+        const matcher = createPatternMatcher(['src/**/*.test.ts', 'vendor/**']);
+        expect(matcher.isIgnored('src/a.test.ts', false)).toBe(true);
+        expect(matcher.isIgnored('src/a/b/c.test.ts', false)).toBe(true);
+        expect(matcher.isIgnored('vendor/lib/index.js', false)).toBe(true);
+    });
+
+    it('applies directory-only rules to directories and their contents', () => {
+        const matcher = createPatternMatcher(['cache/']);
+        expect(matcher.isIgnored('cache', false)).toBe(false);
+        expect(matcher.isIgnored('cache', true)).toBe(true);
+        expect(matcher.isIgnored('cache/data.json', false)).toBe(true);
+    });
+
+    it('lets the last matching rule win', () => {
+        const matcher = createPatternMatcher(['*.md', '!README.md']);
+        expect(matcher.isIgnored('notes.md', false)).toBe(true);
+        expect(matcher.isIgnored('README.md', false)).toBe(false);
+    });
+
+    it('cannot re-include a file inside an ignored directory', () => {
+        const matcher = createPatternMatcher(['logs/', '!logs/keep.txt']);
+        expect(matcher.isIgnored('logs/keep.txt', false)).toBe(true);
+    });
+
+    it('skips comments and blank lines and honors escapes', () => {
+        const matcher = createPatternMatcher(['# comment', '', '\\#hash', '\\!bang']);
+        expect(matcher.isIgnored('comment', false)).toBe(false);
+        expect(matcher.isIgnored('#hash', false)).toBe(true);
+        expect(matcher.isIgnored('!bang', false)).toBe(true);
+    });
+});
+
+describe('createIgnoreMatcher', () => {
+    it('scopes rules to the directory of the ignore file', () => {
+        const matcher = createIgnoreMatcher(new Map([['packages/app/.gitignore', 'out']]));
+        expect(matcher.isIgnored('packages/app/out', true)).toBe(true);
+        expect(matcher.isIgnored('out', true)).toBe(false);
+    });
+
+    it('lets deeper files override shallower ones', () => {
+        const matcher = createIgnoreMatcher(new Map([
+            ['src/.gitignore', '!generated.ts'],
+            ['.gitignore', 'generated.ts'],
+        ]));
+        expect(matcher.isIgnored('generated.ts', false)).toBe(true);
+        expect(matcher.isIgnored('src/generated.ts', false)).toBe(false);
+    });
+
+    it('applies .contextignore after .gitignore in the same directory', () => {
+        const matcher = createIgnoreMatcher(new Map([
+            ['.contextignore', '!.env.example'],
+            ['.gitignore', '.env*'],
+        ]));
+        expect(matcher.isIgnored('.env', false)).toBe(true);
+        expect(matcher.isIgnored('.env.example', false)).toBe(false);
+    });
+});
@@ -0,0 +1,196 @@
+// Gitignore-compatible matching for files inside a directory source.
+// Rules are scoped to the directory holding the ignore file, deeper files take
+// precedence over shallower ones and, within a file, the last matching rule wins.
+
+export const IGNORE_FILENAMES = ['.gitignore', '.contextignore'];
+
+interface IgnoreRule {
+    negated: boolean;
+    dirOnly: boolean;
+    regex: RegExp;
+}
+
+interface IgnoreRuleSet {
+    // Directory the ignore file lives in, relative to the source root ('' for the root itself)
+    baseDir: string;
+    // Position of the ignore file's name in IGNORE_FILENAMES, used to order files in the same directory
+    order: number;
+    rules: IgnoreRule[];
+}
+
+export interface IgnoreMatcher {
+    isIgnored(path: string, isDirectory: boolean): boolean;
+}
+
+function escapeRegex(char: string): string {
+    return /[.*+?^${}()|[\]\\]/.test(char) ? `\\${char}` : char;
+}
+
+function globToRegexSource(glob: string): string {
+    let source = '';
+    let i = 0;
+
+    while (i < glob.length) {
+        const char = glob[i];
+
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                const atStart = i === 0 || glob[i - 1] === '/';
+                const atEnd = i + 2 === glob.length;
+                const followedBySlash = glob[i + 2] === '/';
+
+                if (atStart && followedBySlash) {
+                    // "**/" matches zero or more directories
+                    source += '(?:.*/)?';
+                    i += 3;
+                    continue;
+                }
+                if (atStart && atEnd) {
+                    // trailing "/**" matches everything inside
+                    source += '.*';
+                    i += 2;
+                    continue;
+                }
+                // Any other "**" behaves like a regular "*"
+                source += '[^/]*';
+                i += 2;
+                continue;
+            }
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const close = glob.indexOf(']', i + 2);
+            if (close === -1) {
+                source += '\\[';
+            } else {
+                let body = glob.slice(i + 1, close);
+                if (body.startsWith('!')) body = `^${body.slice(1)}`;
+                source += `[${body.replace(/\\/g, '\\\\')}]`;
+                i = close;
+            }
+        } else if (char === '\\' && i + 1 < glob.length) {
+            i++;
+            source += escapeRegex(glob[i]);
+        } else {
+            source += escapeRegex(char);
+        }
+        i++;
+    }
+
+    return source;
+}
+
+function parseIgnoreLine(line: string): IgnoreRule | null {
+    // Trailing spaces are ignored unless escaped with a backslash
+    let pattern = line.replace(/(?<!\\)\s+$/, '');
+    if (!pattern || pattern.startsWith('#')) return null;
+
+    let negated = false;
+    if (pattern.startsWith('!')) {
+        negated = true;
+        pattern = pattern.slice(1);
+    } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+        pattern = pattern.slice(1);
+    }
+
+    let dirOnly = false;
+    if (pattern.endsWith('/')) {
+        dirOnly = true;
+        pattern = pattern.slice(0, -1);
+    }
+    if (!pattern) return null;
+
+    // A slash at the start or in the middle anchors the pattern to the ignore file's directory
+    const anchored = pattern.includes('/');
+    if (pattern.startsWith('/')) pattern = pattern.slice(1);
+
+    const body = globToRegexSource(pattern);
+    const regex = new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`);
+
+    return { negated, dirOnly, regex };
+}
+
+export function parseIgnoreFile(content: string): IgnoreRule[] {
+    return content
+        .split(/\r?\n/)
+        .map(parseIgnoreLine)
+        .filter((rule): rule is IgnoreRule => rule !== null);
+}
+
+function ruleSetApplies(ruleSet: IgnoreRuleSet, path: string): boolean {
+    return ruleSet.baseDir === '' || path.startsWith(`${ruleSet.baseDir}/`);
+}
+
+function matchRuleSets(ruleSets: IgnoreRuleSet[], path: string, isDirectory: boolean): boolean | undefined {
+    let result: boolean | undefined;
+
+    for (const ruleSet of ruleSets) {
+        if (!ruleSetApplies(ruleSet, path)) continue;
+        const relative = ruleSet.baseDir ? path.slice(ruleSet.baseDir.length + 1) : path;
+
+        for (const rule of ruleSet.rules) {
+            if (rule.dirOnly && !isDirectory) continue;
+            if (rule.regex.test(relative)) {
+                result = !rule.negated;
+            }
+        }
+    }
+
+    return result;
+}
+
+// `ignoreFiles` maps the path of each ignore file (relative to the source root) to its content.
+export function createIgnoreMatcher(ignoreFiles: Map<string, string>): IgnoreMatcher {
+    const ruleSets: IgnoreRuleSet[] = [];
+
+    for (const [filePath, content] of ignoreFiles) {
+        const slash = filePath.lastIndexOf('/');
+        const baseDir = slash === -1 ? '' : filePath.slice(0, slash);
+        const fileName = filePath.slice(slash + 1);
+        ruleSets.push({ baseDir, order: IGNORE_FILENAMES.indexOf(fileName), rules: parseIgnoreFile(content) });
+    }
+
+    // Shallower directories first so deeper rules override them, .contextignore after .gitignore
+    ruleSets.sort((a, b) => {
+        const depthA = a.baseDir ? a.baseDir.split('/').length : 0;
+        const depthB = b.baseDir ? b.baseDir.split('/').length : 0;
+        if (depthA !== depthB) return depthA - depthB;
+        return a.order - b.order;
+    });
+
+    return createRuleSetMatcher(ruleSets);
+}
+
+// Patterns that don't come from an ignore file, like the globs in a preset, apply from the source root
+export function createPatternMatcher(patterns: string[]): IgnoreMatcher {
+    return createRuleSetMatcher([{ baseDir: '', order: 0, rules: parseIgnoreFile(patterns.join('\n')) }]);
+}
+
+function createRuleSetMatcher(ruleSets: IgnoreRuleSet[]): IgnoreMatcher {
+    const directoryCache = new Map<string, boolean>();
+
+    const isDirectoryIgnored = (dirPath: string): boolean => {
+        const cached = directoryCache.get(dirPath);
+        if (cached !== undefined) return cached;
+
+        // Git never looks inside an excluded directory, so a parent match can't be negated
+        const slash = dirPath.lastIndexOf('/');
+        const ignored = (slash !== -1 && isDirectoryIgnored(dirPath.slice(0, slash)))
+            || matchRuleSets(ruleSets, dirPath, true) === true;
+
+        directoryCache.set(dirPath, ignored);
+        return ignored;
+    };
+
+    return {
+        isIgnored(path: string, isDirectory: boolean): boolean {
+            if (ruleSets.length === 0) return false;
+            if (isDirectory) return isDirectoryIgnored(path);
+
+            const slash = path.lastIndexOf('/');
+            if (slash !== -1 && isDirectoryIgnored(path.slice(0, slash))) return true;
+            return matchRuleSets(ruleSets, path, false) === true;
+        }
+    };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { FileNode, FileSystemTree } from '../types';
+import { createImportResolver, parseImports } from './import.service';
+
+const tree = (files: Record<string, string>): FileSystemTree =>
+    Object.entries(files).map(([path, content]): FileNode => ({ kind: 'file', name: path.split('/').pop()!, path, content }));
+
+describe('parseImports', () => {
+    it('finds static, dynamic and re-export specifiers but not ones in comments', () => {
+        const content = [
+            "import a from './a';",
+            "export * from './b';",
+            "const c = await import('./c');",
+            "// import d from './d';",
+        ].join('\n');
+        expect(parseImports(content, 'app/index.ts')).toEqual(['./a', './b', './c']);
+    });
+});
+
+describe('createImportResolver', () => {
+    it('resolves relative imports with extension and index lookup', () => {
+        const resolver = createImportResolver(tree({ 'app/index.ts': '', 'app/util.ts': '', 'app/lib/index.tsx': '' }));
+        expect(resolver.resolve('app/index.ts', './util')).toEqual({ kind: 'resolved', path: 'app/util.ts' });
+        expect(resolver.resolve('app/index.ts', './lib')).toEqual({ kind: 'resolved', path: 'app/lib/index.tsx' });
+        expect(resolver.resolve('app/index.ts', './missing')).toEqual({ kind: 'unresolved' });
+        expect(resolver.resolve('app/index.ts', 'react')).toEqual({ kind: 'external' });
+    });
+
+    it('follows tsconfig paths and baseUrl, comments and trailing commas included', () => {
+        const resolver = createImportResolver(tree({
+            'app/tsconfig.json': '{\n  // aliases\n  "compilerOptions": { "baseUrl": "src", "paths": { "@/*": ["./*"], }, },\n}',
+            'app/src/main.ts': '',
+            'app/src/components/Button.tsx': '',
+        }));
+        expect(resolver.resolve('app/src/main.ts', '@/components/Button')).toEqual({ kind: 'resolved', path: 'app/src/components/Button.tsx' });
+        expect(resolver.resolve('app/src/main.ts', 'components/Button')).toEqual({ kind: 'resolved', path: 'app/src/components/Button.tsx' });
+    });
+
+    it('ignores malformed compiler options', () => {
+        const resolver = createImportResolver(tree({
+            'app/tsconfig.json': '{ "compilerOptions": { "baseUrl": 1, "paths": { "@/*": "src/*", "~/*": [2, "./*"] } } }',
+            'app/util.ts': '',
+        }));
+        expect(resolver.resolve('app/util.ts', '@/util')).toEqual({ kind: 'external' });
+        expect(resolver.resolve('app/util.ts', '~/util')).toEqual({ kind: 'resolved', path: 'app/util.ts' });
+    });
+});
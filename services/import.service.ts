@@ -0,0 +1,293 @@
+import type { FileNode, FileSystemTree } from '../types';
+import { getLanguage } from './format.service';
+import { getCodeSyntax, maskNonCode, splitCodeSegments, type CodeSyntax } from './lexer.service';
+
+// Follows import and require statements from entry files through the loaded tree. Imports
+// are resolved the way bundlers and tsc do for the common cases: relative paths with
+// extension and index lookup, and tsconfig/jsconfig `paths` and `baseUrl`. Anything that
+// doesn't resolve to a loaded file is reported instead of guessed at.
+
+export interface UnresolvedImport {
+    from: string;
+    specifier: string;
+}
+
+export interface ImportGraphNode {
+    path: string;
+    // Number of import hops from the nearest entry file
+    depth: number;
+    // The file through which this one was first reached; unset for entry files
+    parent?: string;
+    // Resolved paths of the files this one imports, empty until the file is expanded
+    imports: string[];
+    pruned: boolean;
+}
+
+export interface ImportGraph {
+    // In the order the files were reached, entries first
+    nodes: ImportGraphNode[];
+    // Relative or mapped imports that point at files that aren't loaded
+    unresolved: UnresolvedImport[];
+    // Package imports
+    external: UnresolvedImport[];
+}
+
+export interface ImportGraphOptions {
+    // Import hops to follow from the entries; 0 follows them all
+    maxDepth: number;
+    // Files left out of the graph, along with whatever is only reachable through them
+    prunedPaths: Set<string>;
+}
+
+const IMPORT_LANGUAGES = new Set(['typescript', 'tsx', 'javascript', 'jsx']);
+// Tried in order after the path as written, then the same for `<path>/index`
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+// TypeScript ESM code imports './a.js' for a file that is a.ts on disk
+const COMPILED_EXTENSIONS: Record<string, string[]> = {
+    '.js': ['.ts', '.tsx'],
+    '.jsx': ['.tsx'],
+    '.mjs': ['.mts'],
+    '.cjs': ['.cts'],
+};
+const PROJECT_CONFIG_NAMES = ['tsconfig.json', 'jsconfig.json'];
+const JSONC_SYNTAX: CodeSyntax = { line: ['//'], block: ['/*', '*/'], quotes: ['"'] };
+
+// What the code right before a string literal must look like for the literal to be a module specifier
+const STATIC_IMPORT_BEFORE = /(?:^|[^\w$.])(?:import|from)\s*$/;
+const CALL_IMPORT_BEFORE = /(?:^|[^\w$.])(?:import|require)\s*\(\s*$/;
+
+export function isImportSupported(path: string): boolean {
+    return IMPORT_LANGUAGES.has(getLanguage(path));
+}
+
+// Specifiers in the order they appear, without duplicates. Only plain string literals count:
+// `require(name)` or a template with substitutions can't be followed statically.
+export function parseImports(content: string, path: string): string[] {
+    const syntax = getCodeSyntax(path);
+    if (!isImportSupported(path) || !syntax || syntax === 'markup') return [];
+    const segments = splitCodeSegments(content, syntax);
+    const mask = maskNonCode(content, segments);
+
+    const specifiers: string[] = [];
+    for (const segment of segments) {
+        if (segment.kind !== 'literal' || !`'"`.includes(content[segment.start])) continue;
+        const before = mask.slice(Math.max(0, segment.start - 32), segment.start);
+        let isImport = STATIC_IMPORT_BEFORE.test(before);
+        if (!isImport && CALL_IMPORT_BEFORE.test(before)) {
+            // import('./a' + name) isn't a fixed path
+            const after = mask.slice(segment.end).trimStart();
+            isImport = after.startsWith(')') || after.startsWith(',');
+        }
+        const specifier = content.slice(segment.start + 1, segment.end - 1);
+        if (isImport && specifier && !specifiers.includes(specifier)) specifiers.push(specifier);
+    }
+    return specifiers;
+}
+
+interface PathMapping {
+    prefix: string;
+    suffix: string;
+    hasWildcard: boolean;
+    targets: string[];
+}
+
+interface ProjectConfig {
+    // Tree path of the folder the targets of `paths` are relative to
+    baseDir: string;
+    hasBaseUrl: boolean;
+    paths: PathMapping[];
+}
+
+// Resolves '.' and '..' segments. Returns undefined for paths that climb above the tree root.
+function normalizePath(path: string): string | undefined {
+    const parts: string[] = [];
+    for (const part of path.split('/')) {
+        if (part === '' || part === '.') continue;
+        if (part === '..') {
+            if (parts.length === 0) return undefined;
+            parts.pop();
+        } else {
+            parts.push(part);
+        }
+    }
+    return parts.join('/');
+}
+
+function dirname(path: string): string {
+    const slash = path.lastIndexOf('/');
+    return slash === -1 ? '' : path.slice(0, slash);
+}
+
+function joinPath(dir: string, path: string): string | undefined {
+    return normalizePath(dir ? `${dir}/${path}` : path);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// tsconfig files are JSONC: comments and trailing commas are allowed
+function parseJsonc(content: string): unknown {
+    const withoutComments = splitCodeSegments(content, JSONC_SYNTAX)
+        .filter(segment => segment.kind !== 'comment')
+        .map(segment => content.slice(segment.start, segment.end))
+        .join('');
+    return JSON.parse(withoutComments.replace(/"(?:[^"\\]|\\.)*"|,(?=\s*[}\]])/g, match => (match[0] === '"' ? match : '')));
+}
+
+// `extends` isn't followed; a config that only inherits its paths resolves like one without them
+function parseProjectConfig(file: FileNode): ProjectConfig | undefined {
+    try {
+        const config = parseJsonc(file.content);
+        const compilerOptions = isRecord(config) && isRecord(config.compilerOptions) ? config.compilerOptions : {};
+        const configDir = dirname(file.path);
+        const baseUrl = typeof compilerOptions.baseUrl === 'string' ? joinPath(configDir, compilerOptions.baseUrl) : undefined;
+        const baseDir = baseUrl ?? configDir;
+        const paths = Object.entries(isRecord(compilerOptions.paths) ? compilerOptions.paths : {})
+            .filter((entry): entry is [string, unknown[]] => Array.isArray(entry[1]))
+            .map(([pattern, targets]) => {
+                const star = pattern.indexOf('*');
+                return {
+                    prefix: star === -1 ? pattern : pattern.slice(0, star),
+                    suffix: star === -1 ? '' : pattern.slice(star + 1),
+                    hasWildcard: star !== -1,
+                    targets: targets.filter((target): target is string => typeof target === 'string'),
+                };
+            })
+            // The most specific pattern wins, like in tsc
+            .sort((a, b) => b.prefix.length - a.prefix.length);
+        return { baseDir, hasBaseUrl: baseUrl !== undefined, paths };
+    } catch {
+        // A config that doesn't parse resolves like a folder without one
+        return undefined;
+    }
+}
+
+function collectFiles(nodes: FileSystemTree, files: Map<string, FileNode>) {
+    for (const node of nodes) {
+        if (node.kind === 'file') files.set(node.path, node);
+        else collectFiles(node.children, files);
+    }
+}
+
+export type ImportResolution =
+    | { kind: 'resolved'; path: string }
+    | { kind: 'unresolved' }
+    | { kind: 'external' };
+
+export interface ImportResolver {
+    resolve(fromPath: string, specifier: string): ImportResolution;
+    getFile(path: string): FileNode | undefined;
+}
+
+export function createImportResolver(tree: FileSystemTree): ImportResolver {
+    const files = new Map<string, FileNode>();
+    collectFiles(tree, files);
+
+    const configs = new Map<string, ProjectConfig | undefined>();
+    // Nearest tsconfig.json or jsconfig.json in the folders above a file
+    const findConfig = (fromPath: string): ProjectConfig | undefined => {
+        for (let dir = dirname(fromPath); ; dir = dirname(dir)) {
+            if (!configs.has(dir)) {
+                const file = PROJECT_CONFIG_NAMES.map(name => files.get(dir ? `${dir}/${name}` : name)).find(Boolean);
+                configs.set(dir, file && parseProjectConfig(file));
+            }
+            const config = configs.get(dir);
+            if (config || dir === '') return config;
+        }
+    };
+
+    const tryFile = (base: string | undefined): string | undefined => {
+        if (base === undefined) return undefined;
+        const compiled = Object.keys(COMPILED_EXTENSIONS).find(ext => base.endsWith(ext));
+        const candidates = [
+            base,
+            ...RESOLVE_EXTENSIONS.map(ext => base + ext),
+            ...(compiled ? COMPILED_EXTENSIONS[compiled].map(ext => base.slice(0, -compiled.length) + ext) : []),
+            ...RESOLVE_EXTENSIONS.map(ext => `${base}/index${ext}`),
+        ];
+        return candidates.find(candidate => files.has(candidate));
+    };
+
+    const resolve = (fromPath: string, rawSpecifier: string): ImportResolution => {
+        // Bundler query suffixes like ?raw or ?url
+        const specifier = rawSpecifier.replace(/[?#].*$/, '');
+        const found = (path: string | undefined): ImportResolution => (path ? { kind: 'resolved', path } : { kind: 'unresolved' });
+
+        if (specifier.startsWith('./') || specifier.startsWith('../') || specifier === '.' || specifier === '..') {
+            return found(tryFile(joinPath(dirname(fromPath), specifier)));
+        }
+        if (specifier.startsWith('/')) return { kind: 'unresolved' };
+
+        const config = findConfig(fromPath);
+        if (config) {
+            const mapping = config.paths.find(({ prefix, suffix, hasWildcard }) => hasWildcard
+                ? specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length
+                : specifier === prefix);
+            if (mapping) {
+                const matched = mapping.hasWildcard ? specifier.slice(mapping.prefix.length, specifier.length - mapping.suffix.length) : '';
+                for (const target of mapping.targets) {
+                    const path = tryFile(joinPath(config.baseDir, target.replace('*', matched)));
+                    if (path) return { kind: 'resolved', path };
+                }
+                return { kind: 'unresolved' };
+            }
+            if (config.hasBaseUrl) {
+                const path = tryFile(joinPath(config.baseDir, specifier));
+                if (path) return { kind: 'resolved', path };
+            }
+        }
+        return { kind: 'external' };
+    };
+
+    return { resolve, getFile: path => files.get(path) };
+}
+
+// Breadth-first, so every file shows up at its shortest distance from an entry
+export function buildImportGraph(resolver: ImportResolver, entryPaths: string[], { maxDepth, prunedPaths }: ImportGraphOptions): ImportGraph {
+    const nodes = new Map<string, ImportGraphNode>();
+    const unresolved: UnresolvedImport[] = [];
+    const external: UnresolvedImport[] = [];
+
+    const queue: ImportGraphNode[] = [];
+    for (const path of entryPaths) {
+        if (nodes.has(path) || !resolver.getFile(path)) continue;
+        const node: ImportGraphNode = { path, depth: 0, imports: [], pruned: prunedPaths.has(path) };
+        nodes.set(path, node);
+        queue.push(node);
+    }
+
+    for (let i = 0; i < queue.length; i++) {
+        const node = queue[i];
+        if (node.pruned || (maxDepth > 0 && node.depth >= maxDepth)) continue;
+
+        for (const specifier of parseImports(resolver.getFile(node.path)!.content, node.path)) {
+            const resolution = resolver.resolve(node.path, specifier);
+            if (resolution.kind === 'unresolved') {
+                unresolved.push({ from: node.path, specifier });
+                continue;
+            }
+            if (resolution.kind === 'external') {
+                external.push({ from: node.path, specifier });
+                continue;
+            }
+            if (!node.imports.includes(resolution.path)) node.imports.push(resolution.path);
+            if (nodes.has(resolution.path)) continue;
+            const child: ImportGraphNode = {
+                path: resolution.path,
+                depth: node.depth + 1,
+                parent: node.path,
+                imports: [],
+                pruned: prunedPaths.has(resolution.path),
+            };
+            nodes.set(child.path, child);
+            queue.push(child);
+        }
+    }
+
+    return { nodes: queue, unresolved, external };
+}
+
+export function getGraphSelection(graph: ImportGraph): Set<string> {
+    return new Set(graph.nodes.filter(node => !node.pruned).map(node => node.path));
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { getCodeSyntax, maskNonCode, splitCodeSegments, type CodeSyntax } from './lexer.service';
+
+const syntaxFor = (path: string) => getCodeSyntax(path) as CodeSyntax;
+
+const segmentsOf = (content: string, path: string) =>
+    splitCodeSegments(content, syntaxFor(path)).map(segment => [segment.kind, content.slice(segment.start, segment.end)]);
+
+describe('splitCodeSegments', () => {
+    it('separates comments and strings from code', () => {
+        expect(segmentsOf('a = "x // y"; // note\n', 'a.ts')).toEqual([
+            ['code', 'a = '],
+            ['literal', '"x // y"'],
+            ['code', '; '],
+            ['comment', '// note'],
+            ['code', '\n'],
+        ]);
+    });
+
+    it('treats template substitutions as code', () => {
+        expect(segmentsOf('`a ${b} c`', 'a.ts')).toEqual([
+            ['literal', '`a ${'],
+            ['code', 'b'],
+            ['literal', '} c`'],
+        ]);
+    });
+
+    it('tells regex literals from division', () => {
+        expect(segmentsOf('x = a / b / c; y = /{/g;', 'a.js').filter(([kind]) => kind === 'literal')).toEqual([['literal', '/{/']]);
+    });
+
+    it('reads Python triple-quoted strings across lines', () => {
+        expect(segmentsOf('s = """a\n# b\n"""\n# c', 'a.py')).toEqual([
+            ['code', 's = '],
+            ['literal', '"""a\n# b\n"""'],
+            ['code', '\n'],
+            ['comment', '# c'],
+        ]);
+    });
+
+    it('does not let an unclosed single-line quote swallow later lines', () => {
+        const content = "<p>Don't</p>\nconst a = 1;";
+        expect(segmentsOf(content, 'a.tsx')).toEqual([['code', content]]);
+    });
+});
+
+describe('maskNonCode', () => {
+    it('blanks comments and literals but keeps newlines and offsets', () => {
+        const content = 'a = "b\\"c" /* d\ne */ f';
+        const mask = maskNonCode(content, splitCodeSegments(content, syntaxFor('a.ts')));
+        expect(mask).toHaveLength(content.length);
+        expect(mask).toBe(`a =${' '.repeat(12)}\n${' '.repeat(5)}f`);
+    });
+});
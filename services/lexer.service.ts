@@ -0,0 +1,238 @@
+import { getLanguage } from './format.service';
+
+// A small lexer that tells code apart from comments and string-like literals. It doesn't
+// parse anything; it only knows enough about each language's quoting rules to find where
+// comments start and end and which braces belong to the code.
+
+export interface CodeSyntax {
+    line: string[];
+    block?: [string, string];
+    quotes: string[];
+    // Python-style ''' and """ strings
+    tripleQuotes?: boolean;
+    // Backtick strings with ${} substitutions
+    templateLiterals?: boolean;
+    regexLiterals?: boolean;
+    // SCSS and Less allow unquoted urls like url(//cdn.example.com/a.png)
+    lineCommentNeedsSpace?: boolean;
+    // Lines that look like comments but mean something to the compiler
+    directives?: string[];
+}
+
+export type CodeSegmentKind = 'code' | 'comment' | 'literal';
+
+export interface CodeSegment {
+    kind: CodeSegmentKind;
+    start: number;
+    end: number;
+}
+
+const JS_SYNTAX: CodeSyntax = { line: ['//'], block: ['/*', '*/'], quotes: ['"', "'"], templateLiterals: true, regexLiterals: true, directives: ['/// <reference'] };
+const C_SYNTAX: CodeSyntax = { line: ['//'], block: ['/*', '*/'], quotes: ['"', "'"] };
+
+// 'markup' languages only have <!-- --> comments and no quoting rules that matter for them
+const CODE_SYNTAX: Record<string, CodeSyntax | 'markup'> = {
+    typescript: JS_SYNTAX,
+    tsx: JS_SYNTAX,
+    javascript: JS_SYNTAX,
+    jsx: JS_SYNTAX,
+    c: C_SYNTAX,
+    cpp: C_SYNTAX,
+    csharp: C_SYNTAX,
+    java: C_SYNTAX,
+    kotlin: C_SYNTAX,
+    swift: C_SYNTAX,
+    dart: C_SYNTAX,
+    php: C_SYNTAX,
+    rust: C_SYNTAX,
+    go: { ...C_SYNTAX, quotes: ['"', "'", '`'] },
+    css: { line: [], block: ['/*', '*/'], quotes: ['"', "'"] },
+    scss: { ...C_SYNTAX, lineCommentNeedsSpace: true },
+    python: { line: ['#'], quotes: ['"', "'"], tripleQuotes: true },
+    html: 'markup',
+    xml: 'markup',
+    vue: 'markup',
+    svelte: 'markup',
+};
+
+// After these a slash starts a regex literal rather than a division
+const REGEX_PRECEDING_CHARS = new Set('(,=:[!&|?{};+-*%<>~^'.split(''));
+const REGEX_PRECEDING_WORDS = new Set(['return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await']);
+
+export function getCodeSyntax(path: string): CodeSyntax | 'markup' | undefined {
+    return CODE_SYNTAX[getLanguage(path)];
+}
+
+// Returns the index after the closing quote, or -1 when the literal doesn't close. Only
+// multi-line quotes may cross a newline; otherwise an apostrophe in JSX text or a Rust
+// lifetime could swallow the rest of the file.
+function skipQuoted(content: string, start: number, quote: string, multiline: boolean): number {
+    for (let i = start + quote.length; i < content.length; i++) {
+        if (content[i] === '\\') {
+            i++;
+        } else if (content.startsWith(quote, i)) {
+            return i + quote.length;
+        } else if (content[i] === '\n' && !multiline) {
+            return -1;
+        }
+    }
+    return -1;
+}
+
+function skipRegex(content: string, start: number): number {
+    let inClass = false;
+    for (let i = start + 1; i < content.length; i++) {
+        const ch = content[i];
+        if (ch === '\\') i++;
+        else if (ch === '\n') return -1;
+        else if (ch === '[') inClass = true;
+        else if (ch === ']') inClass = false;
+        else if (ch === '/' && !inClass) return i + 1;
+    }
+    return -1;
+}
+
+// Looks back over the segments found so far, skipping whitespace and comments. A literal
+// right before the slash is a value, so the slash divides it.
+function isRegexAllowed(content: string, segments: CodeSegment[]): boolean {
+    for (let s = segments.length - 1; s >= 0; s--) {
+        const segment = segments[s];
+        if (segment.kind === 'comment') continue;
+        let end = segment.end - 1;
+        while (end >= segment.start && /\s/.test(content[end])) end--;
+        if (end < segment.start) continue;
+        if (segment.kind === 'literal') return false;
+        if (REGEX_PRECEDING_CHARS.has(content[end])) return true;
+        const word = /[A-Za-z_$][\w$]*$/.exec(content.slice(Math.max(segment.start, end - 16), end + 1));
+        return word !== null && REGEX_PRECEDING_WORDS.has(word[0]);
+    }
+    return true;
+}
+
+// Splits content into consecutive segments covering all of it. Template literal text,
+// including the ${ and } around substitutions, counts as a literal; the substitutions
+// themselves are code.
+export function splitCodeSegments(content: string, syntax: CodeSyntax): CodeSegment[] {
+    const segments: CodeSegment[] = [];
+    const push = (kind: CodeSegmentKind, start: number, end: number) => {
+        const last = segments[segments.length - 1];
+        if (last && last.kind === kind && last.end === start) last.end = end;
+        else if (end > start) segments.push({ kind, start, end });
+    };
+
+    let i = 0;
+    // One open-brace counter per template substitution we are inside of
+    const substitutions: number[] = [];
+
+    // Covers template literal text from an opening backtick, or the } closing a substitution,
+    // up to the closing backtick or the next substitution
+    const scanTemplate = (from: number): number => {
+        for (let j = from + 1; j < content.length; j++) {
+            if (content[j] === '\\') {
+                j++;
+            } else if (content[j] === '`') {
+                push('literal', from, j + 1);
+                return j + 1;
+            } else if (content.startsWith('${', j)) {
+                push('literal', from, j + 2);
+                substitutions.push(0);
+                return j + 2;
+            }
+        }
+        push('literal', from, content.length);
+        return content.length;
+    };
+
+    while (i < content.length) {
+        const ch = content[i];
+
+        if ((i === 0 && content.startsWith('#!')) || syntax.directives?.some(directive => content.startsWith(directive, i))) {
+            const end = content.indexOf('\n', i);
+            const stop = end === -1 ? content.length : end;
+            push('code', i, stop);
+            i = stop;
+            continue;
+        }
+
+        const lineComment = syntax.line.find(marker => content.startsWith(marker, i));
+        // "://" is almost always a url in text the lexer misread as code
+        if (lineComment && content[i - 1] !== ':'
+            && (!syntax.lineCommentNeedsSpace || i === 0 || /\s/.test(content[i - 1]))) {
+            const end = content.indexOf('\n', i);
+            const stop = end === -1 ? content.length : end;
+            push('comment', i, stop);
+            i = stop;
+            continue;
+        }
+
+        if (syntax.block && content.startsWith(syntax.block[0], i)) {
+            const end = content.indexOf(syntax.block[1], i + syntax.block[0].length);
+            // A comment cut off by truncation stays code so the truncation notice survives
+            if (end !== -1) {
+                push('comment', i, end + syntax.block[1].length);
+                i = end + syntax.block[1].length;
+                continue;
+            }
+        }
+
+        if (syntax.tripleQuotes && (content.startsWith('"""', i) || content.startsWith("'''", i))) {
+            const end = skipQuoted(content, i, content.slice(i, i + 3), true);
+            const stop = end === -1 ? content.length : end;
+            push('literal', i, stop);
+            i = stop;
+            continue;
+        }
+
+        if (syntax.quotes.includes(ch)) {
+            const end = skipQuoted(content, i, ch, ch === '`');
+            if (end !== -1) {
+                push('literal', i, end);
+                i = end;
+                continue;
+            }
+        }
+
+        if (syntax.templateLiterals) {
+            if (ch === '`') {
+                i = scanTemplate(i);
+                continue;
+            }
+            if (substitutions.length > 0) {
+                const depth = substitutions.length - 1;
+                if (ch === '{') {
+                    substitutions[depth]++;
+                } else if (ch === '}') {
+                    if (substitutions[depth] === 0) {
+                        substitutions.pop();
+                        i = scanTemplate(i);
+                        continue;
+                    }
+                    substitutions[depth]--;
+                }
+            }
+        }
+
+        if (syntax.regexLiterals && ch === '/' && isRegexAllowed(content, segments)) {
+            const end = skipRegex(content, i);
+            if (end !== -1) {
+                push('literal', i, end);
+                i = end;
+                continue;
+            }
+        }
+
+        push('code', i, i + 1);
+        i++;
+    }
+    return segments;
+}
+
+// Same length as the content, with everything but code blanked out. Newlines are kept so
+// line-based logic still lines up with the original.
+export function maskNonCode(content: string, segments: CodeSegment[]): string {
+    return segments
+        .map(segment => segment.kind === 'code'
+            ? content.slice(segment.start, segment.end)
+            : content.slice(segment.start, segment.end).replace(/[^\n]/g, ' '))
+        .join('');
+}
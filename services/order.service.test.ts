@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { FileNode, FileSystemTree } from '../types';
+import { rankDropCandidates } from './budget.service';
+import { DEFAULT_ORDER_OPTIONS, computeOrderKeys, orderTree, type OrderOptions } from './order.service';
+
+const file = (path: string, content = '', lastModified?: number): FileNode => ({ kind: 'file', name: path.split('/').pop()!, path, content, lastModified });
+
+// In the order processing gives it: folders first, then by name
+const tree: FileSystemTree = [
+    {
+        kind: 'directory',
+        name: 'api',
+        path: 'api',
+        children: [
+            { kind: 'directory', name: 'empty', path: 'api/empty', children: [] },
+            { kind: 'directory', name: 'src', path: 'api/src', children: [file('api/src/handler.ts', 'x'.repeat(30), 3), file('api/src/index.ts', 'x'.repeat(20), 1)] },
+            file('api/README.md', 'x'.repeat(50), 2),
+        ],
+    },
+    {
+        kind: 'directory',
+        name: 'web',
+        path: 'web',
+        children: [file('web/app.test.ts', 'x'.repeat(10), 4), file('web/package.json', 'x'.repeat(40))],
+    },
+];
+
+const paths = (nodes: FileSystemTree): string[] => nodes.flatMap(node => (node.kind === 'file' ? [node.path] : [node.path, ...paths(node.children)]));
+const ordered = (options: Partial<OrderOptions>, sourceOrder?: string[]) => paths(orderTree(tree, { ...DEFAULT_ORDER_OPTIONS, ...options }, sourceOrder));
+
+describe('orderTree', () => {
+    it('leaves the tree alone without rules', () => {
+        expect(orderTree(tree, DEFAULT_ORDER_OPTIONS)).toBe(tree);
+    });
+
+    it('moves folders to where their first file sorts and empty folders last', () => {
+        expect(ordered({ mode: 'important' })).toEqual([
+            'api', 'api/README.md', 'api/src', 'api/src/index.ts', 'api/src/handler.ts', 'api/empty',
+            'web', 'web/package.json', 'web/app.test.ts',
+        ]);
+        expect(ordered({ mode: 'smallest' })).toEqual([
+            'web', 'web/app.test.ts', 'web/package.json',
+            'api', 'api/src', 'api/src/index.ts', 'api/src/handler.ts', 'api/README.md', 'api/empty',
+        ]);
+    });
+
+    it('puts recently modified files first and files without a time last', () => {
+        expect(ordered({ mode: 'recent' }).filter(path => path.includes('.'))).toEqual([
+            'web/app.test.ts', 'web/package.json', 'api/src/handler.ts', 'api/src/index.ts', 'api/README.md',
+        ]);
+    });
+
+    it('follows the order sources were added in', () => {
+        expect(ordered({ mode: 'source' }, ['web', 'api']).slice(0, 3)).toEqual(['web', 'web/app.test.ts', 'web/package.json']);
+    });
+
+    it('puts files matching earlier globs first, relative to each source', () => {
+        expect(ordered({ priorityGlobs: ['*.json', 'src/index.ts'] }).filter(path => path.includes('.'))).toEqual([
+            'web/package.json', 'web/app.test.ts', 'api/src/index.ts', 'api/src/handler.ts', 'api/README.md',
+        ]);
+    });
+});
+
+describe('computeOrderKeys', () => {
+    it('keys files by glob index, then by mode', () => {
+        const keys = computeOrderKeys(tree, { mode: 'smallest', priorityGlobs: ['README.md'] });
+        expect(keys.get('api/README.md')).toEqual([0, 50]);
+        expect(keys.get('web/app.test.ts')).toEqual([1, 10]);
+        expect(keys.has('api/empty')).toBe(false);
+    });
+});
+
+describe('rankDropCandidates with ordering', () => {
+    it('drops the files the output puts last first', () => {
+        const keys = computeOrderKeys(tree, { mode: 'default', priorityGlobs: ['*.test.ts'] });
+        const counts = new Map([['api/src/handler.ts', 10], ['api/src/index.ts', 10], ['api/README.md', 10], ['web/app.test.ts', 10], ['web/package.json', 10]]);
+        const ranked = rankDropCandidates(tree, counts, keys).map(node => node.path);
+        expect(ranked[ranked.length - 1]).toBe('web/app.test.ts');
+        expect(rankDropCandidates(tree, counts).map(node => node.path)[0]).toBe('web/app.test.ts');
+    });
+});
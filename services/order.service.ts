@@ -0,0 +1,114 @@
+import type { FileNode, FileSystemNode, FileSystemTree } from '../types';
+import { createPatternMatcher, type IgnoreMatcher } from './ignore.service';
+
+// Which files come first in the output. Models pay most attention to the start of a prompt,
+// so the rules here move the files that explain a project forward; the budget drops files
+// from the other end (see budget.service). Without rules the tree keeps the order
+// processing gave it: folders first, then by name, with sources merged by name.
+
+export type OrderMode = 'default' | 'important' | 'smallest' | 'recent' | 'source';
+
+export interface OrderOptions {
+    mode: OrderMode;
+    // Gitignore-style globs relative to each source. Files matching an earlier glob come
+    // before files matching a later one, and both before the rest, whatever the mode.
+    priorityGlobs: string[];
+}
+
+export const DEFAULT_ORDER_OPTIONS: OrderOptions = {
+    mode: 'default',
+    priorityGlobs: [],
+};
+
+export const ORDER_MODE_LABELS: Record<OrderMode, string> = {
+    default: 'Folders first, by name',
+    important: 'Docs and configs first',
+    smallest: 'Smallest files first',
+    recent: 'Recently modified first',
+    source: 'In the order sources were added',
+};
+
+// Higher means more important to keep. Docs, manifests, entry points and type
+// definitions describe the project best; tests, fixtures and lockfiles go first.
+const HIGH_PRIORITY_NAMES = /^(readme|package\.json$|tsconfig\.json$|pyproject\.toml$|cargo\.toml$|go\.mod$)/i;
+const ENTRY_POINT_NAMES = /^(index|main|app|server|cli)\.[cm]?[jt]sx?$/i;
+const TYPE_DEFINITION_NAMES = /(\.d\.ts$|^types?\.[cm]?tsx?$)/i;
+const LOW_PRIORITY_NAMES = /(\.lock$|lock\.json$|lock\.ya?ml$|\.snap$|\.min\.(js|css)$|\.map$)/i;
+const LOW_PRIORITY_DIRS = /(^|\/)(tests?|__tests__|__mocks__|fixtures|examples?|e2e|mocks?)\//i;
+const TEST_FILE_NAMES = /\.(test|spec)\.[cm]?[jt]sx?$/i;
+
+export function getFilePriority(file: FileNode): number {
+    if (HIGH_PRIORITY_NAMES.test(file.name)) return 3;
+    if (ENTRY_POINT_NAMES.test(file.name) || TYPE_DEFINITION_NAMES.test(file.name)) return 2;
+    if (LOW_PRIORITY_NAMES.test(file.name)) return 0;
+    if (LOW_PRIORITY_DIRS.test(file.path) || TEST_FILE_NAMES.test(file.name)) return 0;
+    return 1;
+}
+
+// A file's position key; smaller keys come first
+export type OrderKey = number[];
+
+export function compareOrderKeys(a: OrderKey, b: OrderKey): number {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return a.length - b.length;
+}
+
+export function isDefaultOrder({ mode, priorityGlobs }: OrderOptions): boolean {
+    return mode === 'default' && priorityGlobs.length === 0;
+}
+
+// Keys for every file in the tree, by path. `sourceOrder` lists the top-level paths in the
+// order their sources were added.
+export function computeOrderKeys(tree: FileSystemTree, { mode, priorityGlobs }: OrderOptions, sourceOrder: string[] = []): Map<string, OrderKey> {
+    const matchers: IgnoreMatcher[] = priorityGlobs.map(glob => createPatternMatcher([glob]));
+    const keys = new Map<string, OrderKey>();
+
+    const modeKey = (file: FileNode, root: FileSystemNode): number => {
+        if (mode === 'important') return -getFilePriority(file);
+        if (mode === 'smallest') return file.content.length;
+        // Files without a modification time sort as the oldest
+        if (mode === 'recent') return -(file.lastModified ?? 0);
+        if (mode === 'source') {
+            const index = sourceOrder.indexOf(root.path);
+            return index === -1 ? sourceOrder.length : index;
+        }
+        return 0;
+    };
+
+    const visit = (nodes: FileSystemTree, root: FileSystemNode | undefined) => {
+        for (const node of nodes) {
+            const nodeRoot = root ?? node;
+            if (node.kind === 'directory') {
+                visit(node.children, nodeRoot);
+                continue;
+            }
+            const relativePath = root ? node.path.slice(root.path.length + 1) : node.name;
+            const globIndex = matchers.findIndex(matcher => matcher.isIgnored(relativePath, false));
+            keys.set(node.path, [globIndex === -1 ? matchers.length : globIndex, modeKey(node, nodeRoot)]);
+        }
+    };
+    visit(tree, undefined);
+    return keys;
+}
+
+// Reorders every level of the tree by its files' keys; a folder sorts where its first file
+// would. Ties keep the existing order, so the default order stays the tiebreaker.
+export function orderTree(tree: FileSystemTree, options: OrderOptions, sourceOrder: string[] = []): FileSystemTree {
+    if (isDefaultOrder(options)) return tree;
+    const keys = computeOrderKeys(tree, options, sourceOrder);
+
+    const order = (nodes: FileSystemTree): Array<{ node: FileSystemNode; key: OrderKey | undefined }> => nodes
+        .map(node => {
+            if (node.kind === 'file') return { node, key: keys.get(node.path) };
+            const children = order(node.children);
+            // Children are sorted, so the first one with files has the folder's smallest key
+            const key = children.find(child => child.key)?.key;
+            return { node: { ...node, children: children.map(child => child.node) }, key };
+        })
+        // Empty folders have no key and go last
+        .sort((a, b) => (a.key && b.key ? compareOrderKeys(a.key, b.key) : a.key ? -1 : b.key ? 1 : 0));
+
+    return order(tree).map(entry => entry.node);
+}
@@ -0,0 +1,98 @@
+import type { FileNode, FileSystemTree } from '../types';
+import { getFormatter, getLanguage, type OutputFormat } from './format.service';
+import { formatStructureLines, type StructureLine } from './structure.service';
+
+// Finds where each file and each structure entry ended up in a generated output, so the
+// viewer can fold files and link the structure to them. Everything is located by searching
+// for the exact text the formatter produced, so templates can put sections anywhere.
+
+export interface OutputFileBlock {
+    path: string;
+    language: string;
+    // Line indices into the output (0-based); ends are exclusive
+    headerLine: number;
+    contentStart: number;
+    contentEnd: number;
+    blockEnd: number;
+}
+
+export interface OutputOutline {
+    lines: string[];
+    files: OutputFileBlock[];
+    // Output line of a structure entry -> path of the file or folder it names
+    structureLinks: Map<number, string>;
+}
+
+// Lines before and after the content in each file's block. JSON keeps a file's content on
+// the line after its path.
+const FILE_FRAME: Record<OutputFormat, { before: number; after: number }> = {
+    markdown: { before: 3, after: 1 },
+    xml: { before: 1, after: 1 },
+    plain: { before: 1, after: 0 },
+    json: { before: 1, after: 1 },
+};
+
+function collectFiles(nodes: FileSystemTree, files: FileNode[] = []): FileNode[] {
+    for (const node of nodes) {
+        if (node.kind === 'file') files.push(node);
+        else collectFiles(node.children, files);
+    }
+    return files;
+}
+
+function countLines(text: string, start: number, end: number): number {
+    let count = 0;
+    for (let i = text.indexOf('\n', start); i !== -1 && i < end; i = text.indexOf('\n', i + 1)) count++;
+    return count;
+}
+
+export function buildOutputOutline(output: string, format: OutputFormat, tree: FileSystemTree, structureLines: StructureLine[]): OutputOutline {
+    const lines = output.split('\n');
+    const formatter = getFormatter(format);
+    const frame = FILE_FRAME[format];
+
+    const files: OutputFileBlock[] = [];
+    // Files appear in tree order, so each search continues where the previous one matched
+    let offset = 0;
+    let line = 0;
+    for (const file of collectFiles(tree)) {
+        const needle = format === 'json'
+            ? `"path": ${JSON.stringify(file.path)},`
+            : formatter.formatFiles([{ path: file.path, content: file.content }]);
+        const index = output.indexOf(needle, offset);
+        if (index === -1) continue;
+        line += countLines(output, offset, index);
+        offset = index;
+
+        const contentStart = line + frame.before;
+        const contentEnd = contentStart + (format === 'json' ? 1 : file.content.split('\n').length);
+        files.push({
+            path: file.path,
+            language: format === 'json' ? '' : getLanguage(file.path),
+            headerLine: line,
+            contentStart,
+            contentEnd,
+            blockEnd: contentEnd + frame.after,
+        });
+    }
+
+    const structureLinks = new Map<number, string>();
+    const structure = formatStructureLines(structureLines).trim();
+    const section = format === 'json' ? '' : formatter.formatStructureSection(structure);
+    const sectionIndex = section ? output.indexOf(section) : -1;
+    // A structure with a CDATA terminator in a name isn't in the XML section verbatim
+    const structureIndex = section.indexOf(structure);
+    if (structure && sectionIndex !== -1 && structureIndex !== -1) {
+        const firstLine = countLines(output, 0, sectionIndex + structureIndex);
+        structureLines.forEach(({ path }, index) => {
+            if (path) structureLinks.set(firstLine + index, path);
+        });
+    }
+
+    return { lines, files, structureLinks };
+}
+
+// The block a structure entry links to; folders link to their first file
+export function findLinkedBlock(outline: OutputOutline, path: string): OutputFileBlock | undefined {
+    return outline.files.find(block => block.path === path) ?? outline.files.find(block => block.path.startsWith(`${path}/`));
+}
@@ -0,0 +1,127 @@
+import type { FileNode, FileSystemTree } from '../types';
+import { buildOutputDocument, generateOutput } from './file.service';
+import type { OutputFormat, OutputTemplate } from './format.service';
+import { createTemplateValues, usesPlaceholder } from './template.service';
+import { countFiles, filterTree } from './selection.service';
+import { countTreeTokens, type TokenCounter } from './token.service';
+import { selectFilesToDrop, type BudgetMode } from './budget.service';
+import { computeOrderKeys, isDefaultOrder, orderTree, DEFAULT_ORDER_OPTIONS, type OrderOptions } from './order.service';
+import { splitOutput, DEFAULT_SPLIT_OPTIONS, type OutputPart, type SplitOptions } from './split.service';
+import { buildStructureLines, collectExcludedEntries, DEFAULT_STRUCTURE_OPTIONS, type OmittedEntry, type StructureInput, type StructureLine, type StructureOptions } from './structure.service';
+
+// Turns a processed tree into the final output. The web UI and the CLI both go through
+// here, so the same inputs and settings give byte-identical output in either.
+
+export interface RenderOptions {
+    excludedPaths?: Set<string>;
+    format?: OutputFormat;
+    templateBody: string;
+    task?: string;
+    // Fills the diff section, see diff.service
+    diff?: string;
+    countTokens: TokenCounter;
+    tokenBudget?: number;
+    budgetMode?: BudgetMode;
+    split?: SplitOptions;
+    structure?: StructureOptions;
+    // Also decides which files the budget drops first
+    order?: OrderOptions;
+    // Top-level paths in the order their sources were added, for the 'source' order
+    sourceOrder?: string[];
+    // Entries left out before rendering, such as processing skips, listed in the structure
+    // when it shows omitted entries
+    omitted?: OmittedEntry[];
+    date?: Date;
+}
+
+export interface RenderedContext {
+    output: string;
+    // What the output was generated from, after exclusions and budget drops
+    tree: FileSystemTree;
+    totalTokens: number;
+    tokenCounts: Map<string, number>;
+    dropped: FileNode[];
+    parts: OutputPart[];
+    // The structure section line by line, with the path each entry names
+    structure: StructureLine[];
+}
+
+export function renderContext(inputTree: FileSystemTree, {
+    excludedPaths = new Set(),
+    format = 'markdown',
+    templateBody,
+    task = '',
+    diff,
+    countTokens,
+    tokenBudget = 0,
+    budgetMode = 'warn',
+    split = DEFAULT_SPLIT_OPTIONS,
+    structure = DEFAULT_STRUCTURE_OPTIONS,
+    omitted = [],
+    order = DEFAULT_ORDER_OPTIONS,
+    sourceOrder = [],
+    date = new Date(),
+}: RenderOptions): RenderedContext {
+    const tree = orderTree(inputTree, order, sourceOrder);
+    const orderKeys = isDefaultOrder(order) ? undefined : computeOrderKeys(tree, order, sourceOrder);
+    const counts = countTreeTokens(tree, countTokens);
+    const makeTemplate = (exclusions: Set<string>, tokenCount: number): OutputTemplate => ({
+        body: templateBody,
+        variables: createTemplateValues({ task, fileCount: countFiles(filterTree(tree, exclusions)), tokenCount, date }),
+    });
+    const dropped: FileNode[] = [];
+    const makeStructure = (exclusions: Set<string>): StructureInput => ({
+        options: structure,
+        tokenCounts: counts,
+        omitted: structure.showOmitted
+            ? [...omitted, ...collectExcludedEntries(tree, exclusions, new Set(dropped.map(file => file.path)))]
+            : [],
+    });
+    const render = (exclusions: Set<string>, tokenCount = 0) => generateOutput(tree, {
+        excludedPaths: exclusions,
+        format,
+        template: makeTemplate(exclusions, tokenCount),
+        diff,
+        structure: makeStructure(exclusions),
+    });
+
+    let effectiveExclusions = excludedPaths;
+    let output = render(effectiveExclusions);
+    let total = countTokens(output);
+
+    // Per-file counts ignore the surrounding markup, so recount after each round of drops
+    while (budgetMode === 'drop' && tokenBudget > 0 && total > tokenBudget) {
+        const toDrop = selectFilesToDrop(filterTree(tree, effectiveExclusions), counts, total, tokenBudget, orderKeys);
+        if (toDrop.length === 0) break;
+        dropped.push(...toDrop);
+        effectiveExclusions = new Set([...effectiveExclusions, ...toDrop.map(file => file.path)]);
+        output = render(effectiveExclusions);
+        total = countTokens(output);
+    }
+
+    // The count can't include itself exactly, so render once more with the measured total
+    if (usesPlaceholder(templateBody, 'token_count')) {
+        output = render(effectiveExclusions, total);
+        total = countTokens(output);
+    }
+
+    const parts = split.limit > 0
+        ? splitOutput(buildOutputDocument(tree, {
+            excludedPaths: effectiveExclusions,
+            template: makeTemplate(effectiveExclusions, total),
+            diff,
+            structure: makeStructure(effectiveExclusions),
+        }), format, split, split.unit === 'tokens' ? countTokens : text => text.length)
+        : [];
+
+    const outputTree = filterTree(tree, effectiveExclusions);
+    return {
+        output,
+        tree: outputTree,
+        totalTokens: total,
+        tokenCounts: counts,
+        dropped,
+        parts,
+        structure: buildStructureLines(outputTree, makeStructure(effectiveExclusions)),
+    };
+}
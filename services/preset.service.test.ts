@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PRESET, exportPresets, importPresets } from './preset.service';
+
+describe('importPresets', () => {
+    it('round-trips an export', () => {
+        const preset = { ...DEFAULT_PRESET, id: 'team', name: 'Team', builtIn: false, format: 'xml' as const };
+        const [imported] = importPresets(exportPresets([preset]));
+        expect(imported).toMatchObject({ name: 'Team', format: 'xml', ignore: DEFAULT_PRESET.ignore, builtIn: false });
+        expect(imported.id).not.toBe('team');
+    });
+
+    it('fills missing fields from the default preset', () => {
+        const [imported] = importPresets(JSON.stringify({ name: ' Minimal ', ignore: { dirs: ['out'] } }));
+        expect(imported).toMatchObject({
+            name: 'Minimal',
+            maxFileSize: DEFAULT_PRESET.maxFileSize,
+            ignore: { dirs: ['out'], filenames: DEFAULT_PRESET.ignore.filenames },
+        });
+    });
+
+    it('rejects invalid files', () => {
+        expect(() => importPresets('{')).toThrow('not valid JSON');
+        expect(() => importPresets('null')).toThrow('does not contain valid presets');
+        expect(() => importPresets(JSON.stringify({ name: 'Bad', format: 'yaml' }))).toThrow();
+        expect(() => importPresets(JSON.stringify({ name: 'Bad', ignore: 'node_modules' }))).toThrow();
+        expect(() => importPresets(JSON.stringify({ presets: [{ name: 'Ok' }, { name: 'Bad', maxFileSize: -1 }] }))).toThrow();
+    });
+});
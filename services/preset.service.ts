@@ -0,0 +1,127 @@
+import { DEFAULT_IGNORE_SETTINGS, DEFAULT_PROCESS_OPTIONS, type IgnoreSettings } from './file.service';
+import { isOutputFormat, type OutputFormat } from './format.service';
+import { BUILT_IN_TEMPLATES } from './template.service';
+
+// Presets bundle the settings a team usually wants to share: what gets ignored, the size
+// limit, the layout and the template. User presets live in localStorage and travel as JSON.
+
+export interface WorkspacePreset {
+    id: string;
+    name: string;
+    builtIn: boolean;
+    ignore: IgnoreSettings;
+    maxFileSize: number;
+    format: OutputFormat;
+    // The template body rather than its id, so an exported preset works without the template
+    template: string;
+}
+
+export const DEFAULT_PRESET_ID = 'default';
+
+export const DEFAULT_PRESET: WorkspacePreset = {
+    id: DEFAULT_PRESET_ID,
+    name: 'Default',
+    builtIn: true,
+    ignore: DEFAULT_IGNORE_SETTINGS,
+    maxFileSize: DEFAULT_PROCESS_OPTIONS.maxFileSize,
+    format: 'markdown',
+    template: BUILT_IN_TEMPLATES[0].body,
+};
+
+const USER_PRESETS_KEY = 'context-maker.presets';
+const ACTIVE_PRESET_KEY = 'context-maker.active-preset';
+
+const EXPORT_VERSION = 1;
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Returns undefined for anything that isn't a usable preset; missing optional fields fall
+// back to the Default preset so hand-written files don't need every key.
+function parsePreset(value: unknown): Omit<WorkspacePreset, 'id' | 'builtIn'> | undefined {
+    if (!isRecord(value) || typeof value.name !== 'string' || !value.name.trim()) return undefined;
+    const ignore = value.ignore ?? {};
+    if (!isRecord(ignore)) return undefined;
+    const lists = (['dirs', 'filenames', 'extensions', 'globs'] as const).map(key => ignore[key] ?? DEFAULT_IGNORE_SETTINGS[key]);
+    if (!lists.every(isStringArray)) return undefined;
+    const [dirs, filenames, extensions, globs] = lists;
+
+    const maxFileSize = value.maxFileSize ?? DEFAULT_PRESET.maxFileSize;
+    const format = value.format ?? DEFAULT_PRESET.format;
+    const template = value.template ?? DEFAULT_PRESET.template;
+    if (typeof maxFileSize !== 'number' || !(maxFileSize > 0)) return undefined;
+    if (!isOutputFormat(format) || typeof template !== 'string') return undefined;
+
+    return { name: value.name.trim(), ignore: { dirs, filenames, extensions, globs }, maxFileSize, format, template };
+}
+
+export function loadUserPresets(): WorkspacePreset[] {
+    try {
+        const stored: unknown = JSON.parse(localStorage.getItem(USER_PRESETS_KEY) ?? '[]');
+        if (!Array.isArray(stored)) return [];
+        return stored.flatMap((item: unknown) => {
+            if (!isRecord(item) || typeof item.id !== 'string') return [];
+            const preset = parsePreset(item);
+            return preset ? [{ ...preset, id: item.id, builtIn: false }] : [];
+        });
+    } catch {
+        return [];
+    }
+}
+
+export function saveUserPresets(presets: WorkspacePreset[]): void {
+    try {
+        localStorage.setItem(USER_PRESETS_KEY, JSON.stringify(presets.map(({ builtIn, ...preset }) => preset)));
+    } catch {
+        // Private browsing or a full quota; the presets still work for this session
+    }
+}
+
+export function loadActivePresetId(): string {
+    try {
+        return localStorage.getItem(ACTIVE_PRESET_KEY) ?? DEFAULT_PRESET_ID;
+    } catch {
+        return DEFAULT_PRESET_ID;
+    }
+}
+
+export function saveActivePresetId(id: string): void {
+    try {
+        localStorage.setItem(ACTIVE_PRESET_KEY, id);
+    } catch {
+        // Same as saving presets: the choice only lasts for this session
+    }
+}
+
+export function findPreset(presets: WorkspacePreset[], id: string): WorkspacePreset {
+    return presets.find(preset => preset.id === id) ?? DEFAULT_PRESET;
+}
+
+export function exportPresets(presets: WorkspacePreset[]): string {
+    return JSON.stringify({
+        version: EXPORT_VERSION,
+        presets: presets.map(({ id, builtIn, ...preset }) => preset),
+    }, null, 2);
+}
+
+// Accepts an export file or a single preset object. Imported presets get new ids so they
+// never overwrite the ones already saved.
+export function importPresets(json: string): WorkspacePreset[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    const items: unknown[] = isRecord(parsed) && Array.isArray(parsed.presets) ? parsed.presets : [parsed];
+    const presets = items.map(parsePreset);
+    if (presets.length === 0 || presets.some(preset => !preset)) {
+        throw new Error('The file does not contain valid presets.');
+    }
+    return presets.map(preset => ({ ...preset!, id: crypto.randomUUID(), builtIn: false }));
+}
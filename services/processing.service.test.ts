@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { FileNode, FileSource } from '../types';
+import { DEFAULT_PROCESS_OPTIONS } from './file.service';
+import { createSourceProcessor } from './processing.service';
+
+const source = (): FileSource => ({ id: 'a', name: 'a.txt', kind: 'file', files: [new File(['hello'], 'a.txt')] });
+
+// A module worker whose script fails to load: it reports an error and never answers
+class FailingWorker {
+    static created = 0;
+    onerror: ((event: Event) => void) | null = null;
+    constructor() {
+        FailingWorker.created++;
+    }
+    postMessage() {
+        setTimeout(() => this.onerror?.(new Event('error', { cancelable: true })));
+    }
+    terminate() {}
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('createSourceProcessor', () => {
+    it('processes inline when the worker fails, and keeps doing so', async () => {
+        FailingWorker.created = 0;
+        vi.stubGlobal('Worker', FailingWorker);
+        const processor = createSourceProcessor();
+
+        const first = await processor.process([source()], DEFAULT_PROCESS_OPTIONS);
+        expect((first.tree[0] as FileNode).content).toBe('hello');
+        const second = await processor.process([source()], DEFAULT_PROCESS_OPTIONS);
+        expect((second.tree[0] as FileNode).content).toBe('hello');
+        expect(FailingWorker.created).toBe(1);
+        processor.dispose();
+    });
+});
@@ -0,0 +1,135 @@
+import type { FileSource, ProcessResult } from '../types';
+import { mergeProcessResults, processFileSource, type ProcessOptions, type ProcessProgress } from './file.service';
+import type { WorkerRequest, WorkerResponse } from './file.worker';
+
+// Runs source processing off the main thread and caches each source's result, so adding
+// a folder only reads that folder. Results are keyed by source object identity: a source
+// that needs re-reading is replaced with a new object rather than mutated.
+
+export interface ProcessRequestHooks {
+    signal?: AbortSignal;
+    onProgress?: (progress: ProcessProgress) => void;
+}
+
+export interface SourceProcessor {
+    process(sources: FileSource[], options: ProcessOptions, hooks?: ProcessRequestHooks): Promise<ProcessResult>;
+    dispose(): void;
+}
+
+interface PendingRequest {
+    resolve: (result: ProcessResult) => void;
+    reject: (error: Error) => void;
+    onProgress?: (progress: ProcessProgress) => void;
+    // Runs the request on the main thread instead, for when the worker dies
+    runInline: () => void;
+}
+
+function createAbortError(): Error {
+    return new DOMException('Processing was cancelled', 'AbortError');
+}
+
+export function createSourceProcessor(): SourceProcessor {
+    const cache = new WeakMap<FileSource, { optionsKey: string; result: ProcessResult }>();
+    const pending = new Map<number, PendingRequest>();
+    let nextRequestId = 1;
+
+    // Environments without workers (or where the worker fails to start) process inline
+    let worker: Worker | null = null;
+    // A worker that fails to load or crashes never answers, so its requests are re-run inline
+    // and later ones don't go to it
+    const abandonWorker = () => {
+        worker?.terminate();
+        worker = null;
+        const requests = Array.from(pending.values());
+        pending.clear();
+        requests.forEach(request => request.runInline());
+    };
+    if (typeof Worker !== 'undefined') {
+        try {
+            worker = new Worker(new URL('./file.worker.ts', import.meta.url), { type: 'module' });
+            worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+                const message = event.data;
+                const request = pending.get(message.requestId);
+                if (!request) return;
+
+                if (message.type === 'progress') {
+                    request.onProgress?.(message.progress);
+                    return;
+                }
+                pending.delete(message.requestId);
+                if (message.type === 'result') request.resolve(message.result);
+                else request.reject(message.aborted ? createAbortError() : new Error(message.message));
+            };
+            worker.onerror = event => {
+                event.preventDefault();
+                abandonWorker();
+            };
+            worker.onmessageerror = abandonWorker;
+        } catch {
+            worker = null;
+        }
+    }
+
+    const processInWorker = (source: FileSource, options: ProcessOptions, hooks: ProcessRequestHooks): Promise<ProcessResult> => {
+        if (!worker) return processFileSource(source, options, hooks);
+
+        const activeWorker = worker;
+        const requestId = nextRequestId++;
+        return new Promise<ProcessResult>((resolve, reject) => {
+            const handleAbort = () => {
+                activeWorker.postMessage({ type: 'cancel', requestId } satisfies WorkerRequest);
+                pending.delete(requestId);
+                reject(createAbortError());
+            };
+            // A long-lived signal would otherwise keep every finished request's listener alive
+            const settle = () => hooks.signal?.removeEventListener('abort', handleAbort);
+            pending.set(requestId, {
+                resolve: result => { settle(); resolve(result); },
+                reject: error => { settle(); reject(error); },
+                onProgress: hooks.onProgress,
+                // The inline run watches the signal itself
+                runInline: () => {
+                    settle();
+                    processFileSource(source, options, hooks).then(resolve, reject);
+                },
+            });
+            hooks.signal?.addEventListener('abort', handleAbort, { once: true });
+            activeWorker.postMessage({ type: 'process', requestId, source, options } satisfies WorkerRequest);
+        });
+    };
+
+    return {
+        async process(sources, options, hooks = {}) {
+            const optionsKey = JSON.stringify(options);
+            const uncached = sources.filter(source => cache.get(source)?.optionsKey !== optionsKey);
+            // Archives only know their file count once unpacked, so totals are updated from progress reports
+            const totals = uncached.map(source => source.files.length);
+            let completedBefore = 0;
+
+            for (const [index, source] of uncached.entries()) {
+                hooks.signal?.throwIfAborted();
+                const result = await processInWorker(source, options, {
+                    signal: hooks.signal,
+                    onProgress: progress => {
+                        totals[index] = progress.total;
+                        hooks.onProgress?.({
+                            done: completedBefore + progress.done,
+                            total: totals.reduce((sum, total) => sum + total, 0),
+                            currentPath: progress.currentPath,
+                        });
+                    },
+                });
+                cache.set(source, { optionsKey, result });
+                completedBefore += totals[index];
+            }
+
+            return mergeProcessResults(sources.map(source => cache.get(source)!.result));
+        },
+        dispose() {
+            worker?.terminate();
+            worker = null;
+            pending.forEach(request => request.reject(createAbortError()));
+            pending.clear();
+        },
+    };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { DirectoryNode, FileNode } from '../types';
+import { EMPTY_SEARCH_QUERY, focusTreeOnMatches, getMatchingPaths, searchTree, type SearchQuery } from './search.service';
+
+const file = (path: string, content: string): FileNode => ({ kind: 'file', name: path.split('/').pop()!, path, content });
+
+const dir = (path: string, children: DirectoryNode['children']): DirectoryNode => ({ kind: 'directory', name: path.split('/').pop()!, path, children });
+
+const tree = [
+    dir('app', [
+        file('app/main.ts', 'const total = sum(a.b);\nconsole.log(Total);\n'),
+        dir('app/lib', [file('app/lib/sum.ts', 'export const sum = (...xs) => xs.reduce((a, b) => a + b, 0);\n')]),
+        file('app/README.md', 'Call sum() for the total.\n'),
+    ]),
+];
+
+const query = (text: string, overrides: Partial<SearchQuery> = {}): SearchQuery => ({ ...EMPTY_SEARCH_QUERY, text, ...overrides });
+
+describe('searchTree', () => {
+    it('matches literal text without treating it as a pattern', () => {
+        const result = searchTree(tree, query('a.b'));
+        expect(result.totalHits).toBe(1);
+        expect(result.files).toEqual([
+            { path: 'app/main.ts', hits: 1, matchingLines: 1, lines: [{ line: 1, text: 'const total = sum(a.b);', ranges: [[18, 21]] }] },
+        ]);
+    });
+
+    it('compiles the text as a regex when asked to', () => {
+        const result = searchTree(tree, query('sum\\(', { regex: true }));
+        expect(Array.from(getMatchingPaths(result))).toEqual(['app/main.ts', 'app/README.md']);
+        expect(() => searchTree(tree, query('sum(', { regex: true }))).toThrow();
+    });
+
+    it('ignores case unless the search is case-sensitive', () => {
+        expect(searchTree(tree, query('total')).totalHits).toBe(3);
+        const sensitive = searchTree(tree, query('Total', { caseSensitive: true }));
+        expect(sensitive.files.map(({ path, hits }) => [path, hits])).toEqual([['app/main.ts', 1]]);
+    });
+
+    it('counts every hit on a line but each matching line once', () => {
+        const [sum] = searchTree(tree, query('xs')).files;
+        expect(sum).toMatchObject({ path: 'app/lib/sum.ts', hits: 2, matchingLines: 1 });
+        expect(sum.lines[0].ranges).toHaveLength(2);
+    });
+
+    it('only searches files the path globs match, relative to the source', () => {
+        expect(Array.from(getMatchingPaths(searchTree(tree, query('sum', { paths: 'lib/**' }))))).toEqual(['app/lib/sum.ts']);
+        expect(Array.from(getMatchingPaths(searchTree(tree, query('sum', { paths: '*.md, main.ts' }))))).toEqual(['app/main.ts', 'app/README.md']);
+    });
+
+    it('finds nothing for an empty query or a pattern that only matches empty strings', () => {
+        expect(searchTree(tree, query(''))).toEqual({ files: [], totalHits: 0 });
+        expect(searchTree(tree, query('q*', { regex: true })).totalHits).toBe(0);
+    });
+});
+
+describe('focusTreeOnMatches', () => {
+    it('keeps the lines around each hit in regions mode', () => {
+        const content = Array.from({ length: 10 }, (_, i) => (i === 4 ? 'needle' : `line ${i + 1}`)).join('\n') + '\n';
+        const [focused] = focusTreeOnMatches([file('a.txt', content)], query('needle'), { mode: 'regions', contextLines: 1 });
+        expect((focused as FileNode).content).toBe(
+            '[... lines 1-3 without matches, omitted ...]\nline 4\nneedle\nline 6\n[... lines 7-10 without matches, omitted ...]\n',
+        );
+        expect(focusTreeOnMatches([file('a.txt', content)], query('needle'), { mode: 'files', contextLines: 1 })).toEqual([file('a.txt', content)]);
+    });
+});
@@ -0,0 +1,167 @@
+import type { FileSystemTree } from '../types';
+import { createPatternMatcher } from './ignore.service';
+
+// Content search over the loaded tree, to build the output from the files that mention a
+// symbol, route or message. Matching is line by line, like grep, so a match never spans
+// lines. Path globs follow the preset globs: gitignore-style, relative to each source.
+
+export interface SearchQuery {
+    text: string;
+    regex: boolean;
+    caseSensitive: boolean;
+    // Globs separated by spaces or commas; empty searches every file
+    paths: string;
+}
+
+export const EMPTY_SEARCH_QUERY: SearchQuery = {
+    text: '',
+    regex: false,
+    caseSensitive: false,
+    paths: '',
+};
+
+export type SearchFocusMode = 'files' | 'regions';
+
+export interface SearchOptions {
+    // 'files' keeps matching files whole; 'regions' keeps only the lines around each hit
+    mode: SearchFocusMode;
+    // Lines kept around each matching line in 'regions' mode
+    contextLines: number;
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+    mode: 'files',
+    contextLines: 3,
+};
+
+export interface SearchLineMatch {
+    // 1-based
+    line: number;
+    text: string;
+    // Character offsets into `text`; end is exclusive
+    ranges: Array<[number, number]>;
+}
+
+export interface SearchFileResult {
+    path: string;
+    hits: number;
+    // Only the first MAX_PREVIEW_LINES matching lines
+    lines: SearchLineMatch[];
+    matchingLines: number;
+}
+
+export interface SearchResult {
+    files: SearchFileResult[];
+    totalHits: number;
+}
+
+const MAX_PREVIEW_LINES = 20;
+
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Throws with the engine's message when the regex doesn't compile
+export function compileSearchPattern({ text, regex, caseSensitive }: SearchQuery): RegExp {
+    return new RegExp(regex ? text : escapeRegex(text), caseSensitive ? 'g' : 'gi');
+}
+
+function findRanges(line: string, pattern: RegExp): Array<[number, number]> {
+    const ranges: Array<[number, number]> = [];
+    for (const match of line.matchAll(pattern)) {
+        // A pattern like `a*` matches nothing everywhere; those aren't hits
+        if (match[0].length > 0) ranges.push([match.index, match.index + match[0].length]);
+    }
+    return ranges;
+}
+
+// Calls `visit` with each file the path globs allow
+function forEachSearchedFile(tree: FileSystemTree, paths: string, visit: (path: string, content: string) => void) {
+    const globs = paths.split(/[\s,]+/).filter(Boolean);
+    const matcher = globs.length > 0 ? createPatternMatcher(globs) : undefined;
+    const walk = (nodes: FileSystemTree, rootName: string | undefined) => {
+        for (const node of nodes) {
+            if (node.kind === 'directory') {
+                walk(node.children, rootName ?? node.name);
+                continue;
+            }
+            const relativePath = rootName === undefined ? node.name : node.path.slice(rootName.length + 1);
+            if (!matcher || matcher.isIgnored(relativePath, false)) visit(node.path, node.content);
+        }
+    };
+    walk(tree, undefined);
+}
+
+export function searchTree(tree: FileSystemTree, query: SearchQuery): SearchResult {
+    const result: SearchResult = { files: [], totalHits: 0 };
+    if (!query.text) return result;
+    const pattern = compileSearchPattern(query);
+
+    forEachSearchedFile(tree, query.paths, (path, content) => {
+        const file: SearchFileResult = { path, hits: 0, lines: [], matchingLines: 0 };
+        content.split('\n').forEach((text, index) => {
+            const ranges = findRanges(text, pattern);
+            if (ranges.length === 0) return;
+            file.hits += ranges.length;
+            file.matchingLines++;
+            if (file.lines.length < MAX_PREVIEW_LINES) file.lines.push({ line: index + 1, text, ranges });
+        });
+        if (file.hits > 0) {
+            result.files.push(file);
+            result.totalHits += file.hits;
+        }
+    });
+    return result;
+}
+
+function formatRange(start: number, end: number): string {
+    return start === end ? `line ${start}` : `lines ${start}-${end}`;
+}
+
+function focusContent(content: string, pattern: RegExp, contextLines: number): string {
+    // A final newline doesn't start another line that could be omitted
+    const trailingNewline = content.endsWith('\n');
+    const lines = (trailingNewline ? content.slice(0, -1) : content).split('\n');
+    const kept = new Set<number>();
+    lines.forEach((text, index) => {
+        if (findRanges(text, pattern).length === 0) return;
+        for (let near = index - contextLines; near <= index + contextLines; near++) kept.add(near);
+    });
+    if (kept.size === 0) return content;
+
+    const out: string[] = [];
+    let omittedFrom = -1;
+    const flushOmitted = (index: number) => {
+        if (omittedFrom !== -1) out.push(`[... ${formatRange(omittedFrom + 1, index)} without matches, omitted ...]`);
+        omittedFrom = -1;
+    };
+    lines.forEach((text, index) => {
+        if (!kept.has(index)) {
+            if (omittedFrom === -1) omittedFrom = index;
+            return;
+        }
+        flushOmitted(index);
+        out.push(text);
+    });
+    flushOmitted(lines.length);
+    return out.join('\n') + (trailingNewline ? '\n' : '');
+}
+
+// Returns a copy of the tree where files with hits keep only the matching regions. Other
+// files are left as they are; leaving them out is up to the selection.
+export function focusTreeOnMatches(tree: FileSystemTree, query: SearchQuery, { mode, contextLines }: SearchOptions): FileSystemTree {
+    if (mode !== 'regions' || !query.text) return tree;
+    const pattern = compileSearchPattern(query);
+    const searched = new Set<string>();
+    forEachSearchedFile(tree, query.paths, path => searched.add(path));
+
+    const apply = (nodes: FileSystemTree): FileSystemTree => nodes.map(node => {
+        if (node.kind === 'directory') return { ...node, children: apply(node.children) };
+        return searched.has(node.path) ? { ...node, content: focusContent(node.content, pattern, contextLines) } : node;
+    });
+    return apply(tree);
+}
+
+export function getMatchingPaths(result: SearchResult): Set<string> {
+    return new Set(result.files.map(file => file.path));
+}
@@ -0,0 +1,249 @@
+import type { FileNode, FileSystemTree } from '../types';
+
+// Scans file contents for credentials before they reach the output. A finding is
+// identified by its file, a hash of the secret and which occurrence of that secret in the
+// file it is, so each occurrence can be revealed on its own and keeps its unredacted state
+// when the file is re-processed after edits elsewhere in it. The same secret always gets
+// the same placeholder.
+
+export interface SecretFinding {
+    id: string;
+    path: string;
+    rule: string;
+    label: string;
+    line: number;
+    start: number;
+    end: number;
+    value: string;
+    placeholder: string;
+}
+
+interface SecretRule {
+    id: string;
+    label: string;
+    regex: RegExp;
+    // Capture group holding the secret; the whole match is redacted when omitted
+    group?: number;
+    // Restricts the rule to files whose name matches
+    fileName?: RegExp;
+    validate?: (value: string) => boolean;
+    // Skips matches inside URLs and file paths, whose segments look random too
+    skipInLinks?: boolean;
+}
+
+const ENV_FILE_NAME = /^\.env(\..+)?$|\.env$/;
+const MIN_ENTROPY_LENGTH = 20;
+
+function shannonEntropy(value: string): number {
+    const frequencies = new Map<string, number>();
+    for (const char of value) {
+        frequencies.set(char, (frequencies.get(char) ?? 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of frequencies.values()) {
+        const p = count / value.length;
+        entropy -= p * Math.log2(p);
+    }
+    return entropy;
+}
+
+// Long camelCase identifiers and words have high entropy too, so require a mix of character classes
+function isHighEntropy(value: string): boolean {
+    if (value.length < MIN_ENTROPY_LENGTH) return false;
+    if (/^[0-9a-f]+$/i.test(value)) {
+        return value.length >= 32 && shannonEntropy(value) > 3.0;
+    }
+    const hasDigit = /[0-9]/.test(value);
+    const hasUpper = /[A-Z]/.test(value);
+    const hasLower = /[a-z]/.test(value);
+    return hasDigit && hasUpper && hasLower && shannonEntropy(value) > 4.2;
+}
+
+// Ordered from most to least specific: when matches overlap, the earlier rule wins
+const SECRET_RULES: SecretRule[] = [
+    {
+        id: 'private-key',
+        label: 'Private key block',
+        regex: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g,
+    },
+    { id: 'aws-access-key', label: 'AWS access key ID', regex: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g },
+    {
+        id: 'aws-secret-key',
+        label: 'AWS secret access key',
+        regex: /aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+        group: 1,
+    },
+    { id: 'google-api-key', label: 'Google API key', regex: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+    {
+        id: 'azure-storage-key',
+        label: 'Azure storage account key',
+        regex: /AccountKey=([A-Za-z0-9+/=]{60,})/g,
+        group: 1,
+    },
+    { id: 'github-token', label: 'GitHub token', regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/g },
+    { id: 'gitlab-token', label: 'GitLab token', regex: /\bglpat-[A-Za-z0-9_-]{20,}\b/g },
+    { id: 'slack-token', label: 'Slack token', regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g },
+    { id: 'stripe-key', label: 'Stripe key', regex: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+    { id: 'ai-api-key', label: 'AI provider API key', regex: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{32,}\b/g },
+    { id: 'jwt', label: 'JSON Web Token', regex: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+    {
+        id: 'connection-string-password',
+        label: 'Password in connection string',
+        regex: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@'"]+:([^\s@/'"]{3,})@/gi,
+        group: 1,
+    },
+    {
+        id: 'env-value',
+        label: 'Environment variable value',
+        regex: /^[ \t]*(?:export[ \t]+)?[A-Za-z_][A-Za-z0-9_.]*[ \t]*=[ \t]*(["']?)([^\r\n]*?)\1[ \t]*$/gm,
+        group: 2,
+        fileName: ENV_FILE_NAME,
+        validate: value => value.length > 0 && !value.startsWith('$'),
+    },
+    {
+        id: 'assigned-secret',
+        label: 'Hardcoded credential',
+        regex: /\b(?:password|passwd|secret|token|api[_-]?key|access[_-]?key|client[_-]?secret)["']?\s*[:=]\s*["']([^"'\s]{8,})["']/gi,
+        group: 1,
+    },
+    {
+        id: 'high-entropy',
+        label: 'High-entropy string',
+        regex: /[A-Za-z0-9+/_=-]{20,}/g,
+        validate: isHighEntropy,
+        skipInLinks: true,
+    },
+];
+
+// FNV-1a, enough to tell secrets apart in placeholders without revealing them
+function hashValue(value: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// Credentials in URLs are covered by the connection string rule
+const URL_TOKEN = /^(?:[a-z][a-z0-9+.-]*:\/\/|[\w-]+(?:\.[\w-]+)+\/)/i;
+const PATH_TOKEN = /^(?:~|\.{1,2})?\/|\/[^/]*\.[A-Za-z0-9]{1,8}$/;
+const TOKEN_BOUNDARY = /[\s"'`()[\]{}<>,;]/;
+
+// The whitespace- or quote-delimited token around a match
+function tokenAround(content: string, start: number, end: number): string {
+    let tokenStart = start;
+    while (tokenStart > 0 && !TOKEN_BOUNDARY.test(content[tokenStart - 1])) tokenStart--;
+    let tokenEnd = end;
+    while (tokenEnd < content.length && !TOKEN_BOUNDARY.test(content[tokenEnd])) tokenEnd++;
+    return content.slice(tokenStart, tokenEnd);
+}
+
+function isInLink(content: string, start: number, end: number): boolean {
+    const token = tokenAround(content, start, end);
+    return URL_TOKEN.test(token) || PATH_TOKEN.test(token);
+}
+
+function findLineStarts(content: string): number[] {
+    const starts = [0];
+    for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) starts.push(i + 1);
+    return starts;
+}
+
+// 1-based line of `index`, by binary search over the line starts
+function lineAt(lineStarts: number[], index: number): number {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (lineStarts[mid] <= index) low = mid;
+        else high = mid - 1;
+    }
+    return low + 1;
+}
+
+export function scanFile(file: FileNode): SecretFinding[] {
+    const matches: Array<Omit<SecretFinding, 'id' | 'line'> & { hash: string }> = [];
+
+    for (const rule of SECRET_RULES) {
+        if (rule.fileName && !rule.fileName.test(file.name)) continue;
+
+        for (const match of file.content.matchAll(rule.regex)) {
+            const value = rule.group !== undefined ? match[rule.group] : match[0];
+            if (!value || (rule.validate && !rule.validate(value))) continue;
+
+            const offset = rule.group !== undefined ? match[0].lastIndexOf(value) : 0;
+            const start = match.index! + offset;
+            const end = start + value.length;
+            if (matches.some(existing => start < existing.end && end > existing.start)) continue;
+            if (rule.skipInLinks && isInLink(file.content, start, end)) continue;
+
+            const hash = hashValue(value);
+            matches.push({
+                hash,
+                path: file.path,
+                rule: rule.id,
+                label: rule.label,
+                start,
+                end,
+                value,
+                placeholder: `[REDACTED_${rule.id.toUpperCase().replace(/-/g, '_')}_${hash}]`,
+            });
+        }
+    }
+
+    if (matches.length === 0) return [];
+    const lineStarts = findLineStarts(file.content);
+    const occurrences = new Map<string, number>();
+    return matches
+        .sort((a, b) => a.start - b.start)
+        .map(({ hash, ...match }) => {
+            const occurrence = occurrences.get(hash) ?? 0;
+            occurrences.set(hash, occurrence + 1);
+            return { ...match, id: `${file.path}#${hash}:${occurrence}`, line: lineAt(lineStarts, match.start) };
+        });
+}
+
+export function scanTree(tree: FileSystemTree, findings: SecretFinding[] = []): SecretFinding[] {
+    for (const node of tree) {
+        if (node.kind === 'file') findings.push(...scanFile(node));
+        else scanTree(node.children, findings);
+    }
+    return findings;
+}
+
+// A placeholder is padded to as many lines as the secret it replaces, so line numbers taken
+// from the original content, like a diff's hunks, still apply after redaction
+function redactContent(content: string, findings: SecretFinding[]): string {
+    let result = '';
+    let cursor = 0;
+    for (const finding of findings) {
+        const lineBreaks = finding.value.split('\n').length - 1;
+        result += content.slice(cursor, finding.start) + finding.placeholder + '\n'.repeat(lineBreaks);
+        cursor = finding.end;
+    }
+    return result + content.slice(cursor);
+}
+
+// Returns a copy of the tree with every finding not listed in `unredactedIds` replaced by its placeholder
+export function redactTree(tree: FileSystemTree, findings: SecretFinding[], unredactedIds: Set<string>): FileSystemTree {
+    const byPath = new Map<string, SecretFinding[]>();
+    for (const finding of findings) {
+        if (unredactedIds.has(finding.id)) continue;
+        byPath.set(finding.path, [...(byPath.get(finding.path) ?? []), finding]);
+    }
+    if (byPath.size === 0) return tree;
+
+    const redact = (nodes: FileSystemTree): FileSystemTree => nodes.map(node => {
+        if (node.kind === 'directory') return { ...node, children: redact(node.children) };
+        const fileFindings = byPath.get(node.path);
+        return fileFindings ? { ...node, content: redactContent(node.content, fileFindings) } : node;
+    });
+    return redact(tree);
+}
+
+export function maskSecret(value: string): string {
+    const firstLine = value.split('\n')[0];
+    if (firstLine.length <= 8) return '•'.repeat(firstLine.length);
+    return `${firstLine.slice(0, 4)}${'•'.repeat(Math.min(12, firstLine.length - 4))}`;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { DirectoryNode, FileNode, FileSystemTree } from '../types';
+import { excludeAllExcept, filterTree, getSelectionState, toggleNode } from './selection.service';
+
+const file = (path: string): FileNode => ({ kind: 'file', name: path.split('/').pop()!, path, content: '' });
+
+const src: DirectoryNode = { kind: 'directory', name: 'src', path: 'app/src', children: [file('app/src/a.ts'), file('app/src/b.ts')] };
+const app: DirectoryNode = { kind: 'directory', name: 'app', path: 'app', children: [src, file('app/README.md')] };
+const tree: FileSystemTree = [app];
+
+describe('getSelectionState', () => {
+    it('is indeterminate for folders with both included and excluded files', () => {
+        const excluded = new Set(['app/src/a.ts']);
+        expect(getSelectionState(src, excluded)).toBe('indeterminate');
+        expect(getSelectionState(app, excluded)).toBe('indeterminate');
+        expect(getSelectionState(app, new Set())).toBe('checked');
+        expect(getSelectionState(src, new Set(['app/src/a.ts', 'app/src/b.ts']))).toBe('unchecked');
+        expect(getSelectionState(src.children[1], new Set(['app']))).toBe('unchecked');
+    });
+});
+
+describe('toggleNode', () => {
+    it('excludes a checked folder as a whole', () => {
+        expect([...toggleNode(tree, src, new Set())]).toEqual(['app/src']);
+    });
+
+    it('fully includes a partially selected folder', () => {
+        expect([...toggleNode(tree, src, new Set(['app/src/a.ts']))]).toEqual([]);
+    });
+
+    it('includes a file under an excluded folder by excluding its siblings instead', () => {
+        expect([...toggleNode(tree, src.children[0], new Set(['app']))].sort()).toEqual(['app/README.md', 'app/src/b.ts']);
+    });
+});
+
+describe('filterTree', () => {
+    it('drops excluded nodes and the folders they empty', () => {
+        expect(filterTree(tree, new Set(['app/src/a.ts', 'app/src/b.ts']))).toEqual([{ ...app, children: [file('app/README.md')] }]);
+        expect(filterTree(tree, new Set())).toBe(tree);
+    });
+});
+
+describe('excludeAllExcept', () => {
+    it('excludes folders without any of the files as a whole', () => {
+        expect([...excludeAllExcept(tree, new Set(['app/README.md']))]).toEqual(['app/src']);
+        expect([...excludeAllExcept(tree, new Set(['app/src/b.ts']))].sort()).toEqual(['app/README.md', 'app/src/a.ts']);
+    });
+});
@@ -0,0 +1,128 @@
+import type { DirectoryNode, FileSystemNode, FileSystemTree } from '../types';
+
+// Exclusions are stored as node paths. Excluding a directory excludes everything below it,
+// which keeps the selection stable when the same folder is re-processed with new files.
+
+export type SelectionState = 'checked' | 'unchecked' | 'indeterminate';
+
+function isUnderExcludedPath(path: string, excludedPaths: Set<string>): boolean {
+    if (excludedPaths.has(path)) return true;
+    let slash = path.lastIndexOf('/');
+    while (slash !== -1) {
+        if (excludedPaths.has(path.slice(0, slash))) return true;
+        slash = path.lastIndexOf('/', slash - 1);
+    }
+    return false;
+}
+
+export function isExcluded(node: FileSystemNode, excludedPaths: Set<string>): boolean {
+    return isUnderExcludedPath(node.path, excludedPaths);
+}
+
+export function getSelectionState(node: FileSystemNode, excludedPaths: Set<string>): SelectionState {
+    if (isExcluded(node, excludedPaths)) return 'unchecked';
+    if (node.kind === 'file') return 'checked';
+
+    let hasChecked = false;
+    let hasUnchecked = false;
+    for (const child of node.children) {
+        const state = getSelectionState(child, excludedPaths);
+        if (state === 'indeterminate') return 'indeterminate';
+        if (state === 'checked') hasChecked = true;
+        else hasUnchecked = true;
+        if (hasChecked && hasUnchecked) return 'indeterminate';
+    }
+    return hasUnchecked ? 'unchecked' : 'checked';
+}
+
+function collectPaths(node: FileSystemNode, paths: string[] = []): string[] {
+    paths.push(node.path);
+    if (node.kind === 'directory') {
+        node.children.forEach(child => collectPaths(child, paths));
+    }
+    return paths;
+}
+
+function findAncestors(tree: FileSystemTree, path: string): DirectoryNode[] {
+    for (const node of tree) {
+        if (node.kind !== 'directory') continue;
+        if (path.startsWith(`${node.path}/`)) {
+            return [node, ...findAncestors(node.children, path)];
+        }
+    }
+    return [];
+}
+
+function includeNode(tree: FileSystemTree, node: FileSystemNode, excludedPaths: Set<string>): Set<string> {
+    const next = new Set(excludedPaths);
+    collectPaths(node).forEach(path => next.delete(path));
+
+    // If an ancestor was excluded as a whole, replace it with exclusions for the siblings along the way down
+    const ancestors = findAncestors(tree, node.path);
+    const excludedIndex = ancestors.findIndex(ancestor => next.has(ancestor.path));
+    if (excludedIndex !== -1) {
+        for (let i = excludedIndex; i < ancestors.length; i++) {
+            next.delete(ancestors[i].path);
+            const onPath = i + 1 < ancestors.length ? ancestors[i + 1].path : node.path;
+            ancestors[i].children
+                .filter(child => child.path !== onPath)
+                .forEach(child => next.add(child.path));
+        }
+    }
+    return next;
+}
+
+function excludeNode(node: FileSystemNode, excludedPaths: Set<string>): Set<string> {
+    const next = new Set(excludedPaths);
+    collectPaths(node).forEach(path => next.delete(path));
+    next.add(node.path);
+    return next;
+}
+
+// Checked nodes get excluded; unchecked and partially checked nodes get fully included.
+export function toggleNode(tree: FileSystemTree, node: FileSystemNode, excludedPaths: Set<string>): Set<string> {
+    return getSelectionState(node, excludedPaths) === 'checked'
+        ? excludeNode(node, excludedPaths)
+        : includeNode(tree, node, excludedPaths);
+}
+
+// Returns a copy of the tree without excluded nodes. Directories emptied by the filter are dropped as well.
+export function filterTree(tree: FileSystemTree, excludedPaths: Set<string>): FileSystemTree {
+    if (excludedPaths.size === 0) return tree;
+
+    const result: FileSystemTree = [];
+    for (const node of tree) {
+        if (excludedPaths.has(node.path)) continue;
+        if (node.kind === 'file') {
+            result.push(node);
+        } else {
+            const children = filterTree(node.children, excludedPaths);
+            if (children.length > 0 || node.children.length === 0) {
+                result.push({ ...node, children });
+            }
+        }
+    }
+    return result;
+}
+
+export function countFiles(tree: FileSystemTree): number {
+    return tree.reduce((count, node) => count + (node.kind === 'file' ? 1 : countFiles(node.children)), 0);
+}
+
+function hasIncludedFile(node: FileSystemNode, includedPaths: Set<string>): boolean {
+    return node.kind === 'file' ? includedPaths.has(node.path) : node.children.some(child => hasIncludedFile(child, includedPaths));
+}
+
+// The exclusions that leave exactly the given files included. Folders without any of them
+// are excluded as a whole rather than file by file.
+export function excludeAllExcept(tree: FileSystemTree, includedPaths: Set<string>): Set<string> {
+    const excluded = new Set<string>();
+    const visit = (nodes: FileSystemTree) => {
+        for (const node of nodes) {
+            if (!hasIncludedFile(node, includedPaths)) excluded.add(node.path);
+            else if (node.kind === 'directory') visit(node.children);
+        }
+    };
+    visit(tree);
+    return excluded;
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import type { FileSystemTree } from '../types';
+import { getContentMode, setContentMode, skeletonize, skeletonizeTree, type ContentMode } from './skeleton.service';
+
+const source = (lines: string[]) => lines.join('\n');
+
+describe('skeletonize (TypeScript)', () => {
+    it('replaces function and method bodies but keeps types and classes', () => {
+        const content = source([
+            'import { a } from "./a";',
+            'export interface Shape { area(): number }',
+            'export function area(r: number): number {',
+            '    if (r > 0) { return r * r; }',
+            '    return 0;',
+            '}',
+            'export class Circle extends Base {',
+            '    radius = 1;',
+            '    get area() { return this.radius; }',
+            '}',
+            'const double = (x: number) => { return x * 2; };',
+        ]);
+        expect(skeletonize(content, 'shapes.ts')).toBe(source([
+            'import { a } from "./a";',
+            'export interface Shape { area(): number }',
+            'export function area(r: number): number { /* ... */ }',
+            'export class Circle extends Base {',
+            '    radius = 1;',
+            '    get area() { /* ... */ }',
+            '}',
+            'const double = (x: number) => { /* ... */ };',
+        ]));
+    });
+
+    it('keeps top-level loops, for await included', () => {
+        const content = source([
+            'for await (const chunk of stream) {',
+            '    process(chunk);',
+            '}',
+            'for (const x of xs) { use(x); }',
+        ]);
+        expect(skeletonize(content, 'main.mjs')).toBe(content);
+    });
+
+    it('ignores braces inside strings and comments', () => {
+        const content = 'function f() {\n    const s = "}"; // }\n    return s;\n}\nexport const after = 1;';
+        expect(skeletonize(content, 'a.ts')).toBe('function f() { /* ... */ }\nexport const after = 1;');
+    });
+});
+
+describe('skeletonize (Python)', () => {
+    it('keeps signatures and docstrings', () => {
+        const content = source([
+            'class Greeter:',
+            '    def greet(self, name,',
+            '              punctuation="!"):',
+            '        """Says hello."""',
+            '        message = f"Hello {name}"',
+            '        return message + punctuation',
+            '',
+            'def one_liner(): return 1',
+        ]);
+        expect(skeletonize(content, 'greet.py')).toBe(source([
+            'class Greeter:',
+            '    def greet(self, name,',
+            '              punctuation="!"):',
+            '        """Says hello."""',
+            '        ...',
+            '',
+            'def one_liner(): return 1',
+        ]));
+    });
+
+    it('does not end a body at string lines in column 0', () => {
+        const content = source([
+            'def render():',
+            '    s = """',
+            'def not_real():',
+            '    pass',
+            '"""',
+            '    return s',
+            '',
+            'def after():',
+            '    return 2',
+        ]);
+        expect(skeletonize(content, 'render.py')).toBe(source([
+            'def render():',
+            '    ...',
+            '',
+            'def after():',
+            '    ...',
+        ]));
+    });
+
+    it('ignores defs inside comments', () => {
+        const content = source(['# def commented():', 'x = 1']);
+        expect(skeletonize(content, 'a.py')).toBe(content);
+    });
+});
+
+describe('content modes', () => {
+    it('inherits a folder mode unless a deeper path sets its own', () => {
+        let modes = new Map<string, ContentMode>([['app/src/main.ts', 'full']]);
+        modes = setContentMode({ kind: 'directory', name: 'lib', path: 'app/lib', children: [] }, 'skeleton', modes);
+        modes.set('app/lib/keep.ts', 'full');
+        expect(getContentMode('app/lib/x/y.ts', modes)).toBe('skeleton');
+        expect(getContentMode('app/lib/keep.ts', modes)).toBe('full');
+        expect(getContentMode('app/other.ts', modes)).toBe('full');
+    });
+
+    it('clears deeper modes when a folder mode is set', () => {
+        const modes = setContentMode(
+            { kind: 'directory', name: 'app', path: 'app', children: [] },
+            'skeleton',
+            new Map([['app/a.ts', 'full']]),
+        );
+        expect([...modes]).toEqual([['app', 'skeleton']]);
+    });
+
+    it('only rewrites files in skeleton mode', () => {
+        const tree: FileSystemTree = [{
+            kind: 'directory',
+            name: 'app',
+            path: 'app',
+            children: [
+                { kind: 'file', name: 'a.ts', path: 'app/a.ts', content: 'function a() { return 1; }' },
+                { kind: 'file', name: 'b.ts', path: 'app/b.ts', content: 'function b() { return 2; }' },
+            ],
+        }];
+        const [app] = skeletonizeTree(tree, new Map([['app/a.ts', 'skeleton']]));
+        expect(app.kind === 'directory' && app.children.map(child => child.kind === 'file' && child.content)).toEqual([
+            'function a() { /* ... */ }',
+            'function b() { return 2; }',
+        ]);
+    });
+});
@@ -0,0 +1,188 @@
+import type { FileSystemNode, FileSystemTree } from '../types';
+import { getLanguage } from './format.service';
+import { getCodeSyntax, maskNonCode, splitCodeSegments } from './lexer.service';
+
+// Skeleton mode keeps a file's API surface (imports, exports, types, class members and
+// function signatures) and replaces function bodies with a placeholder. Modes are stored
+// per path like exclusions: a folder's mode applies to everything below it unless a
+// deeper path sets its own.
+
+export type ContentMode = 'full' | 'skeleton';
+
+const JS_BODY_PLACEHOLDER = '{ /* ... */ }';
+const PYTHON_BODY_PLACEHOLDER = '...';
+
+// A parenthesised head followed by a block is a function unless it belongs to one of these
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'with']);
+// What may sit between a parameter list and the body: nothing, or a return type
+const RETURN_TYPE = /^\s*(:\s*[^{};=()]*)?$/;
+
+export function getContentMode(path: string, contentModes: Map<string, ContentMode>): ContentMode {
+    let current = path;
+    while (true) {
+        const mode = contentModes.get(current);
+        if (mode) return mode;
+        const slash = current.lastIndexOf('/');
+        if (slash === -1) return 'full';
+        current = current.slice(0, slash);
+    }
+}
+
+// Setting a folder's mode clears the modes set below it, so the whole folder follows
+export function setContentMode(node: FileSystemNode, mode: ContentMode, contentModes: Map<string, ContentMode>): Map<string, ContentMode> {
+    const next = new Map(contentModes);
+    for (const path of next.keys()) {
+        if (path.startsWith(`${node.path}/`)) next.delete(path);
+    }
+    next.set(node.path, mode);
+    return next;
+}
+
+function findMatching(mask: string, open: number, openChar: string, closeChar: string, step: 1 | -1): number {
+    let depth = 0;
+    for (let i = open; i >= 0 && i < mask.length; i += step) {
+        if (mask[i] === openChar) depth++;
+        else if (mask[i] === closeChar && --depth === 0) return i;
+    }
+    return -1;
+}
+
+// Further apart than this, the parenthesis belongs to something before the block
+const MAX_RETURN_TYPE_LENGTH = 300;
+
+function isFunctionBody(mask: string, brace: number): boolean {
+    let last = brace - 1;
+    while (last >= 0 && /\s/.test(mask[last])) last--;
+    if (mask[last] === '>' && mask[last - 1] === '=') return true;
+
+    const closeParen = mask.lastIndexOf(')', last);
+    if (closeParen === -1 || brace - closeParen > MAX_RETURN_TYPE_LENGTH) return false;
+    if (!RETURN_TYPE.test(mask.slice(closeParen + 1, brace))) return false;
+    const openParen = findMatching(mask, closeParen, ')', '(', -1);
+    if (openParen === -1) return false;
+
+    const head = mask.slice(Math.max(0, openParen - 200), openParen);
+    // The word before `await` decides for `for await (...)` loops
+    const word = /([A-Za-z_$][\w$]*)(?:\s+await)?\s*$/.exec(head);
+    if (word && CONTROL_KEYWORDS.has(word[1])) return false;
+    // class Foo extends mixin(Base) { ... } is a class body, not a call followed by a body
+    return !/\b(class|interface)\b[^{};]*$/.test(head);
+}
+
+function skeletonizeScript(content: string, path: string): string {
+    const syntax = getCodeSyntax(path);
+    if (!syntax || syntax === 'markup') return content;
+    const mask = maskNonCode(content, splitCodeSegments(content, syntax));
+
+    let out = '';
+    let copiedUpTo = 0;
+    for (let i = 0; i < mask.length; i++) {
+        if (mask[i] !== '{' || !isFunctionBody(mask, i)) continue;
+        const close = findMatching(mask, i, '{', '}', 1);
+        // Unbalanced, most likely truncated: keep the rest as it is
+        if (close === -1) break;
+        out += content.slice(copiedUpTo, i) + JS_BODY_PLACEHOLDER;
+        copiedUpTo = close + 1;
+        i = close;
+    }
+    return out + content.slice(copiedUpTo);
+}
+
+function indentOf(line: string): number {
+    return line.length - line.trimStart().length;
+}
+
+// Keeps each def's signature and docstring and replaces the rest of its body. Class bodies
+// and module-level code stay, so methods are handled the same way as functions. Blocks are
+// found on the masked content, so strings and comments can't end a body or start a def.
+function skeletonizePython(content: string, path: string): string {
+    const syntax = getCodeSyntax(path);
+    if (!syntax || syntax === 'markup') return content;
+    const lines = content.split('\n');
+    // Line for line the same as `lines`, with strings and comments blanked out
+    const codeLines = maskNonCode(content, splitCodeSegments(content, syntax)).split('\n');
+    const out: string[] = [];
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+        const codeLine = codeLines[i];
+        out.push(line);
+        i++;
+        if (!/^\s*(async\s+)?def\s/.test(codeLine)) continue;
+
+        // Parameters can span several lines; the signature ends where they close
+        let depth = 0;
+        let signatureLine = codeLine;
+        while (true) {
+            for (const ch of signatureLine) {
+                if ('([{'.includes(ch)) depth++;
+                else if (')]}'.includes(ch)) depth--;
+            }
+            if (depth <= 0 || i >= lines.length) break;
+            signatureLine = codeLines[i];
+            out.push(lines[i]);
+            i++;
+        }
+        // One-liners like `def f(): return 1` have no body block
+        if (!/:\s*$/.test(signatureLine)) continue;
+
+        const defIndent = indentOf(codeLine);
+        const bodyStart = i;
+        // Lines inside a multi-line string are blank in the mask, whatever their indentation
+        while (i < lines.length && (codeLines[i].trim() === '' || indentOf(codeLines[i]) > defIndent)) i++;
+        // Trailing blank lines belong to whatever follows
+        let bodyEnd = i;
+        while (bodyEnd > bodyStart && lines[bodyEnd - 1].trim() === '') bodyEnd--;
+        if (bodyEnd === bodyStart) {
+            out.push(...lines.slice(bodyStart, i));
+            continue;
+        }
+
+        const body = lines.slice(bodyStart, bodyEnd);
+        const bodyIndent = ' '.repeat(indentOf(body.find(bodyLine => bodyLine.trim() !== '') ?? ''));
+        const docstring = /^\s*[rRuUbB]?("""|''')/.exec(body[0]);
+        let kept = 0;
+        if (docstring) {
+            const quote = docstring[1];
+            const closesOnFirstLine = body[0].indexOf(quote, body[0].indexOf(quote) + 3) !== -1;
+            kept = closesOnFirstLine ? 1 : body.findIndex((bodyLine, index) => index > 0 && bodyLine.includes(quote)) + 1;
+            if (kept === 0) kept = body.length;
+        }
+        out.push(...body.slice(0, kept));
+        if (kept < body.length) out.push(`${bodyIndent}${PYTHON_BODY_PLACEHOLDER}`);
+        out.push(...lines.slice(bodyEnd, i));
+    }
+    return out.join('\n');
+}
+
+const SKELETONIZERS: Record<string, (content: string, path: string) => string> = {
+    typescript: skeletonizeScript,
+    tsx: skeletonizeScript,
+    javascript: skeletonizeScript,
+    jsx: skeletonizeScript,
+    python: skeletonizePython,
+};
+
+export function isSkeletonSupported(path: string): boolean {
+    return getLanguage(path) in SKELETONIZERS;
+}
+
+// Files in languages without a skeletonizer keep their full content
+export function skeletonize(content: string, path: string): string {
+    const skeletonizer = SKELETONIZERS[getLanguage(path)];
+    return skeletonizer ? skeletonizer(content, path) : content;
+}
+
+// Returns a copy of the tree with the content of every skeleton-mode file reduced to its skeleton
+export function skeletonizeTree(tree: FileSystemTree, contentModes: Map<string, ContentMode>): FileSystemTree {
+    if (contentModes.size === 0) return tree;
+
+    const apply = (nodes: FileSystemTree): FileSystemTree => nodes.map(node => {
+        if (node.kind === 'directory') return { ...node, children: apply(node.children) };
+        if (getContentMode(node.path, contentModes) !== 'skeleton') return node;
+        const content = skeletonize(node.content, node.path);
+        return content === node.content ? node : { ...node, content };
+    });
+    return apply(tree);
+}
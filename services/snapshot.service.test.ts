@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DirectoryNode, FileNode, FileSystemTree } from '../types';
+import { buildDeltaContext, compareWithSnapshot, hashTree, loadSnapshots, saveSnapshot, type Snapshot } from './snapshot.service';
+
+// An in-memory stand-in for the IndexedDB stores
+const records = new Map<string, Snapshot>();
+
+vi.mock('./idb.service', () => ({
+    STORES: { workspaceHandles: 'workspace-handles', snapshots: 'snapshots' },
+    isIndexedDbAvailable: () => true,
+    getAllRecords: async () => Array.from(records.values()),
+    putRecord: async (_store: string, record: Snapshot) => void records.set(record.id, record),
+    deleteRecord: async (_store: string, id: string) => void records.delete(id),
+    clearStore: async () => records.clear(),
+}));
+
+const file = (path: string, content: string): FileNode => ({ kind: 'file', name: path.split('/').pop()!, path, content });
+
+const dir = (path: string, children: DirectoryNode['children']): DirectoryNode => ({ kind: 'directory', name: path.split('/').pop()!, path, children });
+
+const settings = { format: 'markdown' as const, templateBody: '', task: '' };
+
+const save = (tree: FileSystemTree) => saveSnapshot(tree, { label: 'src', tokenCount: 0, settings });
+
+describe('hashTree', () => {
+    it('hashes each file by path with SHA-256', async () => {
+        const hashes = await hashTree([file('a.txt', 'abc'), dir('src', [file('src/b.txt', '')])]);
+        expect(hashes).toEqual({
+            'a.txt': 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+            'src/b.txt': 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+        });
+    });
+});
+
+describe('saveSnapshot', () => {
+    let clock = 0;
+
+    beforeEach(() => {
+        records.clear();
+        vi.spyOn(Date, 'now').mockImplementation(() => ++clock);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('skips saving when nothing changed since the latest snapshot', async () => {
+        const first = await save([file('a.txt', 'one')]);
+        expect(first).toMatchObject({ fileCount: 1, label: 'src' });
+        expect(await save([file('a.txt', 'one')])).toBeUndefined();
+        expect(await save([file('a.txt', 'two')])).toBeDefined();
+        expect(await loadSnapshots()).toHaveLength(2);
+    });
+
+    it('keeps only the newest 20 snapshots', async () => {
+        const saved: Snapshot[] = [];
+        for (let i = 0; i < 23; i++) saved.push((await save([file('a.txt', `version ${i}`)]))!);
+
+        const snapshots = await loadSnapshots();
+        expect(snapshots).toHaveLength(20);
+        expect(snapshots[0].id).toBe(saved[22].id);
+        expect(snapshots.map(snapshot => snapshot.id)).not.toContain(saved[2].id);
+        expect(snapshots[19].id).toBe(saved[3].id);
+    });
+});
+
+describe('snapshot deltas', () => {
+    const previous = [file('kept.ts', 'same\n'), file('changed.ts', 'old\n'), file('removed.ts', 'gone\n')];
+    const current = [file('kept.ts', 'same\n'), file('changed.ts', 'new\n'), dir('src', [file('src/added.ts', 'fresh\n')])];
+
+    const snapshotOf = async (tree: FileSystemTree): Promise<Snapshot> => ({
+        id: 'previous',
+        createdAt: 0,
+        label: 'src',
+        tree,
+        hashes: await hashTree(tree),
+        fileCount: 3,
+        tokenCount: 0,
+        settings,
+    });
+
+    it('sorts files into added, modified and deleted', async () => {
+        const delta = await compareWithSnapshot(await snapshotOf(previous), current);
+        expect(delta.added.map(node => node.path)).toEqual(['src/added.ts']);
+        expect(delta.modified.map(({ previous, current }) => [previous.content, current.content])).toEqual([['old\n', 'new\n']]);
+        expect(delta.deleted.map(node => node.path)).toEqual(['removed.ts']);
+    });
+
+    it('includes modified files in full mode and only their patch in diff mode', async () => {
+        const delta = await compareWithSnapshot(await snapshotOf(previous), current);
+
+        const full = buildDeltaContext(current, delta, 'full');
+        expect(full.tree).toEqual([file('changed.ts', 'new\n'), dir('src', [file('src/added.ts', 'fresh\n')])]);
+        expect(full.diff).toBe(['diff --git a/removed.ts b/removed.ts', 'deleted file mode 100644', '--- a/removed.ts', '+++ /dev/null'].join('\n'));
+
+        const diff = buildDeltaContext(current, delta, 'diff');
+        expect(diff.tree).toEqual([dir('src', [file('src/added.ts', 'fresh\n')])]);
+        expect(diff.diff).toContain('--- a/changed.ts\n+++ b/changed.ts');
+        expect(diff.diff).toContain('-old\n+new');
+        expect(diff.diff).toContain('deleted file mode 100644');
+    });
+});
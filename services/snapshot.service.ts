@@ -0,0 +1,141 @@
+import type { FileNode, FileSystemTree } from '../types';
+import type { OutputFormat } from './format.service';
+import { STORES, clearStore, deleteRecord, getAllRecords, isIndexedDbAvailable, putRecord } from './idb.service';
+import { excludeAllExcept, filterTree } from './selection.service';
+import { createDeletionDiff, createUnifiedDiff } from './diff.service';
+
+// Copies of what was put on the clipboard, so later output can be limited to what changed
+// since. Snapshots keep the processed tree (after redaction, skeletons and compaction) rather
+// than the raw files, which is what the earlier paste actually contained.
+
+export interface SnapshotSettings {
+    format: OutputFormat;
+    templateBody: string;
+    task: string;
+    diff?: string;
+}
+
+export interface Snapshot {
+    id: string;
+    createdAt: number;
+    // Names of the sources it was taken from
+    label: string;
+    tree: FileSystemTree;
+    // SHA-256 of each file's content, by path
+    hashes: Record<string, string>;
+    fileCount: number;
+    tokenCount: number;
+    // What the output was generated with, so it can be regenerated as it was
+    settings: SnapshotSettings;
+}
+
+export interface SnapshotDelta {
+    added: FileNode[];
+    modified: Array<{ previous: FileNode; current: FileNode }>;
+    deleted: FileNode[];
+}
+
+// 'full' includes modified files as they are now; 'diff' only includes their changes
+export type DeltaMode = 'full' | 'diff';
+
+// The oldest snapshots are deleted past this
+const MAX_SNAPSHOTS = 20;
+
+function collectFiles(nodes: FileSystemTree, files: FileNode[] = []): FileNode[] {
+    for (const node of nodes) {
+        if (node.kind === 'file') files.push(node);
+        else collectFiles(node.children, files);
+    }
+    return files;
+}
+
+async function hashContent(content: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function hashTree(tree: FileSystemTree): Promise<Record<string, string>> {
+    const files = collectFiles(tree);
+    const hashes = await Promise.all(files.map(file => hashContent(file.content)));
+    return Object.fromEntries(files.map((file, index) => [file.path, hashes[index]]));
+}
+
+function isSameContent(a: Record<string, string>, b: Record<string, string>): boolean {
+    const paths = Object.keys(a);
+    return paths.length === Object.keys(b).length && paths.every(path => a[path] === b[path]);
+}
+
+// Newest first
+export async function loadSnapshots(): Promise<Snapshot[]> {
+    if (!isIndexedDbAvailable()) return [];
+    const snapshots = await getAllRecords<Snapshot>(STORES.snapshots);
+    return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Returns undefined when nothing changed since the latest snapshot, so copying the same
+// output twice doesn't fill the history
+export async function saveSnapshot(
+    tree: FileSystemTree,
+    { label, tokenCount, settings }: Pick<Snapshot, 'label' | 'tokenCount' | 'settings'>,
+): Promise<Snapshot | undefined> {
+    if (!isIndexedDbAvailable()) return undefined;
+    const hashes = await hashTree(tree);
+    const existing = await loadSnapshots();
+    if (existing.length > 0 && isSameContent(existing[0].hashes, hashes)) return undefined;
+
+    const snapshot: Snapshot = {
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        label,
+        tree,
+        hashes,
+        fileCount: Object.keys(hashes).length,
+        tokenCount,
+        settings,
+    };
+    await putRecord(STORES.snapshots, snapshot);
+    await Promise.all(existing.slice(MAX_SNAPSHOTS - 1).map(old => deleteRecord(STORES.snapshots, old.id)));
+    return snapshot;
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+    if (!isIndexedDbAvailable()) return;
+    await deleteRecord(STORES.snapshots, id);
+}
+
+export async function clearSnapshots(): Promise<void> {
+    if (!isIndexedDbAvailable()) return;
+    await clearStore(STORES.snapshots);
+}
+
+export async function compareWithSnapshot(snapshot: Snapshot, tree: FileSystemTree): Promise<SnapshotDelta> {
+    const hashes = await hashTree(tree);
+    const previousFiles = new Map(collectFiles(snapshot.tree).map(file => [file.path, file]));
+    const delta: SnapshotDelta = { added: [], modified: [], deleted: [] };
+
+    for (const file of collectFiles(tree)) {
+        const previous = previousFiles.get(file.path);
+        if (!previous) delta.added.push(file);
+        else if (snapshot.hashes[file.path] !== hashes[file.path]) delta.modified.push({ previous, current: file });
+        previousFiles.delete(file.path);
+    }
+    delta.deleted = Array.from(previousFiles.values());
+    return delta;
+}
+
+// The files to include and the patch for the diff section. Deleted files are only named in
+// the patch; in 'diff' mode modified files are described there as well.
+export function buildDeltaContext(tree: FileSystemTree, delta: SnapshotDelta, mode: DeltaMode): { tree: FileSystemTree; diff: string } {
+    const included = new Set([
+        ...delta.added.map(file => file.path),
+        ...(mode === 'full' ? delta.modified.map(({ current }) => current.path) : []),
+    ]);
+    const patches = [
+        ...(mode === 'diff' ? delta.modified.map(({ previous, current }) => createUnifiedDiff(current.path, previous.content, current.content)) : []),
+        ...delta.deleted.map(file => createDeletionDiff(file.path)),
+    ];
+    return {
+        tree: filterTree(tree, excludeAllExcept(tree, included)),
+        diff: patches.join('\n'),
+    };
+}
@@ -0,0 +1,197 @@
+import type { FileSource } from '../types';
+import { DEFAULT_IGNORE_SETTINGS, isIgnoredDirectory, type IgnoreSettings } from './file.service';
+import { isZipFileName } from './zip.service';
+import { STORES, deleteRecord, clearStore, getAllRecords, isIndexedDbAvailable, putRecord } from './idb.service';
+
+// Builds FileSources from the different ways files can enter the app: file inputs,
+// drag-and-drop and File System Access directory handles.
+
+// Parts of the File System Access API that the DOM typings don't include yet
+type PermissionState = 'granted' | 'denied' | 'prompt';
+
+interface ReadableDirectoryHandle extends FileSystemDirectoryHandle {
+    values(): AsyncIterableIterator<FileSystemDirectoryHandle | FileSystemFileHandle>;
+    queryPermission(descriptor: { mode: 'read' }): Promise<PermissionState>;
+    requestPermission(descriptor: { mode: 'read' }): Promise<PermissionState>;
+}
+
+type DirectoryPickerWindow = Window & {
+    showDirectoryPicker?: (options?: { mode?: 'read' }) => Promise<FileSystemDirectoryHandle>;
+};
+
+interface StoredWorkspaceHandle {
+    id: string;
+    name: string;
+    handle: FileSystemDirectoryHandle;
+}
+
+interface WalkedFiles {
+    files: File[];
+    relativePaths: string[];
+    prunedDirs: string[];
+}
+
+// Zip files become archive sources that get unpacked during processing
+export function createFileSources(files: File[]): FileSource[] {
+    return files.map(file => ({
+        id: crypto.randomUUID(),
+        name: file.name,
+        kind: isZipFileName(file.name) ? 'archive' : 'file',
+        files: [file],
+    }));
+}
+
+// Files from a folder input carry their path in webkitRelativePath, starting with the folder name
+export function createDirectorySourceFromInput(files: File[]): FileSource {
+    const folderName = files[0]?.webkitRelativePath.split('/')[0] || 'Selected Folder';
+    return {
+        id: crypto.randomUUID(),
+        name: folderName,
+        kind: 'directory',
+        files,
+        relativePaths: files.map(file => file.webkitRelativePath || `${folderName}/${file.name}`),
+    };
+}
+
+// Drag and drop
+
+function readEntryFile(entry: FileSystemFileEntry): Promise<File> {
+    return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// readEntries returns results in batches, so keep reading until an empty batch comes back
+async function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    while (true) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) return entries;
+        entries.push(...batch);
+    }
+}
+
+async function walkDirectoryEntry(directory: FileSystemDirectoryEntry, prefix: string, walked: WalkedFiles, ignore: IgnoreSettings): Promise<void> {
+    for (const entry of await readAllEntries(directory)) {
+        const path = `${prefix}/${entry.name}`;
+        if (entry.isDirectory) {
+            if (isIgnoredDirectory(entry.name, ignore)) {
+                walked.prunedDirs.push(path);
+                continue;
+            }
+            await walkDirectoryEntry(entry as FileSystemDirectoryEntry, path, walked, ignore);
+        } else if (entry.isFile) {
+            walked.files.push(await readEntryFile(entry as FileSystemFileEntry));
+            walked.relativePaths.push(path);
+        }
+    }
+}
+
+export async function createSourcesFromDataTransfer(items: DataTransferItemList, ignore: IgnoreSettings = DEFAULT_IGNORE_SETTINGS): Promise<FileSource[]> {
+    // Entries must be collected synchronously, the item list is emptied once the drop event returns
+    const entries = Array.from(items)
+        .filter(item => item.kind === 'file')
+        .map(item => item.webkitGetAsEntry())
+        .filter((entry): entry is FileSystemEntry => entry !== null);
+
+    const sources: FileSource[] = [];
+    for (const entry of entries) {
+        if (entry.isDirectory) {
+            const walked: WalkedFiles = { files: [], relativePaths: [], prunedDirs: [] };
+            await walkDirectoryEntry(entry as FileSystemDirectoryEntry, entry.name, walked, ignore);
+            sources.push({ id: crypto.randomUUID(), name: entry.name, kind: 'directory', ...walked });
+        } else if (entry.isFile) {
+            sources.push(...createFileSources([await readEntryFile(entry as FileSystemFileEntry)]));
+        }
+    }
+    return sources;
+}
+
+// File System Access API
+
+export function isDirectoryPickerSupported(): boolean {
+    return typeof window !== 'undefined' && typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function';
+}
+
+async function walkDirectoryHandle(directory: ReadableDirectoryHandle, prefix: string, walked: WalkedFiles, ignore: IgnoreSettings): Promise<void> {
+    for await (const child of directory.values()) {
+        const path = `${prefix}/${child.name}`;
+        if (child.kind === 'directory') {
+            if (isIgnoredDirectory(child.name, ignore)) {
+                walked.prunedDirs.push(path);
+                continue;
+            }
+            await walkDirectoryHandle(child as ReadableDirectoryHandle, path, walked, ignore);
+        } else {
+            walked.files.push(await child.getFile());
+            walked.relativePaths.push(path);
+        }
+    }
+}
+
+export async function readDirectoryHandle(
+    handle: FileSystemDirectoryHandle,
+    id: string = crypto.randomUUID(),
+    ignore: IgnoreSettings = DEFAULT_IGNORE_SETTINGS,
+): Promise<FileSource> {
+    const walked: WalkedFiles = { files: [], relativePaths: [], prunedDirs: [] };
+    await walkDirectoryHandle(handle as ReadableDirectoryHandle, handle.name, walked, ignore);
+    return { id, name: handle.name, kind: 'directory', handle, ...walked };
+}
+
+export async function pickDirectorySource(ignore: IgnoreSettings = DEFAULT_IGNORE_SETTINGS): Promise<FileSource> {
+    const handle = await (window as DirectoryPickerWindow).showDirectoryPicker!({ mode: 'read' });
+    return readDirectoryHandle(handle, undefined, ignore);
+}
+
+// Re-reads a handle-backed source from disk. The result is a new object with the same id,
+// so caches keyed by source identity pick up the change.
+export function refreshSource(source: FileSource, ignore: IgnoreSettings = DEFAULT_IGNORE_SETTINGS): Promise<FileSource> {
+    if (!source.handle) return Promise.resolve(source);
+    return readDirectoryHandle(source.handle, source.id, ignore);
+}
+
+// Permission prompts need a user gesture, so call this from a click handler
+export async function reconnectSource(source: FileSource, ignore: IgnoreSettings = DEFAULT_IGNORE_SETTINGS): Promise<FileSource> {
+    if (!source.handle) return source;
+    const state = await (source.handle as ReadableDirectoryHandle).requestPermission({ mode: 'read' });
+    if (state !== 'granted') return source;
+    return readDirectoryHandle(source.handle, source.id, ignore);
+}
+
+// Workspace persistence
+
+export async function saveWorkspaceSource(source: FileSource): Promise<void> {
+    if (!source.handle || !isIndexedDbAvailable()) return;
+    await putRecord<StoredWorkspaceHandle>(STORES.workspaceHandles, { id: source.id, name: source.name, handle: source.handle });
+}
+
+export async function removeWorkspaceSource(id: string): Promise<void> {
+    if (!isIndexedDbAvailable()) return;
+    await deleteRecord(STORES.workspaceHandles, id);
+}
+
+export async function clearWorkspaceSources(): Promise<void> {
+    if (!isIndexedDbAvailable()) return;
+    await clearStore(STORES.workspaceHandles);
+}
+
+// Sources whose permission is still granted are read right away; the rest come back
+// empty and flagged so the UI can ask the user to reconnect them.
+export async function restoreWorkspaceSources(ignore: IgnoreSettings = DEFAULT_IGNORE_SETTINGS): Promise<FileSource[]> {
+    if (!isIndexedDbAvailable()) return [];
+
+    const stored = await getAllRecords<StoredWorkspaceHandle>(STORES.workspaceHandles);
+    const sources: FileSource[] = [];
+    for (const { id, name, handle } of stored) {
+        try {
+            const state = await (handle as ReadableDirectoryHandle).queryPermission({ mode: 'read' });
+            sources.push(state === 'granted'
+                ? await readDirectoryHandle(handle, id, ignore)
+                : { id, name, kind: 'directory', files: [], handle, needsPermission: true });
+        } catch {
+            // The folder was moved or deleted since it was saved
+            await removeWorkspaceSource(id);
+        }
+    }
+    return sources;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { OutputDocument } from './format.service';
+import { splitOutput } from './split.service';
+
+const measure = (text: string) => text.length;
+
+const document = (files: Array<[string, string]>): OutputDocument => ({
+    preamble: 'Project context.',
+    structure: 'app\n└── files',
+    files: files.map(([path, content]) => ({ path, content })),
+});
+
+const lines = (count: number, prefix: string) => Array.from({ length: count }, (_, i) => `${prefix} line ${i}`).join('\n');
+
+describe('splitOutput', () => {
+    it('keeps everything in one part when it fits', () => {
+        const parts = splitOutput(document([['a.ts', 'a'], ['b.ts', 'b']]), 'markdown', { limit: 10_000, unit: 'chars' }, measure);
+        expect(parts).toHaveLength(1);
+        expect(parts[0]).toMatchObject({ index: 1, total: 1, paths: ['a.ts', 'b.ts'] });
+    });
+
+    it('breaks between files and keeps every part under the limit', () => {
+        const files: Array<[string, string]> = [['a.ts', lines(20, 'a')], ['b.ts', lines(20, 'b')], ['c.ts', lines(20, 'c')]];
+        for (const format of ['markdown', 'xml', 'json', 'plain'] as const) {
+            const parts = splitOutput(document(files), format, { limit: 700, unit: 'chars' }, measure);
+            expect(parts.length).toBeGreaterThan(1);
+            expect(parts.flatMap(part => part.paths)).toEqual(['a.ts', 'b.ts', 'c.ts']);
+            for (const part of parts) expect(part.size).toBeLessThanOrEqual(700);
+        }
+    });
+
+    it('numbers the parts and only puts the structure in the first', () => {
+        const parts = splitOutput(document([['a.ts', lines(20, 'a')], ['b.ts', lines(20, 'b')]]), 'markdown', { limit: 500, unit: 'chars' }, measure);
+        expect(parts).toHaveLength(2);
+        expect(parts[0].content).toContain(`This is part 1 of ${parts.length}. Files in this part: a.ts`);
+        expect(parts[0].content).toContain('DIRECTORY STRUCTURE');
+        expect(parts[1].content).not.toContain('DIRECTORY STRUCTURE');
+    });
+
+    it('splits a file too big for one part at line boundaries with continuation markers', () => {
+        const content = lines(200, 'big');
+        const parts = splitOutput(document([['big.ts', content]]), 'markdown', { limit: 1_000, unit: 'chars' }, measure);
+        expect(parts.length).toBeGreaterThan(2);
+        expect(parts[0].content).toContain('[... continued in the next part ...]');
+        expect(parts[1].paths).toEqual(['big.ts (continued)']);
+        expect(parts[1].content).toContain('[... continued from the previous part ...]');
+        for (const part of parts) expect(part.size).toBeLessThanOrEqual(1_000);
+        for (let i = 0; i < 200; i++) expect(parts.some(part => part.content.includes(`big line ${i}\n`))).toBe(true);
+    });
+});
@@ -0,0 +1,162 @@
+import { getFormatter, type OutputDocument, type OutputFile, type OutputFormat } from './format.service';
+
+// Splits a document into numbered parts that each stay under a size limit, for chat UIs
+// with message-size caps. Parts break between files; a file that can't fit in a part of its
+// own is split at line boundaries with markers telling the model it continues.
+
+export type SplitUnit = 'chars' | 'tokens';
+
+export interface SplitOptions {
+    // 0 turns splitting off
+    limit: number;
+    unit: SplitUnit;
+}
+
+export interface OutputPart {
+    index: number;
+    total: number;
+    content: string;
+    // Measured in the unit the parts were split by
+    size: number;
+    paths: string[];
+}
+
+export const DEFAULT_SPLIT_OPTIONS: SplitOptions = { limit: 0, unit: 'chars' };
+
+const CONTINUED_IN_NEXT = '[... continued in the next part ...]';
+const CONTINUED_FROM_PREVIOUS = '[... continued from the previous part ...]';
+// Room for the part numbers, which are only known once packing is done
+const HEADER_SLACK = 16;
+// Keeps a limit smaller than the part header from producing one part per character
+const MIN_CHUNK_SIZE = 200;
+
+interface PartDraft {
+    files: OutputFile[];
+    paths: string[];
+}
+
+function partPreamble(preamble: string, index: number, total: number, paths: string[]): string {
+    const fileList = paths.length > 0 ? paths.join(', ') : '(none)';
+    return [preamble, `This is part ${index} of ${total}. Files in this part: ${fileList}`].filter(Boolean).join('\n\n');
+}
+
+function renderPart(document: OutputDocument, format: OutputFormat, draft: PartDraft, index: number, total: number): string {
+    return getFormatter(format).formatDocument({
+        ...document,
+        preamble: partPreamble(document.preamble, index, total, draft.paths),
+        structure: index === 1 ? document.structure : undefined,
+        diff: index === 1 ? document.diff : undefined,
+        files: draft.files,
+    });
+}
+
+// Splits one file into chunks whose formatted size stays within `available`
+function splitFile(file: OutputFile, available: number, format: OutputFormat, measure: (text: string) => number): OutputFile[] {
+    const formatter = getFormatter(format);
+    // JSON escapes the content, so newlines and quotes cost more there than in the raw text
+    const contentCost = format === 'json' ? (text: string) => measure(JSON.stringify(text).slice(1, -1)) : measure;
+    const markerCost = contentCost(`${CONTINUED_FROM_PREVIOUS}\n\n${CONTINUED_IN_NEXT}`);
+    const baseCost = measure(formatter.formatFiles([{ path: file.path, content: '' }])) + markerCost;
+    const budget = Math.max(MIN_CHUNK_SIZE, available - baseCost);
+    const newlineCost = contentCost('\n');
+
+    // Very long lines are cut into pieces so they can't overflow a chunk by themselves
+    const lines: string[] = [];
+    for (const line of file.content.split('\n')) {
+        const lineCost = contentCost(line);
+        if (lineCost <= budget) {
+            lines.push(line);
+            continue;
+        }
+        const pieceLength = Math.max(1, Math.floor(line.length * (budget / lineCost)));
+        for (let i = 0; i < line.length; i += pieceLength) lines.push(line.slice(i, i + pieceLength));
+    }
+
+    const chunks: string[] = [];
+    let current: string[] = [];
+    let currentCost = 0;
+    for (const line of lines) {
+        const lineCost = contentCost(line) + newlineCost;
+        if (current.length > 0 && currentCost + lineCost > budget) {
+            chunks.push(current.join('\n'));
+            current = [];
+            currentCost = 0;
+        }
+        current.push(line);
+        currentCost += lineCost;
+    }
+    if (current.length > 0 || chunks.length === 0) chunks.push(current.join('\n'));
+
+    return chunks.map((chunk, i) => ({
+        path: file.path,
+        content: [
+            i > 0 ? CONTINUED_FROM_PREVIOUS : '',
+            chunk,
+            i < chunks.length - 1 ? CONTINUED_IN_NEXT : '',
+        ].filter(Boolean).join('\n'),
+    }));
+}
+
+export function splitOutput(document: OutputDocument, format: OutputFormat, options: SplitOptions, measure: (text: string) => number): OutputPart[] {
+    const formatter = getFormatter(format);
+    const emptyPartCost = (index: number) => measure(formatter.formatDocument({
+        ...document,
+        preamble: partPreamble(document.preamble, index, index, []),
+        structure: index === 1 ? document.structure : undefined,
+        diff: index === 1 ? document.diff : undefined,
+        files: [],
+    })) + HEADER_SLACK;
+    // Measured inside a document so nesting (like JSON indentation) is counted. Each file also
+    // costs its entry in the part header's file list and the separator between blocks.
+    const bareDocumentCost = measure(formatter.formatDocument({ preamble: '', files: [] }));
+    const fileCost = (file: OutputFile) =>
+        measure(formatter.formatDocument({ preamble: '', files: [file] })) - bareDocumentCost + measure(`${file.path}, `) + 2;
+
+    const drafts: PartDraft[] = [];
+    let current: PartDraft = { files: [], paths: [] };
+    let used = emptyPartCost(1);
+
+    const startNewPart = () => {
+        drafts.push(current);
+        current = { files: [], paths: [] };
+        used = emptyPartCost(drafts.length + 1);
+    };
+
+    for (const file of document.files) {
+        const cost = fileCost(file);
+        if (used + cost <= options.limit) {
+            current.files.push(file);
+            current.paths.push(file.path);
+            used += cost;
+            continue;
+        }
+
+        // An empty part 1 is only given up if the file would fit next to a smaller header
+        if (current.files.length > 0 || (drafts.length === 0 && cost <= options.limit - emptyPartCost(2))) startNewPart();
+        if (used + cost <= options.limit) {
+            current.files.push(file);
+            current.paths.push(file.path);
+            used += cost;
+            continue;
+        }
+
+        // Too big for an empty part: spread it over as many parts as needed. Chunks are sized
+        // for the later parts, which don't repeat the structure.
+        const available = options.limit - emptyPartCost(drafts.length + 2) - measure(`${file.path} (continued), `);
+        const chunks = splitFile(file, available, format, measure);
+        chunks.forEach((chunk, i) => {
+            // Part 1 may not have room left next to the structure and diff
+            if (i > 0 || (drafts.length === 0 && used + fileCost(chunk) > options.limit)) startNewPart();
+            current.files.push(chunk);
+            current.paths.push(i > 0 ? `${file.path} (continued)` : file.path);
+            used += fileCost(chunk);
+        });
+    }
+    if (current.files.length > 0 || drafts.length === 0) drafts.push(current);
+
+    const total = drafts.length;
+    return drafts.map((draft, i) => {
+        const content = renderPart(document, format, draft, i + 1, total);
+        return { index: i + 1, total, content, size: measure(content), paths: draft.paths };
+    });
+}
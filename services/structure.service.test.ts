@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { FileNode, FileSystemTree } from '../types';
+import { DEFAULT_STRUCTURE_OPTIONS, buildStructureLines, collectExcludedEntries, formatStructureLines, type StructureInput } from './structure.service';
+
+const file = (path: string, content: string): FileNode => ({ kind: 'file', name: path.split('/').pop()!, path, content });
+
+const tree: FileSystemTree = [{
+    kind: 'directory',
+    name: 'app',
+    path: 'app',
+    children: [
+        { kind: 'directory', name: 'src', path: 'app/src', children: [file('app/src/a.ts', 'x\ny\n'), file('app/src/b.ts', 'z'), file('app/src/c.ts', 'w')] },
+        file('app/README.md', 'hi'),
+    ],
+}];
+
+const render = (input: StructureInput) => formatStructureLines(buildStructureLines(tree, input)).trimEnd().split('\n');
+
+describe('buildStructureLines', () => {
+    it('rolls annotations up into folders', () => {
+        expect(render({ options: { ...DEFAULT_STRUCTURE_OPTIONS, annotation: 'lines' } })).toEqual([
+            'app (5 lines)',
+            '├── src (4 lines)',
+            '│   ├── a.ts (2 lines)',
+            '│   ├── b.ts (1 line)',
+            '│   └── c.ts (1 line)',
+            '└── README.md (1 line)',
+        ]);
+    });
+
+    it('places omitted entries in order and keeps them out of the totals', () => {
+        const omitted: StructureInput['omitted'] = [
+            { path: 'app/dist', isDirectory: true, reason: 'ignored-dir' },
+            { path: 'app/lib/x.ts', isDirectory: false, reason: 'deselected' },
+            { path: 'app/src/c.bin', isDirectory: false, reason: 'binary' },
+        ];
+        expect(render({ options: { ...DEFAULT_STRUCTURE_OPTIONS, annotation: 'lines', showOmitted: true }, omitted })).toEqual([
+            'app (5 lines)',
+            '├── dist [omitted: ignored]',
+            '├── lib',
+            '│   └── x.ts [omitted: not selected]',
+            '├── src (4 lines)',
+            '│   ├── a.ts (2 lines)',
+            '│   ├── b.ts (1 line)',
+            '│   ├── c.bin [omitted: binary]',
+            '│   └── c.ts (1 line)',
+            '└── README.md (1 line)',
+        ]);
+        expect(render({ omitted })).toHaveLength(6);
+    });
+
+    it('only links lines whose content is in the output', () => {
+        const lines = buildStructureLines(tree, {
+            options: { ...DEFAULT_STRUCTURE_OPTIONS, showOmitted: true },
+            omitted: [{ path: 'app/src/c.bin', isDirectory: false, reason: 'binary' }],
+        });
+        expect(lines.map(line => line.path)).toEqual(['app', 'app/src', 'app/src/a.ts', 'app/src/b.ts', undefined, 'app/src/c.ts', 'app/README.md']);
+    });
+
+    it('collapses folders below maxDepth to a file count', () => {
+        expect(render({ options: { ...DEFAULT_STRUCTURE_OPTIONS, maxDepth: 1 } })).toEqual([
+            'app',
+            '├── src (3 files)',
+            '└── README.md',
+        ]);
+    });
+
+    it('summarizes entries past maxEntries', () => {
+        expect(render({
+            options: { ...DEFAULT_STRUCTURE_OPTIONS, maxEntries: 1, showOmitted: true },
+            omitted: [{ path: 'app/src/c.bin', isDirectory: false, reason: 'binary' }],
+        })).toEqual([
+            'app',
+            '├── src',
+            '│   ├── a.ts',
+            '│   └── (2 more files, 1 omitted)',
+            '└── README.md',
+        ]);
+    });
+});
+
+describe('collectExcludedEntries', () => {
+    it('lists the outermost excluded nodes, marking the ones dropped for the budget', () => {
+        expect(collectExcludedEntries(tree, new Set(['app/src', 'app/src/a.ts', 'app/README.md']), new Set(['app/README.md']))).toEqual([
+            { path: 'app/src', isDirectory: true, reason: 'deselected' },
+            { path: 'app/README.md', isDirectory: false, reason: 'budget' },
+        ]);
+    });
+});
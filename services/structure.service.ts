@@ -0,0 +1,213 @@
+import type { FileNode, FileSystemTree, SkipReason } from '../types';
+import { formatFileSize } from './encoding.service';
+import { formatTokenCount } from './token.service';
+import { isExcluded } from './selection.service';
+
+// The directory structure section. By default it's a bare tree of the included files; the
+// options add sizes, cap how much of the tree is spelled out, and list what was left out of
+// the output so a model knows those files exist.
+
+export type StructureAnnotation = 'none' | 'lines' | 'bytes' | 'tokens';
+
+export interface StructureOptions {
+    annotation: StructureAnnotation;
+    // Folders deeper than this are listed with a file count only; 0 shows every level
+    maxDepth: number;
+    // Entries listed per folder before the rest is summarized; 0 lists them all
+    maxEntries: number;
+    // List skipped, deselected and dropped entries with a marker
+    showOmitted: boolean;
+}
+
+export const DEFAULT_STRUCTURE_OPTIONS: StructureOptions = {
+    annotation: 'none',
+    maxDepth: 0,
+    maxEntries: 0,
+    showOmitted: false,
+};
+
+export type OmissionReason = SkipReason | 'deselected' | 'budget';
+
+export interface OmittedEntry {
+    path: string;
+    isDirectory: boolean;
+    reason: OmissionReason;
+}
+
+export interface StructureInput {
+    options?: StructureOptions;
+    omitted?: OmittedEntry[];
+    // Used for 'tokens' annotations, by file path
+    tokenCounts?: Map<string, number>;
+}
+
+export interface StructureLine {
+    text: string;
+    // Set on entries whose content is in the output
+    path?: string;
+}
+
+const OMISSION_LABELS: Record<OmissionReason, string> = {
+    'size': 'too large',
+    'ignored-dir': 'ignored',
+    'ignored-name': 'ignored',
+    'gitignore': 'gitignored',
+    'binary': 'binary',
+    'read-error': 'unreadable',
+    'deselected': 'not selected',
+    'budget': 'over token budget',
+};
+
+export function isOmissionReason(value: unknown): value is OmissionReason {
+    return typeof value === 'string' && value in OMISSION_LABELS;
+}
+
+interface StructureNode {
+    name: string;
+    path: string;
+    kind: 'file' | 'directory';
+    children: StructureNode[];
+    file?: FileNode;
+    omission?: OmissionReason;
+}
+
+interface Totals {
+    files: number;
+    lines: number;
+    bytes: number;
+    tokens: number;
+}
+
+// Matches sortTree in file.service, so inserted entries land where they would have been
+// in the default order
+function compareNodes(a: StructureNode, b: StructureNode): number {
+    if (a.kind === b.kind) return a.name.localeCompare(b.name);
+    return a.kind === 'directory' ? -1 : 1;
+}
+
+function toStructureNodes(tree: FileSystemTree): StructureNode[] {
+    return tree.map(node => node.kind === 'file'
+        ? { name: node.name, path: node.path, kind: 'file', children: [], file: node }
+        : { name: node.name, path: node.path, kind: 'directory', children: toStructureNodes(node.children) });
+}
+
+// Adds an entry at its path, creating the folders above it that have nothing included
+function insertOmitted(roots: StructureNode[], entry: OmittedEntry) {
+    const parts = entry.path.split('/');
+    let siblings = roots;
+    let path = '';
+    for (const [index, name] of parts.entries()) {
+        path = path ? `${path}/${name}` : name;
+        const isLast = index === parts.length - 1;
+        let node = siblings.find(candidate => candidate.name === name);
+        if (!node) {
+            node = { name, path, kind: isLast && !entry.isDirectory ? 'file' : 'directory', children: [] };
+            // Placed among the siblings without re-sorting them, which may follow ordering rules
+            const created = node;
+            const index = siblings.findIndex(sibling => compareNodes(created, sibling) < 0);
+            siblings.splice(index === -1 ? siblings.length : index, 0, node);
+        }
+        if (isLast) node.omission = entry.reason;
+        siblings = node.children;
+    }
+}
+
+function computeTotals(node: StructureNode, tokenCounts: Map<string, number>, totals: Map<StructureNode, Totals>): Totals {
+    let result: Totals = { files: 0, lines: 0, bytes: 0, tokens: 0 };
+    if (node.file && !node.omission) {
+        const content = node.file.content;
+        result = {
+            files: 1,
+            lines: content === '' ? 0 : content.split('\n').length - (content.endsWith('\n') ? 1 : 0),
+            bytes: new TextEncoder().encode(content).length,
+            tokens: tokenCounts.get(node.path) ?? 0,
+        };
+    }
+    for (const child of node.children) {
+        const childTotals = computeTotals(child, tokenCounts, totals);
+        result = {
+            files: result.files + childTotals.files,
+            lines: result.lines + childTotals.lines,
+            bytes: result.bytes + childTotals.bytes,
+            tokens: result.tokens + childTotals.tokens,
+        };
+    }
+    totals.set(node, result);
+    return result;
+}
+
+function plural(count: number, word: string): string {
+    return `${count.toLocaleString('en-US')} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function formatAmount(totals: Totals, annotation: StructureAnnotation): string {
+    if (annotation === 'lines') return plural(totals.lines, 'line');
+    if (annotation === 'bytes') return formatFileSize(totals.bytes);
+    if (annotation === 'tokens') return `~${formatTokenCount(totals.tokens)} token${totals.tokens === 1 ? '' : 's'}`;
+    return '';
+}
+
+export function buildStructureLines(tree: FileSystemTree, { options = DEFAULT_STRUCTURE_OPTIONS, omitted = [], tokenCounts = new Map() }: StructureInput = {}): StructureLine[] {
+    const roots = toStructureNodes(tree);
+    if (options.showOmitted) omitted.forEach(entry => insertOmitted(roots, entry));
+
+    const totals = new Map<StructureNode, Totals>();
+    if (options.annotation !== 'none' || options.maxDepth > 0 || options.maxEntries > 0) {
+        roots.forEach(root => computeTotals(root, tokenCounts, totals));
+    }
+
+    const describe = (node: StructureNode, collapsed: boolean): string => {
+        if (node.omission) return `${node.name} [omitted: ${OMISSION_LABELS[node.omission]}]`;
+        const nodeTotals = totals.get(node);
+        const details = [
+            node.kind === 'directory' && collapsed && nodeTotals ? plural(nodeTotals.files, 'file') : '',
+            nodeTotals && !(node.kind === 'directory' && nodeTotals.files === 0) ? formatAmount(nodeTotals, options.annotation) : '',
+        ].filter(Boolean);
+        return details.length > 0 ? `${node.name} (${details.join(', ')})` : node.name;
+    };
+
+    const lines: StructureLine[] = [];
+    const addChildren = (children: StructureNode[], prefix: string, depth: number) => {
+        const shown = options.maxEntries > 0 && children.length > options.maxEntries + 1 ? children.slice(0, options.maxEntries) : children;
+        const hidden = children.slice(shown.length);
+        shown.forEach((node, index) => {
+            const isLast = index === shown.length - 1 && hidden.length === 0;
+            const collapsed = node.kind === 'directory' && options.maxDepth > 0 && depth >= options.maxDepth && node.children.length > 0;
+            lines.push({ text: `${prefix}${isLast ? '└── ' : '├── '}${describe(node, collapsed)}`, path: node.omission ? undefined : node.path });
+            if (!collapsed && !node.omission) addChildren(node.children, prefix + (isLast ? '    ' : '│   '), depth + 1);
+        });
+        if (hidden.length > 0) {
+            const files = hidden.reduce((count, node) => count + (totals.get(node)?.files ?? 0), 0);
+            const omittedCount = hidden.filter(node => node.omission).length;
+            const summary = [files > 0 ? plural(files, 'more file') : '', omittedCount > 0 ? `${omittedCount} omitted` : '']
+                .filter(Boolean).join(', ') || `${hidden.length} more entries`;
+            lines.push({ text: `${prefix}└── (${summary})` });
+        }
+    };
+
+    for (const root of roots) {
+        lines.push({ text: describe(root, false), path: root.omission ? undefined : root.path });
+        if (root.kind === 'directory' && !root.omission) addChildren(root.children, '', 1);
+    }
+    return lines;
+}
+
+export function formatStructureLines(lines: StructureLine[]): string {
+    return lines.map(line => `${line.text}\n`).join('');
+}
+
+// The outermost excluded nodes of the tree, as entries for the structure
+export function collectExcludedEntries(tree: FileSystemTree, excludedPaths: Set<string>, droppedPaths: Set<string>): OmittedEntry[] {
+    const entries: OmittedEntry[] = [];
+    const visit = (nodes: FileSystemTree) => {
+        for (const node of nodes) {
+            if (isExcluded(node, excludedPaths)) {
+                entries.push({ path: node.path, isDirectory: node.kind === 'directory', reason: droppedPaths.has(node.path) ? 'budget' : 'deselected' });
+            } else if (node.kind === 'directory') {
+                visit(node.children);
+            }
+        }
+    };
+    visit(tree);
+    return entries;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { createTemplateValues, renderTemplate } from './template.service';
+
+describe('createTemplateValues', () => {
+    it('fills the date in local time', () => {
+        const timeZone = process.env.TZ;
+        // Late evening west of UTC is already the next day in UTC
+        process.env.TZ = 'America/Los_Angeles';
+        try {
+            const values = createTemplateValues({ task: '', fileCount: 1, tokenCount: 1, date: new Date(2024, 0, 2, 23, 30) });
+            expect(values.date).toBe('2024-01-02');
+        } finally {
+            process.env.TZ = timeZone;
+        }
+    });
+
+    it('formats counts for display', () => {
+        expect(createTemplateValues({ task: 'Fix it', fileCount: 3, tokenCount: 12345, date: new Date() })).toMatchObject({
+            task: 'Fix it',
+            file_count: '3',
+            token_count: '12,345',
+        });
+    });
+});
+
+describe('renderTemplate', () => {
+    it('replaces known placeholders', () => {
+        expect(renderTemplate('{{task}} in {{file_count}} files', { task: 'Review', file_count: '2' })).toBe('Review in 2 files');
+    });
+});
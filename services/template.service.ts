@@ -0,0 +1,116 @@
+// Prompt templates wrap the generated sections in instructions for a task. A template is
+// plain text with {{placeholders}}; the structure, diff and files placeholders are filled in by
+// the output formatter, the rest come from TemplateVariables.
+
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    body: string;
+    builtIn: boolean;
+}
+
+export interface TemplateVariables {
+    task: string;
+    fileCount: number;
+    tokenCount: number;
+    date: Date;
+}
+
+export const TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+    structure: 'Directory structure section',
+    diff: 'The applied diff, if any',
+    files: 'File contents section',
+    file_count: 'Number of included files',
+    token_count: 'Token count of the output',
+    date: "Today's date",
+    task: 'The task text entered below',
+};
+
+export const DEFAULT_TEMPLATE_ID = 'default';
+
+// Output without a template starts with this, the Default template reproduces that output
+export const DEFAULT_PREAMBLE = 'This prompt contains the structure and content of a project.';
+
+const USER_TEMPLATES_KEY = 'context-maker.templates';
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+    {
+        id: DEFAULT_TEMPLATE_ID,
+        name: 'Default',
+        body: `${DEFAULT_PREAMBLE}\n\n{{structure}}\n\n{{diff}}\n\n{{files}}`,
+        builtIn: true,
+    },
+    {
+        id: 'code-review',
+        name: 'Code review',
+        body: 'Review the code below ({{file_count}} files). Point out bugs, security problems, unclear naming and missing error handling. Group findings by file and order them by severity.\n\n{{task}}\n\n{{diff}}\n\n{{structure}}\n\n{{files}}',
+        builtIn: true,
+    },
+    {
+        id: 'bug-fix',
+        name: 'Bug fix',
+        body: 'Help me fix a bug in this project.\n\nBug description:\n{{task}}\n\nFind the root cause, explain it briefly and propose a minimal fix as a diff.\n\n{{structure}}\n\n{{files}}',
+        builtIn: true,
+    },
+    {
+        id: 'write-tests',
+        name: 'Write tests',
+        body: "Write tests for the code below. Use the project's existing test framework and conventions, cover edge cases and error paths, and avoid mocking what can be tested directly.\n\n{{task}}\n\n{{structure}}\n\n{{files}}",
+        builtIn: true,
+    },
+    {
+        id: 'explain',
+        name: 'Explain',
+        body: 'Explain how this project works: its architecture, the main modules and how data flows between them. Assume the reader is new to the codebase.\n\n{{task}}\n\n{{structure}}\n\n{{files}}',
+        builtIn: true,
+    },
+];
+
+// A placeholder on its own line that resolves to nothing takes the line and one blank line
+// after it along, so an empty task or a part without the structure doesn't leave a gap.
+// Unknown placeholders stay as written.
+export function renderTemplate(body: string, values: Record<string, string>): string {
+    return body
+        .replace(/^[ \t]*\{\{(\w+)\}\}[ \t]*(?:\n|$)(?:[ \t]*\n)?/gm, (line, name: string) => (values[name] === '' ? '' : line))
+        .replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+export function usesPlaceholder(body: string, name: string): boolean {
+    return body.includes(`{{${name}}}`);
+}
+
+// YYYY-MM-DD in the user's time zone; toISOString would give the UTC date
+function formatLocalDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function createTemplateValues({ task, fileCount, tokenCount, date }: TemplateVariables): Record<string, string> {
+    return {
+        task: task.trim(),
+        file_count: String(fileCount),
+        token_count: tokenCount.toLocaleString('en-US'),
+        date: formatLocalDate(date),
+    };
+}
+
+export function loadUserTemplates(): PromptTemplate[] {
+    try {
+        const stored = JSON.parse(localStorage.getItem(USER_TEMPLATES_KEY) ?? '[]');
+        return Array.isArray(stored)
+            ? stored
+                .filter(template => typeof template?.id === 'string' && typeof template.name === 'string' && typeof template.body === 'string')
+                .map(template => ({ id: template.id, name: template.name, body: template.body, builtIn: false }))
+            : [];
+    } catch {
+        return [];
+    }
+}
+
+export function saveUserTemplates(templates: PromptTemplate[]): void {
+    try {
+        localStorage.setItem(USER_TEMPLATES_KEY, JSON.stringify(templates.map(({ id, name, body }) => ({ id, name, body }))));
+    } catch {
+        // Private browsing or a full quota; the templates still work for this session
+    }
+}
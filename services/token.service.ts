@@ -0,0 +1,58 @@
+import type { FileSystemTree } from '../types';
+
+export type TokenizerKind = 'heuristic' | 'cl100k' | 'o200k';
+export type TokenCounter = (text: string) => number;
+
+export const TOKENIZER_LABELS: Record<TokenizerKind, string> = {
+    heuristic: 'Fast estimate',
+    cl100k: 'BPE (cl100k)',
+    o200k: 'BPE (o200k)',
+};
+
+// Words average roughly four characters per token, while punctuation and
+// symbols (dense in source code) usually end up as tokens of their own.
+export function estimateTokens(text: string): number {
+    let tokens = 0;
+    for (const match of text.matchAll(/[A-Za-z0-9_]+|[^\sA-Za-z0-9_]|\n/g)) {
+        const piece = match[0];
+        tokens += piece.length > 1 ? Math.ceil(piece.length / 4) : 1;
+    }
+    return tokens;
+}
+
+const loadedCounters = new Map<TokenizerKind, TokenCounter>([['heuristic', estimateTokens]]);
+
+// The BPE rank tables are large, so they are bundled as separate chunks and only loaded on demand
+export async function loadTokenCounter(kind: TokenizerKind): Promise<TokenCounter> {
+    const cached = loadedCounters.get(kind);
+    if (cached) return cached;
+
+    const encoding = kind === 'cl100k'
+        ? await import('gpt-tokenizer/encoding/cl100k_base')
+        : await import('gpt-tokenizer/encoding/o200k_base');
+
+    // Special token markers inside files are counted as plain text instead of throwing
+    const counter: TokenCounter = text => encoding.countTokens(text, { disallowedSpecial: new Set() });
+    loadedCounters.set(kind, counter);
+    return counter;
+}
+
+// Token counts keyed by node path. Directories hold the sum of everything below them.
+export function countTreeTokens(tree: FileSystemTree, countTokens: TokenCounter, counts = new Map<string, number>()): Map<string, number> {
+    for (const node of tree) {
+        if (node.kind === 'file') {
+            counts.set(node.path, countTokens(node.content));
+        } else {
+            countTreeTokens(node.children, countTokens, counts);
+            counts.set(node.path, node.children.reduce((sum, child) => sum + (counts.get(child.path) ?? 0), 0));
+        }
+    }
+    return counts;
+}
+
+export function formatTokenCount(count: number): string {
+    if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+    if (count >= 10_000) return `${Math.round(count / 1000)}k`;
+    if (count >= 1000) return `${(count / 1000).toFixed(1)}k`;
+    return String(count);
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { CONTENT_TRANSFORMERS, DEFAULT_TRANSFORMER_SETTINGS, applyTransformer, findTransformer, type TransformerId } from './transform.service';
+
+const transformer = (id: TransformerId) => CONTENT_TRANSFORMERS.find(candidate => candidate.id === id)!;
+
+describe('findTransformer', () => {
+    it('prefers exact filenames and leaves them alone when disabled', () => {
+        expect(findTransformer('package-lock.json', DEFAULT_TRANSFORMER_SETTINGS)?.id).toBe('lockfile');
+        expect(findTransformer('data.JSON', DEFAULT_TRANSFORMER_SETTINGS)?.id).toBe('structured');
+        expect(findTransformer('package-lock.json', { ...DEFAULT_TRANSFORMER_SETTINGS, lockfile: false })).toBeUndefined();
+    });
+});
+
+describe('applyTransformer', () => {
+    it('turns notebooks into percent-format cells without outputs', () => {
+        const notebook = JSON.stringify({
+            metadata: { kernelspec: { language: 'python' } },
+            cells: [
+                { cell_type: 'markdown', source: ['# Title\n', '\n', 'Text'] },
+                { cell_type: 'code', source: 'print(1)\n', outputs: [{ text: '1' }] },
+                'not a cell',
+            ],
+        });
+        expect(applyTransformer(transformer('notebook'), notebook, 'a.ipynb')).toEqual({
+            kind: 'transformed',
+            content: '# [Notebook: 2 cells, python; outputs of 1 cell stripped]\n\n# %% [markdown]\n# # Title\n#\n# Text\n\n# %%\nprint(1)\n',
+        });
+    });
+
+    it('lists packages from both npm lockfile versions', () => {
+        const v3 = JSON.stringify({ packages: { '': { name: 'app' }, 'node_modules/a': { version: '1.0.0' }, 'node_modules/a/node_modules/b': { version: '2.0.0' } } });
+        const v1 = JSON.stringify({ dependencies: { a: { version: '1.0.0', dependencies: { b: { version: '2.0.0' } } }, c: 'malformed' } });
+        const expected = { kind: 'transformed', content: '[Lockfile summary: 2 packages, resolved versions only]\na 1.0.0\nb 2.0.0\n' };
+        expect(applyTransformer(transformer('lockfile'), v3, 'package-lock.json')).toEqual(expected);
+        expect(applyTransformer(transformer('lockfile'), v1, 'package-lock.json')).toEqual(expected);
+    });
+
+    it('tells content it does not apply to apart from content it cannot parse', () => {
+        expect(applyTransformer(transformer('delimited'), 'a,b\n1,2\n', 'a.csv')).toEqual({ kind: 'unchanged' });
+        expect(applyTransformer(transformer('notebook'), '{', 'a.ipynb')).toEqual({ kind: 'failed' });
+    });
+
+    it('measures structured files in encoded bytes', () => {
+        // 9011 characters, but 18011 bytes once encoded as UTF-8
+        const json = JSON.stringify({ name: 'é'.repeat(9000) });
+        const result = applyTransformer(transformer('structured'), json, 'data.json');
+        expect(result.kind === 'transformed' && result.content).toMatch(/^\/\/ \[JSON shape of 17\.6 KB;/);
+    });
+});
@@ -0,0 +1,426 @@
+import { formatFileSize } from './encoding.service';
+
+// Rewrites file formats that are mostly noise to a model into something compact before the
+// file enters the tree: notebooks without their outputs, data files cut to a sample, large
+// config files reduced to their shape and lockfiles to a package list. A transformer that
+// can't make sense of a file returns undefined and the file is read as-is.
+
+export type TransformerId = 'notebook' | 'delimited' | 'structured' | 'lockfile';
+
+export interface ContentTransformer {
+    id: TransformerId;
+    label: string;
+    description: string;
+    // Exact filenames take precedence over extensions
+    filenames?: string[];
+    // Without the dot, lowercase
+    extensions?: string[];
+    transform(content: string, filename: string): string | undefined;
+}
+
+export type TransformerSettings = Record<TransformerId, boolean>;
+
+export type TransformResult =
+    | { kind: 'transformed'; content: string }
+    // The transformer doesn't apply to this content, e.g. a CSV file that is already short
+    | { kind: 'unchanged' }
+    // The content couldn't be parsed, so the file is read as-is
+    | { kind: 'failed' };
+
+export const DEFAULT_TRANSFORMER_SETTINGS: TransformerSettings = {
+    notebook: true,
+    delimited: true,
+    structured: true,
+    lockfile: true,
+};
+
+// Files are read whole before transforming, so this bounds memory rather than output size
+export const MAX_TRANSFORM_INPUT_SIZE = 20 * 1024 * 1024;
+
+const CSV_SAMPLE_ROWS = 10;
+// Smaller JSON and YAML files are kept as they are
+const STRUCTURED_SUMMARY_THRESHOLD = 16 * 1024;
+const SHAPE_MAX_DEPTH = 6;
+const SHAPE_MAX_KEYS = 40;
+// Array items merged into the shape of an array's elements
+const SHAPE_SAMPLE_ITEMS = 50;
+const YAML_MAX_DEPTH = 5;
+
+function getExtension(filename: string): string {
+    return filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+}
+
+function plural(count: number, word: string): string {
+    return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Only the fields read here; everything else in the notebook format is left alone
+interface NotebookCell {
+    cell_type?: unknown;
+    source?: unknown;
+    outputs?: unknown;
+}
+
+// An entry of package-lock.json's packages or (lockfileVersion 1) dependencies
+interface NpmLockEntry {
+    name?: unknown;
+    version?: unknown;
+    dependencies?: unknown;
+}
+
+// Jupyter notebooks, as percent-format cells like jupytext writes them
+function transformNotebook(content: string): string | undefined {
+    const notebook: unknown = JSON.parse(content);
+    if (!isRecord(notebook) || !Array.isArray(notebook.cells)) return undefined;
+    const metadata = isRecord(notebook.metadata) ? notebook.metadata : {};
+    const kernelspec = isRecord(metadata.kernelspec) ? metadata.kernelspec : {};
+    const languageInfo = isRecord(metadata.language_info) ? metadata.language_info : {};
+    const language = kernelspec.language ?? languageInfo.name ?? 'python';
+    const comment = ['python', 'r', 'julia', 'ruby', 'bash', 'sh'].includes(String(language).toLowerCase()) ? '#' : '//';
+    const source = (cell: NotebookCell) => (Array.isArray(cell.source) ? cell.source.join('') : String(cell.source ?? '')).replace(/\n+$/, '');
+
+    const notebookCells: NotebookCell[] = notebook.cells.filter(isRecord);
+    const withOutputs = notebookCells.filter(cell => Array.isArray(cell.outputs) && cell.outputs.length > 0).length;
+    const cells = notebookCells.map(cell => {
+        if (cell.cell_type === 'code') return `${comment} %%\n${source(cell)}`;
+        const text = source(cell).split('\n').map(line => (line ? `${comment} ${line}` : comment)).join('\n');
+        return `${comment} %% [${cell.cell_type === 'markdown' ? 'markdown' : 'raw'}]\n${text}`;
+    });
+    const header = `${comment} [Notebook: ${plural(cells.length, 'cell')}, ${language}${withOutputs > 0 ? `; outputs of ${plural(withOutputs, 'cell')} stripped` : ''}]`;
+    return [header, ...cells].join('\n\n') + '\n';
+}
+
+// Rows may contain quoted line breaks, so they are split on newlines outside quotes only
+function splitRows(content: string): string[] {
+    const rows: string[] = [];
+    let start = 0;
+    let inQuotes = false;
+    for (let i = 0; i < content.length; i++) {
+        const ch = content[i];
+        if (ch === '"') inQuotes = !inQuotes;
+        else if (ch === '\n' && !inQuotes) {
+            rows.push(content.slice(start, i).replace(/\r$/, ''));
+            start = i + 1;
+        }
+    }
+    if (start < content.length) rows.push(content.slice(start).replace(/\r$/, ''));
+    return rows.filter(row => row.trim() !== '');
+}
+
+// CSV and TSV: the header and a sample of rows
+function transformDelimited(content: string): string | undefined {
+    const rows = splitRows(content);
+    const dataRows = rows.length - 1;
+    if (dataRows <= CSV_SAMPLE_ROWS) return undefined;
+    return [
+        ...rows.slice(0, CSV_SAMPLE_ROWS + 1),
+        `[... ${plural(dataRows - CSV_SAMPLE_ROWS, 'more row')} omitted; ${plural(dataRows, 'data row')} in total ...]`,
+    ].join('\n') + '\n';
+}
+
+type Shape =
+    | { kind: 'primitive'; types: Set<string> }
+    | { kind: 'array'; items?: Shape; lengths: number[] }
+    | { kind: 'object'; keys: Map<string, Shape>; seen: number; counts: Map<string, number> };
+
+function describeValue(value: unknown): Shape {
+    if (Array.isArray(value)) {
+        let items: Shape | undefined;
+        for (const item of value.slice(0, SHAPE_SAMPLE_ITEMS)) items = mergeShapes(items, describeValue(item));
+        return { kind: 'array', items, lengths: [value.length] };
+    }
+    if (value !== null && typeof value === 'object') {
+        const keys = new Map<string, Shape>();
+        const counts = new Map<string, number>();
+        for (const [key, child] of Object.entries(value)) {
+            keys.set(key, describeValue(child));
+            counts.set(key, 1);
+        }
+        return { kind: 'object', keys, seen: 1, counts };
+    }
+    return { kind: 'primitive', types: new Set([value === null ? 'null' : typeof value]) };
+}
+
+// Shapes of different kinds can't be merged; the first one wins, which is rare in real data
+function mergeShapes(a: Shape | undefined, b: Shape): Shape {
+    if (!a) return b;
+    if (a.kind === 'primitive' && b.kind === 'primitive') return { kind: 'primitive', types: new Set([...a.types, ...b.types]) };
+    if (a.kind === 'array' && b.kind === 'array') {
+        return { kind: 'array', items: b.items ? mergeShapes(a.items, b.items) : a.items, lengths: [...a.lengths, ...b.lengths] };
+    }
+    if (a.kind === 'object' && b.kind === 'object') {
+        const keys = new Map(a.keys);
+        const counts = new Map(a.counts);
+        for (const [key, shape] of b.keys) {
+            keys.set(key, mergeShapes(keys.get(key), shape));
+            counts.set(key, (counts.get(key) ?? 0) + 1);
+        }
+        return { kind: 'object', keys, seen: a.seen + b.seen, counts };
+    }
+    return a;
+}
+
+function formatShape(shape: Shape, depth: number, indent: string): string {
+    if (shape.kind === 'primitive') return Array.from(shape.types).sort().join(' | ');
+    if (shape.kind === 'array') {
+        const min = Math.min(...shape.lengths);
+        const max = Math.max(...shape.lengths);
+        const length = min === max ? plural(min, 'item') : `${min}-${max} items`;
+        if (!shape.items) return `[] // ${length}`;
+        return `Array<${formatShape(shape.items, depth + 1, indent)}> // ${length}`;
+    }
+    if (shape.keys.size === 0) return '{}';
+    if (depth >= SHAPE_MAX_DEPTH) return `{ ... ${plural(shape.keys.size, 'key')} }`;
+    const inner = `${indent}  `;
+    const entries = Array.from(shape.keys.entries());
+    const lines = entries.slice(0, SHAPE_MAX_KEYS).map(([key, child]) => {
+        const optional = (shape.counts.get(key) ?? 0) < shape.seen ? '?' : '';
+        return `${inner}${JSON.stringify(key)}${optional}: ${formatShape(child, depth + 1, inner)}`;
+    });
+    if (entries.length > SHAPE_MAX_KEYS) lines.push(`${inner}// ... ${plural(entries.length - SHAPE_MAX_KEYS, 'more key')}`);
+    return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function summarizeJson(content: string, size: number): string {
+    const shape = describeValue(JSON.parse(content));
+    return `// [JSON shape of ${formatFileSize(size)}; values omitted, arrays described by their items]\n${formatShape(shape, 0, '')}\n`;
+}
+
+function describeYamlScalar(value: string): string {
+    if (/^(?:true|false|yes|no|on|off)$/i.test(value)) return 'boolean';
+    if (/^(?:null|~)$/i.test(value)) return 'null';
+    if (/^[-+]?(?:\d[\d_]*(?:\.\d*)?(?:e[-+]?\d+)?|\.inf|\.nan)$/i.test(value)) return 'number';
+    if (value.startsWith('&') || value.startsWith('*')) return value;
+    if (value.startsWith('[') || value.startsWith('{')) return value.length > 60 ? `${value[0]}...${value.endsWith(']') || value.endsWith('}') ? value.slice(-1) : ''}` : value;
+    return 'string';
+}
+
+// Line-based: keys keep their nesting, scalars become their type, and only the first item
+// of each list is kept. Anything deeper than YAML_MAX_DEPTH levels is dropped.
+function summarizeYaml(content: string, size: number): string {
+    const out: string[] = [];
+    // Indents of the enclosing lines, and per list the number of items seen
+    const stack: Array<{ indent: number; items: number; listIndent?: number }> = [];
+    let skipDeeperThan = -1;
+    let omittedItems = 0;
+    let omittedIndent = '';
+
+    const flushOmitted = () => {
+        if (omittedItems > 0) out.push(`${omittedIndent}# ... ${plural(omittedItems, 'more item')}`);
+        omittedItems = 0;
+    };
+
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.replace(/\s+$/, '');
+        const trimmed = line.trimStart();
+        if (!trimmed || trimmed.startsWith('#')) continue;
+        if (trimmed === '---' || trimmed === '...') {
+            flushOmitted();
+            stack.length = 0;
+            skipDeeperThan = -1;
+            out.push(trimmed);
+            continue;
+        }
+        const indent = line.length - trimmed.length;
+        if (skipDeeperThan !== -1 && indent > skipDeeperThan) continue;
+        skipDeeperThan = -1;
+
+        while (stack.length > 0 && stack[stack.length - 1].indent > indent) stack.pop();
+        const isItem = trimmed === '-' || trimmed.startsWith('- ');
+        let frame = stack[stack.length - 1];
+        if (!frame || frame.indent < indent) {
+            frame = { indent, items: 0 };
+            stack.push(frame);
+        }
+
+        if (isItem) {
+            frame.items++;
+            if (frame.items > 1) {
+                if (frame.items === 2) {
+                    flushOmitted();
+                    omittedIndent = ' '.repeat(indent);
+                }
+                omittedItems++;
+                skipDeeperThan = indent;
+                continue;
+            }
+        } else {
+            frame.items = 0;
+        }
+        flushOmitted();
+
+        if (stack.length > YAML_MAX_DEPTH) {
+            skipDeeperThan = indent;
+            continue;
+        }
+
+        const entry = /^(-\s+)?((?:"[^"]*"|'[^']*'|[^\s:#][^:#]*?))\s*:(?:\s+(.*))?$/.exec(trimmed);
+        if (entry) {
+            const value = entry[3];
+            if (value === undefined) {
+                out.push(line);
+            } else if (/^[|>][-+\d]*$/.test(value)) {
+                out.push(`${' '.repeat(indent)}${entry[1] ?? ''}${entry[2]}: string`);
+                skipDeeperThan = indent;
+            } else {
+                out.push(`${' '.repeat(indent)}${entry[1] ?? ''}${entry[2]}: ${describeYamlScalar(value.replace(/\s+#.*$/, ''))}`);
+            }
+        } else if (isItem) {
+            const value = trimmed.replace(/^-\s*/, '');
+            out.push(`${' '.repeat(indent)}- ${value ? describeYamlScalar(value) : ''}`.replace(/\s+$/, ''));
+        } else {
+            out.push(line);
+        }
+    }
+    flushOmitted();
+    return `# [YAML shape of ${formatFileSize(size)}; values replaced by their type, lists by their first item]\n${out.join('\n')}\n`;
+}
+
+function transformStructured(content: string, filename: string): string | undefined {
+    // In bytes, like the file sizes shown elsewhere
+    const size = new TextEncoder().encode(content).length;
+    if (size <= STRUCTURED_SUMMARY_THRESHOLD) return undefined;
+    return getExtension(filename) === 'json' ? summarizeJson(content, size) : summarizeYaml(content, size);
+}
+
+// name -> versions, from whichever lockfile format this is
+function parseLockfile(content: string, filename: string): Map<string, Set<string>> | undefined {
+    const packages = new Map<string, Set<string>>();
+    const add = (name: unknown, version: unknown) => {
+        if (typeof name !== 'string' || typeof version !== 'string' || !name || !version) return;
+        packages.set(name, (packages.get(name) ?? new Set()).add(version));
+    };
+
+    switch (filename) {
+        case 'package-lock.json':
+        case 'npm-shrinkwrap.json': {
+            const lock: unknown = JSON.parse(content);
+            if (!isRecord(lock)) return undefined;
+            const entries = (value: unknown): Array<[string, NpmLockEntry]> =>
+                isRecord(value) ? Object.entries(value).filter((entry): entry is [string, NpmLockEntry] => isRecord(entry[1])) : [];
+            for (const [path, info] of entries(lock.packages)) {
+                if (path) add(info.name ?? path.slice(path.lastIndexOf('node_modules/') + 'node_modules/'.length), info.version);
+            }
+            // lockfileVersion 1
+            const walk = (deps: unknown) => {
+                for (const [name, info] of entries(deps)) {
+                    add(name, info.version);
+                    walk(info.dependencies);
+                }
+            };
+            if (!lock.packages) walk(lock.dependencies);
+            break;
+        }
+        case 'composer.lock': {
+            const lock: unknown = JSON.parse(content);
+            if (!isRecord(lock)) return undefined;
+            const list = (value: unknown) => (Array.isArray(value) ? value.filter(isRecord) : []);
+            for (const info of [...list(lock.packages), ...list(lock['packages-dev'])]) add(info.name, info.version);
+            break;
+        }
+        case 'yarn.lock': {
+            // Entries start unindented with their specifiers; the version is an indented field
+            let names: string[] = [];
+            for (const line of content.split('\n')) {
+                if (/^\S/.test(line) && !line.startsWith('#') && line.trimEnd().endsWith(':')) {
+                    names = line.trimEnd().slice(0, -1).split(',').map(spec => spec.trim().replace(/^"|"$/g, ''))
+                        .map(spec => spec.slice(0, spec.indexOf('@', 1)));
+                } else {
+                    const version = /^\s+version:?\s+"?([^"\s]+)"?/.exec(line);
+                    if (version) new Set(names).forEach(name => add(name, version[1]));
+                }
+            }
+            break;
+        }
+        case 'pnpm-lock.yaml': {
+            let inPackages = false;
+            for (const line of content.split('\n')) {
+                if (/^\S/.test(line)) inPackages = line.startsWith('packages:');
+                const key = inPackages && /^ {2}['"]?\/?((?:@[^/@\s]+\/)?[^@\s'"]+)[@/]([^('":\s]+)/.exec(line);
+                if (key) add(key[1], key[2]);
+            }
+            break;
+        }
+        case 'Cargo.lock':
+        case 'poetry.lock':
+        case 'uv.lock': {
+            for (const block of content.split(/^\[\[package\]\]$/m).slice(1)) {
+                add(/^name = "([^"]+)"/m.exec(block)?.[1], /^version = "([^"]+)"/m.exec(block)?.[1]);
+            }
+            break;
+        }
+        case 'Gemfile.lock': {
+            for (const match of content.matchAll(/^ {4}([^\s(]+) \(([^)]+)\)$/gm)) add(match[1], match[2]);
+            break;
+        }
+        case 'go.sum': {
+            for (const match of content.matchAll(/^(\S+) (v[^\s/]+?)(?:\/go\.mod)? /gm)) add(match[1], match[2]);
+            break;
+        }
+        default:
+            return undefined;
+    }
+    return packages.size > 0 ? packages : undefined;
+}
+
+function transformLockfile(content: string, filename: string): string | undefined {
+    const packages = parseLockfile(content, filename);
+    if (!packages) return undefined;
+    const lines = Array.from(packages.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, versions]) => `${name} ${Array.from(versions).join(', ')}`);
+    return `[Lockfile summary: ${plural(packages.size, 'package')}, resolved versions only]\n${lines.join('\n')}\n`;
+}
+
+export const CONTENT_TRANSFORMERS: ContentTransformer[] = [
+    {
+        id: 'notebook',
+        label: 'Notebooks',
+        description: 'Code and markdown cells in order, outputs stripped',
+        extensions: ['ipynb'],
+        transform: transformNotebook,
+    },
+    {
+        id: 'delimited',
+        label: 'CSV / TSV',
+        description: `Header, first ${CSV_SAMPLE_ROWS} rows and the row count`,
+        extensions: ['csv', 'tsv'],
+        transform: transformDelimited,
+    },
+    {
+        id: 'structured',
+        label: 'Large JSON / YAML',
+        description: `Shape summary for files over ${formatFileSize(STRUCTURED_SUMMARY_THRESHOLD)}`,
+        extensions: ['json', 'yaml', 'yml'],
+        transform: transformStructured,
+    },
+    {
+        id: 'lockfile',
+        label: 'Lockfiles',
+        description: 'Package and version list',
+        filenames: ['package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'composer.lock', 'Cargo.lock', 'poetry.lock', 'uv.lock', 'Gemfile.lock', 'go.sum'],
+        transform: transformLockfile,
+    },
+];
+
+export function findTransformer(filename: string, settings: TransformerSettings): ContentTransformer | undefined {
+    const enabled = CONTENT_TRANSFORMERS.filter(transformer => settings[transformer.id]);
+    const byName = CONTENT_TRANSFORMERS.find(transformer => transformer.filenames?.includes(filename));
+    // A disabled lockfile transformer leaves package-lock.json alone rather than shape-summarizing it
+    if (byName) return enabled.includes(byName) ? byName : undefined;
+    const ext = getExtension(filename);
+    return enabled.find(transformer => transformer.extensions?.includes(ext));
+}
+
+export function applyTransformer(transformer: ContentTransformer, content: string, filename: string): TransformResult {
+    try {
+        const transformed = transformer.transform(content, filename);
+        return transformed === undefined ? { kind: 'unchanged' } : { kind: 'transformed', content: transformed };
+    } catch {
+        return { kind: 'failed' };
+    }
+}
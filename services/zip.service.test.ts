@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { extractZipEntry, isZipFileName, readZipEntries, ZIP_METHOD_DEFLATE, ZIP_METHOD_STORED } from './zip.service';
+
+// `zip -r fx.zip proj` of proj/README.md ("hello\n") and proj/src/index.ts (30 identical
+// lines, so it gets deflated), all dated 2024-01-02 03:04:06
+const FIXTURE = 'UEsDBAoAAAAAAIMYIlgAAAAAAAAAAAAAAAAFAAAAcHJvai9QSwMECgAAAAAAgxgiWAAAAAAAAAAAAAAAAAkAAABwcm9qL3NyYy9QSwMEFAAAAAgAgxgiWNur74wcAAAAOgIAABEAAABwcm9qL3NyYy9pbmRleC50c0vOzysuUUjMKy5PLVKwVTAxsuZKHhUaFSIsBABQSwMECgAAAAAAgxgiWCAwOjYGAAAABgAAAA4AAABwcm9qL1JFQURNRS5tZGhlbGxvClBLAQIeAwoAAAAAAIMYIlgAAAAAAAAAAAAAAAAFAAAAAAAAAAAAEADtQQAAAABwcm9qL1BLAQIeAwoAAAAAAIMYIlgAAAAAAAAAAAAAAAAJAAAAAAAAAAAAEADtQSMAAABwcm9qL3NyYy9QSwECHgMUAAAACACDGCJY26vvjBwAAAA6AgAAEQAAAAAAAAABAAAApIFKAAAAcHJvai9zcmMvaW5kZXgudHNQSwECHgMKAAAAAACDGCJYIDA6NgYAAAAGAAAADgAAAAAAAAABAAAApIGVAAAAcHJvai9SRUFETUUubWRQSwUGAAAAAAQABADlAAAAxwAAAAAA';
+
+const fixture = () => new File([Buffer.from(FIXTURE, 'base64')], 'fx.zip');
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('readZipEntries', () => {
+    it('lists files and folders from the central directory', async () => {
+        const entries = await readZipEntries(fixture());
+        expect(entries.map(entry => [entry.path, entry.isDirectory, entry.method])).toEqual([
+            ['proj/', true, ZIP_METHOD_STORED],
+            ['proj/src/', true, ZIP_METHOD_STORED],
+            ['proj/src/index.ts', false, ZIP_METHOD_DEFLATE],
+            ['proj/README.md', false, ZIP_METHOD_STORED],
+        ]);
+        expect(entries[3]).toMatchObject({ uncompressedSize: 6, isEncrypted: false, lastModified: new Date(2024, 0, 2, 3, 4, 6).getTime() });
+    });
+
+    it('rejects files that are not archives', async () => {
+        await expect(readZipEntries(new File(['not a zip'], 'a.zip'))).rejects.toThrow();
+    });
+});
+
+describe('extractZipEntry', () => {
+    it('returns stored and deflated contents', async () => {
+        const blob = fixture();
+        const entries = await readZipEntries(blob);
+        const byPath = new Map(entries.map(entry => [entry.path, entry]));
+        expect(decode(await extractZipEntry(blob, byPath.get('proj/README.md')!))).toBe('hello\n');
+        expect(decode(await extractZipEntry(blob, byPath.get('proj/src/index.ts')!))).toBe('const answer = 42;\n'.repeat(30));
+    });
+});
+
+describe('isZipFileName', () => {
+    it('matches the extension case-insensitively', () => {
+        expect(isZipFileName('Archive.ZIP')).toBe(true);
+        expect(isZipFileName('archive.zip.txt')).toBe(false);
+    });
+});
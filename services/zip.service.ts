@@ -0,0 +1,267 @@
+import type { InputFile } from '../types';
+
+// Reads ZIP archives directly from a File, or any other InputFile. Only the central directory
+// and the entries that are actually extracted get loaded, and inflation uses the built-in
+// DecompressionStream, so no third-party unzip library is needed. Writing goes the other way
+// through CompressionStream, for the downloads the app creates itself.
+
+export interface ZipEntry {
+    path: string;
+    isDirectory: boolean;
+    isEncrypted: boolean;
+    method: number;
+    compressedSize: number;
+    uncompressedSize: number;
+    localHeaderOffset: number;
+    lastModified: number;
+}
+
+export const ZIP_METHOD_STORED = 0;
+export const ZIP_METHOD_DEFLATE = 8;
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+
+const EOCD_MIN_SIZE = 22;
+const CENTRAL_HEADER_SIZE = 46;
+const MAX_COMMENT_SIZE = 0xffff;
+const LOCAL_HEADER_SIZE = 30;
+
+export function isZipFileName(name: string): boolean {
+    return /\.zip$/i.test(name);
+}
+
+async function readSlice(blob: InputFile, start: number, end: number): Promise<DataView> {
+    return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+// DOS timestamps have two-second resolution and no time zone; they are read as local time
+function dosDateTimeToMs(date: number, time: number): number {
+    return new Date(
+        ((date >> 9) & 0x7f) + 1980,
+        ((date >> 5) & 0x0f) - 1,
+        date & 0x1f,
+        (time >> 11) & 0x1f,
+        (time >> 5) & 0x3f,
+        (time & 0x1f) * 2,
+    ).getTime();
+}
+
+function readUint64(view: DataView, offset: number): number {
+    return Number(view.getBigUint64(offset, true));
+}
+
+async function findCentralDirectory(blob: InputFile): Promise<{ offset: number; size: number; count: number }> {
+    const tailStart = Math.max(0, blob.size - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+    const tail = await readSlice(blob, tailStart, blob.size);
+
+    // The end of central directory record sits after an optional comment, so scan backwards for it
+    let eocd = -1;
+    for (let i = tail.byteLength - EOCD_MIN_SIZE; i >= 0; i--) {
+        if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd === -1) throw new Error('Not a ZIP archive (end of central directory not found)');
+
+    let count = tail.getUint16(eocd + 10, true);
+    let size = tail.getUint32(eocd + 12, true);
+    let offset = tail.getUint32(eocd + 16, true);
+
+    // ZIP64 archives store the real values in a separate record pointed to by a locator
+    if (offset === 0xffffffff || size === 0xffffffff || count === 0xffff) {
+        const locator = eocd - 20;
+        if (locator < 0 || tail.getUint32(locator, true) !== ZIP64_EOCD_LOCATOR_SIGNATURE) {
+            throw new Error('Malformed ZIP64 archive');
+        }
+        const zip64Offset = readUint64(tail, locator + 8);
+        const zip64 = await readSlice(blob, zip64Offset, zip64Offset + 56);
+        if (zip64.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) throw new Error('Malformed ZIP64 archive');
+        count = readUint64(zip64, 32);
+        size = readUint64(zip64, 40);
+        offset = readUint64(zip64, 48);
+    }
+
+    return { offset, size, count };
+}
+
+export async function readZipEntries(blob: InputFile): Promise<ZipEntry[]> {
+    const directory = await findCentralDirectory(blob);
+    const view = await readSlice(blob, directory.offset, directory.offset + directory.size);
+    const utf8 = new TextDecoder('utf-8');
+    const entries: ZipEntry[] = [];
+
+    let cursor = 0;
+    for (let i = 0; i < directory.count; i++) {
+        if (view.getUint32(cursor, true) !== CENTRAL_HEADER_SIGNATURE) {
+            throw new Error('Malformed ZIP archive (bad central directory entry)');
+        }
+
+        const flags = view.getUint16(cursor + 8, true);
+        const method = view.getUint16(cursor + 10, true);
+        const time = view.getUint16(cursor + 12, true);
+        const date = view.getUint16(cursor + 14, true);
+        let compressedSize = view.getUint32(cursor + 20, true);
+        let uncompressedSize = view.getUint32(cursor + 24, true);
+        const nameLength = view.getUint16(cursor + 28, true);
+        const extraLength = view.getUint16(cursor + 30, true);
+        const commentLength = view.getUint16(cursor + 32, true);
+        let localHeaderOffset = view.getUint32(cursor + 42, true);
+
+        const nameStart = view.byteOffset + cursor + CENTRAL_HEADER_SIZE;
+        const path = utf8.decode(new Uint8Array(view.buffer, nameStart, nameLength)).replace(/\\/g, '/');
+
+        // ZIP64 extra field: only the values saturated in the header are present, in this order
+        let extra = cursor + CENTRAL_HEADER_SIZE + nameLength;
+        const extraEnd = extra + extraLength;
+        while (extra + 4 <= extraEnd) {
+            const id = view.getUint16(extra, true);
+            const length = view.getUint16(extra + 2, true);
+            if (id === ZIP64_EXTRA_FIELD_ID) {
+                let field = extra + 4;
+                if (uncompressedSize === 0xffffffff) { uncompressedSize = readUint64(view, field); field += 8; }
+                if (compressedSize === 0xffffffff) { compressedSize = readUint64(view, field); field += 8; }
+                if (localHeaderOffset === 0xffffffff) { localHeaderOffset = readUint64(view, field); }
+            }
+            extra += 4 + length;
+        }
+
+        entries.push({
+            path,
+            isDirectory: path.endsWith('/'),
+            isEncrypted: (flags & 0x1) !== 0,
+            method,
+            compressedSize,
+            uncompressedSize,
+            localHeaderOffset,
+            lastModified: dosDateTimeToMs(date, time),
+        });
+
+        cursor += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function extractZipEntry(blob: InputFile, entry: ZipEntry): Promise<Uint8Array> {
+    if (entry.isEncrypted) throw new Error('Encrypted ZIP entries are not supported');
+
+    // The local header repeats the name and may carry a different extra field than the central directory
+    const header = await readSlice(blob, entry.localHeaderOffset, entry.localHeaderOffset + LOCAL_HEADER_SIZE);
+    if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error(`Malformed ZIP archive (bad local header for ${entry.path})`);
+    }
+    const dataStart = entry.localHeaderOffset + LOCAL_HEADER_SIZE + header.getUint16(26, true) + header.getUint16(28, true);
+    const data = new Uint8Array(await blob.slice(dataStart, dataStart + entry.compressedSize).arrayBuffer());
+
+    if (entry.method === ZIP_METHOD_STORED) return data;
+    if (entry.method === ZIP_METHOD_DEFLATE) return inflateRaw(data);
+    throw new Error(`Unsupported ZIP compression method ${entry.method}`);
+}
+
+export interface ZipInputEntry {
+    path: string;
+    content: string;
+}
+
+// Bit 11: names are UTF-8
+const UTF8_NAME_FLAG = 0x0800;
+const ZIP_VERSION = 20;
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function msToDosDateTime(ms: number): { date: number; time: number } {
+    const d = new Date(ms);
+    return {
+        date: ((Math.max(d.getFullYear(), 1980) - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+        time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    };
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Generated text is small enough that ZIP64 is never needed
+export async function createZip(entries: ZipInputEntry[], lastModified = Date.now()): Promise<Blob> {
+    const utf8 = new TextEncoder();
+    const { date, time } = msToDosDateTime(lastModified);
+    const chunks: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = utf8.encode(entry.path);
+        const data = utf8.encode(entry.content);
+        const compressed = await deflateRaw(data);
+        // Tiny files can grow when deflated
+        const stored = compressed.length >= data.length;
+        const body = stored ? data : compressed;
+        const crc = crc32(data);
+
+        const local = new DataView(new ArrayBuffer(LOCAL_HEADER_SIZE));
+        local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+        local.setUint16(4, ZIP_VERSION, true);
+        local.setUint16(6, UTF8_NAME_FLAG, true);
+        local.setUint16(8, stored ? ZIP_METHOD_STORED : ZIP_METHOD_DEFLATE, true);
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, body.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, name.length, true);
+        chunks.push(new Uint8Array(local.buffer), name, body);
+
+        const header = new DataView(new ArrayBuffer(CENTRAL_HEADER_SIZE));
+        header.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+        header.setUint16(4, ZIP_VERSION, true);
+        header.setUint16(6, ZIP_VERSION, true);
+        header.setUint16(8, UTF8_NAME_FLAG, true);
+        header.setUint16(10, stored ? ZIP_METHOD_STORED : ZIP_METHOD_DEFLATE, true);
+        header.setUint16(12, time, true);
+        header.setUint16(14, date, true);
+        header.setUint32(16, crc, true);
+        header.setUint32(20, body.length, true);
+        header.setUint32(24, data.length, true);
+        header.setUint16(28, name.length, true);
+        header.setUint32(42, offset, true);
+        central.push(new Uint8Array(header.buffer), name);
+
+        offset += LOCAL_HEADER_SIZE + name.length + body.length;
+    }
+
+    const centralSize = central.reduce((size, chunk) => size + chunk.length, 0);
+    const eocd = new DataView(new ArrayBuffer(EOCD_MIN_SIZE));
+    eocd.setUint32(0, EOCD_SIGNATURE, true);
+    eocd.setUint16(8, entries.length, true);
+    eocd.setUint16(10, entries.length, true);
+    eocd.setUint32(12, centralSize, true);
+    eocd.setUint32(16, offset, true);
+
+    return new Blob([...chunks, ...central, new Uint8Array(eocd.buffer)], { type: 'application/zip' });
+}
@@ -4,6 +4,8 @@ export interface FileNode {
   name: string;
   path: string;
   content: string;
+  // From the file on disk, when known; used for ordering by recency
+  lastModified?: number;
 }
 
 export interface DirectoryNode {
@@ -16,9 +18,53 @@ export interface DirectoryNode {
 export type FileSystemTree = Array<FileNode | DirectoryNode>;
 export type FileSystemNode = FileNode | DirectoryNode;
 
-export interface FileSource {
-  id: string;
+// What processing needs from a file. Browser Files satisfy it as they are; the CLI reads
+// files on disk through the same shape (see cli/node-source.ts).
+export interface InputFile {
+  name: string;
+  size: number;
+  lastModified: number;
+  slice(start?: number, end?: number): { arrayBuffer(): Promise<ArrayBuffer> };
+  arrayBuffer(): Promise<ArrayBuffer>;
+  text(): Promise<string>;
+}
+
+// A set of files processed together into one top-level tree entry, independent of where the
+// files came from
+export interface InputSource {
   name: string;
-  kind: 'file' | 'directory';
+  // Archive sources hold a single .zip file whose entries are expanded during processing
+  kind: 'file' | 'directory' | 'archive';
+  files: InputFile[];
+  // Paths parallel to `files`, starting with the source name. Required for directory sources.
+  relativePaths?: string[];
+  // Folders skipped while walking the source, reported instead of being read
+  prunedDirs?: string[];
+}
+
+// An input source added in the browser
+export interface FileSource extends InputSource {
+  id: string;
   files: File[];
+  // Set for sources opened with the File System Access API; lets the source be re-read from disk
+  handle?: FileSystemDirectoryHandle;
+  // A restored handle whose read permission has to be granted again before it can be read
+  needsPermission?: boolean;
+}
+
+export type SkipReason = 'size' | 'ignored-dir' | 'ignored-name' | 'gitignore' | 'binary' | 'read-error';
+
+export interface SkippedEntry {
+  path: string;
+  reason: SkipReason;
+  isDirectory: boolean;
+  detail?: string;
+}
+
+export interface ProcessResult {
+  tree: FileSystemTree;
+  skipped: SkippedEntry[];
+  // Top-level paths in the order their sources were given, since the tree itself is sorted.
+  // Set on merged results.
+  sourceOrder?: string[];
 }